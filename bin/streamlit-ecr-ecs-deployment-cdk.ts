@@ -2,35 +2,52 @@
 import 'source-map-support/register';
 
 import * as cdk from 'aws-cdk-lib';
-import * as dotenv from 'dotenv';
 import { Platform } from 'aws-cdk-lib/aws-ecr-assets';
-import { checkEnvVariables } from '../utils/check-environment-variable';
 import { parsePlatforms } from '../utils/parsing-platform-variable';
+import { UniquePhysicalNamesCheck } from '../utils/unique-physical-names';
+import { loadDeploymentConfigs } from '../lib/config/load-deployment-config';
 import { CdkStreamlitFargateDeploymentStack } from '../lib/streamlit-ecr-ecs-fargate-deployment-cdk-stack';
+import { EDGE_REGION, requiresEdgeStack, StreamlitEdgeDeploymentCdkStack } from '../lib/constructs/streamlit-edge-deployment-cdk-stack';
+import { resolveDomainConfig } from '../lib/config/domain-config';
+import { stackPlatforms } from '../lib/config/platform-config';
 
-dotenv.config(); // Load environment variables from .env file
 const app = new cdk.App();
 
-const { CDK_DEFAULT_ACCOUNT: account, CDK_DEFAULT_REGION: region } = process.env;
+// load and validate .env, environment variables, CDK context and per-environment config files
+const deploymentConfigs = loadDeploymentConfigs(app);
 
-const cdkRegions = process.env.CDK_DEPLOY_REGIONS?.split(',') ?? [region]; // Parsing comma separated list of regions
-const deployEnvironments = process.env.ENVIRONMENTS?.split(',') ?? ['dev']; // Parsing comma separated list of environments
+for (const config of deploymentConfigs) {
+  const { appName, environment, account } = config;
+  // in multi-arch mode only the runtime platform gets stacks, publishing the images of all platforms
+  const platforms = parsePlatforms(stackPlatforms(config));
 
-export const LATEST_IMAGE_VERSION = 'latest';
-
-// check general stack props
-checkEnvVariables('ECR_REPOSITORY_NAME', 'APP_NAME', 'IMAGE_VERSION', 'PORT', 'PLATFORMS');
-
-const appName = process.env.APP_NAME!;
-console.log(`process.env.PLATFORMS: ${process.env.PLATFORMS}`);
-const platforms = parsePlatforms(process.env.PLATFORMS!.split(','));
-
-for (const cdkRegion of cdkRegions) {
-  for (const environment of deployEnvironments) {
+  for (const cdkRegion of config.regions) {
     for (const platform of platforms) {
       const platformString = platform === Platform.LINUX_AMD64 ? 'amd64' : 'arm';
       console.log(`platformString: ${platformString}, deployRegion: ${cdkRegion}, environment: ${environment}`);
 
+      // CloudFront certificates and web ACLs must live in us-east-1, shared with the regional stack via cross region references
+      const edgeStack = requiresEdgeStack(config) ? new StreamlitEdgeDeploymentCdkStack(app, `${appName}-${environment}-${cdkRegion}-${platformString}-StreamlitEdgeDeploymentCdkStack`, {
+        env: {
+          account,
+          region: EDGE_REGION,
+        },
+        tags: {
+          environment,
+          appName: appName,
+          AppManagerCFNStackKey: 'true',
+        },
+        crossRegionReferences: true,
+        deployRegion: cdkRegion,
+        environment,
+        platformString,
+        appName,
+        config,
+        domain: config.domain && resolveDomainConfig(config.domain, cdkRegion, platformString),
+        stackName: `${appName}-${environment}-${cdkRegion}-${platformString}-StreamlitEdgeDeploymentCdkStack`,
+        description: `Streamlit us-east-1 resources for CloudFront for ${environment} environment in ${cdkRegion} region, platform: ${platformString}.`,
+      }) : undefined;
+
       new CdkStreamlitFargateDeploymentStack(app, `${appName}-${environment}-${cdkRegion}-${platformString}-CdkStreamlitFargateDeploymentStack`, {
         env: {
           account,
@@ -45,9 +62,15 @@ for (const cdkRegion of cdkRegions) {
         environment,
         platformString,
         appName,
+        config,
+        edgeStack,
+        crossRegionReferences: edgeStack !== undefined,
         stackName: `${appName}-${environment}-${cdkRegion}-${platformString}-CdkStreamlitFargateDeploymentStack`,
         description: `Streamlit ECR/ECS with AppRunner deployment stack for ${environment} environment in ${cdkRegion} region, platform: ${platformString}.`,
       });
     }
   }
 }
+
+// stacks of different environments and platforms must not create the same repositories and exports
+cdk.Aspects.of(app).add(new UniquePhysicalNamesCheck());
@@ -0,0 +1,1097 @@
+/**
+ * CPU architectures a Streamlit image can be built and deployed for.
+ */
+export const PLATFORM_NAMES = ['LINUX_AMD64', 'LINUX_ARM64'] as const;
+export type PlatformName = typeof PLATFORM_NAMES[number];
+
+/**
+ * How the platforms are deployed.
+ * - `per-platform`: every platform gets its own stacks with an image built for it.
+ * - `multi-arch`: one set of stacks per region publishes a multi-architecture image of all platforms
+ *   and runs the tasks on the runtime platform.
+ */
+export const PLATFORM_MODES = ['per-platform', 'multi-arch'] as const;
+export type PlatformMode = typeof PLATFORM_MODES[number];
+
+/**
+ * Fully resolved and validated deployment configuration for a single environment.
+ * Produced by `loadDeploymentConfigs` from environment variables, the `.env` file,
+ * CDK context and the optional per-environment config file.
+ */
+export interface StreamlitDeploymentConfig {
+    /**
+     * The AWS account to deploy into. When undefined the stacks are environment agnostic on account.
+     */
+    readonly account?: string;
+    /**
+     * The name of the application associated with the deployment.
+     */
+    readonly appName: string;
+    /**
+     * The deployment environment this configuration was resolved for (e.g., 'dev', 'prod').
+     */
+    readonly environment: string;
+    /**
+     * The AWS regions the environment is deployed to.
+     */
+    readonly regions: string[];
+    /**
+     * The CPU architectures the environment is deployed for.
+     */
+    readonly platforms: PlatformName[];
+    /**
+     * Whether the platforms get separate stacks or share a multi-architecture image.
+     */
+    readonly platformMode: PlatformMode;
+    /**
+     * The platform the Fargate tasks run on in `multi-arch` mode, one of `platforms`.
+     * Defaults to the first platform.
+     */
+    readonly runtimePlatform: PlatformName;
+    /**
+     * The name of the ECR repository where the Docker images will be stored.
+     * May contain the `{app}`, `{env}`, `{platform}` and `{region}` placeholders.
+     */
+    readonly repositoryName: string;
+    /**
+     * The version tag for the Docker image to be deployed.
+     */
+    readonly imageVersion: string;
+    /**
+     * The port number on which the Streamlit container listens.
+     */
+    readonly port: number;
+    /**
+     * The Fargate sizing profiles of the environment.
+     */
+    readonly sizing: SizingConfig;
+    /**
+     * How the load balancer is protected against requests that bypass CloudFront.
+     */
+    readonly originProtection: OriginProtectionConfig;
+    /**
+     * The optional custom domain. The app is only reachable at the CloudFront domain when undefined.
+     */
+    readonly domain?: DomainConfig;
+    /**
+     * How users are authenticated before reaching the app.
+     */
+    readonly authentication: AuthenticationConfig;
+    /**
+     * The web application firewall in front of the CloudFront distribution.
+     */
+    readonly waf: WafConfig;
+    /**
+     * How new versions of the app are rolled out.
+     */
+    readonly deployment: DeploymentStrategyConfig;
+    /**
+     * The load balancer and container health checks.
+     */
+    readonly healthCheck: HealthCheckConfig;
+    /**
+     * The dashboard, alarms and alarm notifications of the deployment.
+     */
+    readonly observability: ObservabilityConfig;
+    /**
+     * Retention, encryption and archival of the log groups.
+     */
+    readonly logging: LoggingConfig;
+    /**
+     * The network of the deployment.
+     */
+    readonly vpc: VpcConfig;
+    /**
+     * The environment variables and secrets passed to the Streamlit container.
+     */
+    readonly container: ContainerConfig;
+    /**
+     * App specific permissions of the Streamlit task role.
+     */
+    readonly taskRole: TaskRoleConfig;
+    /**
+     * The Streamlit apps of the deployment, the app receiving unrouted requests first.
+     */
+    readonly apps: StreamlitAppConfig[];
+    /**
+     * How the stacks obtain the ECR repositories.
+     */
+    readonly ecr: EcrConfig;
+    /**
+     * Whether the tasks run on on-demand Fargate capacity only or partly on Fargate Spot.
+     */
+    readonly capacity: CapacityConfig;
+    /**
+     * Scheduled changes of the auto scaling bounds of every service.
+     */
+    readonly scaling: ScalingConfig;
+    /**
+     * How long CloudFront caches the static assets and media of the apps.
+     */
+    readonly cdn: CdnConfig;
+    /**
+     * The cross-origin requests CloudFront answers for the apps.
+     */
+    readonly cors: CorsConfig;
+    /**
+     * The security headers CloudFront adds to every response.
+     */
+    readonly securityHeaders: SecurityHeadersConfig;
+    /**
+     * How the load balancer keeps the requests of a Streamlit session on one task.
+     */
+    readonly sessions: SessionsConfig;
+    /**
+     * Access logs of the load balancer and the CloudFront distribution.
+     */
+    readonly accessLogs: AccessLogsConfig;
+}
+
+/**
+ * Task size and scaling settings of the Fargate service.
+ */
+export interface FargateSizingProfile {
+    /**
+     * The number of cpu units used by the task (256, 512, 1024, ...).
+     */
+    readonly cpu: number;
+    /**
+     * The amount (in MiB) of memory used by the task, must be a legal combination with `cpu`.
+     */
+    readonly memoryLimitMiB: number;
+    /**
+     * The number of tasks started when the service is created.
+     */
+    readonly desiredCount: number;
+    /**
+     * The lower bound of the auto scaling task count.
+     */
+    readonly minCapacity: number;
+    /**
+     * The upper bound of the auto scaling task count.
+     */
+    readonly maxCapacity: number;
+    /**
+     * The average CPU utilization the auto scaling policy keeps the service at.
+     */
+    readonly cpuTargetUtilizationPercent: number;
+    /**
+     * The average memory utilization an additional auto scaling policy keeps the service at, none when undefined.
+     */
+    readonly memoryTargetUtilizationPercent?: number;
+    /**
+     * The number of ALB requests per task and minute an additional auto scaling policy keeps the service at, none when undefined.
+     */
+    readonly requestsPerTarget?: number;
+    /**
+     * Cooldown after a scale in activity, in seconds.
+     */
+    readonly scaleInCooldownSeconds: number;
+    /**
+     * Cooldown after a scale out activity, in seconds.
+     */
+    readonly scaleOutCooldownSeconds: number;
+}
+
+/**
+ * Named sizing profiles and the profile selected for an environment.
+ */
+export interface SizingConfig {
+    /**
+     * The profile used in every region without a region specific override.
+     */
+    readonly profile: string;
+    /**
+     * Region specific profile overrides, keyed by region name.
+     */
+    readonly regionProfiles: Record<string, string>;
+    /**
+     * The built-in profiles merged with the custom ones from configuration.
+     */
+    readonly profiles: Record<string, FargateSizingProfile>;
+}
+
+/**
+ * How the ALB origin is protected against requests that bypass CloudFront.
+ * - `none`: the ALB forwards every request.
+ * - `custom-header`: CloudFront sends a secret header and the ALB answers 403 to requests without it.
+ */
+export const ORIGIN_PROTECTION_MODES = ['none', 'custom-header'] as const;
+export type OriginProtectionMode = typeof ORIGIN_PROTECTION_MODES[number];
+
+/**
+ * Origin protection settings of the CloudFront to ALB connection.
+ */
+export interface OriginProtectionConfig {
+    /**
+     * The selected protection mode.
+     */
+    readonly mode: OriginProtectionMode;
+    /**
+     * The name of the header CloudFront adds to every origin request.
+     */
+    readonly headerName: string;
+    /**
+     * Rotate the header value every given number of days. No rotation when undefined.
+     */
+    readonly rotationDays?: number;
+}
+
+/**
+ * Custom domain of the CloudFront distribution and the load balancer origin.
+ * Domain names may contain the `{region}` and `{platform}` placeholders.
+ */
+export interface DomainConfig {
+    /**
+     * The Route 53 hosted zone the records are created in, e.g. 'example.com'.
+     */
+    readonly hostedZoneName: string;
+    /**
+     * The id of the hosted zone. The zone is looked up by name when undefined.
+     */
+    readonly hostedZoneId?: string;
+    /**
+     * The domain name users reach the app at, e.g. 'app.dev.example.com'.
+     */
+    readonly domainName: string;
+    /**
+     * The domain name CloudFront reaches the load balancer at, defaults to 'origin.<domainName>'.
+     */
+    readonly originDomainName: string;
+}
+
+/**
+ * How users are authenticated by the load balancer before reaching the Streamlit app.
+ * - `none`: the app is public.
+ * - `cognito`: a Cognito user pool is created and used through `authenticate-cognito`.
+ * - `oidc`: an external OpenID Connect provider is used through `authenticate-oidc`.
+ */
+export const AUTHENTICATION_MODES = ['none', 'cognito', 'oidc'] as const;
+export type AuthenticationMode = typeof AUTHENTICATION_MODES[number];
+
+/**
+ * Endpoints and client of an external OpenID Connect provider.
+ */
+export interface OidcProviderConfig {
+    readonly issuer: string;
+    readonly authorizationEndpoint: string;
+    readonly tokenEndpoint: string;
+    readonly userInfoEndpoint: string;
+    readonly clientId: string;
+    /**
+     * The name of the Secrets Manager secret holding the client secret.
+     */
+    readonly clientSecretName: string;
+    /**
+     * The scopes requested from the provider.
+     */
+    readonly scope: string;
+}
+
+/**
+ * Authentication settings of the load balancer listener.
+ */
+export interface AuthenticationConfig {
+    /**
+     * The selected authentication mode.
+     */
+    readonly mode: AuthenticationMode;
+    /**
+     * Only users with an email address in one of these domains may sign in. Any domain when empty.
+     */
+    readonly allowedEmailDomains: string[];
+    /**
+     * Only members of one of these user pool groups may sign in. Any user when empty.
+     */
+    readonly allowedGroups: string[];
+    /**
+     * Whether users may sign up to the Cognito user pool themselves.
+     */
+    readonly selfSignUp: boolean;
+    /**
+     * The prefix of the Cognito hosted UI domain, must be unique within the region.
+     */
+    readonly cognitoDomainPrefix?: string;
+    /**
+     * How long an authenticated session lasts, in minutes.
+     */
+    readonly sessionTimeoutMinutes: number;
+    /**
+     * The external provider, required in `oidc` mode.
+     */
+    readonly oidc?: OidcProviderConfig;
+}
+
+/**
+ * Whether the web ACL rules only count matching requests or block them.
+ */
+export const WAF_MODES = ['count', 'block'] as const;
+export type WafMode = typeof WAF_MODES[number];
+
+/**
+ * Where the web ACL writes its logs to.
+ */
+export const WAF_LOG_DESTINATIONS = ['none', 'cloudwatch', 's3'] as const;
+export type WafLogDestination = typeof WAF_LOG_DESTINATIONS[number];
+
+/**
+ * Settings of the AWS WAF web ACL attached to the CloudFront distribution.
+ */
+export interface WafConfig {
+    /**
+     * Whether a web ACL is created and attached to the distribution.
+     */
+    readonly enabled: boolean;
+    /**
+     * Count or block requests matching the rules.
+     */
+    readonly mode: WafMode;
+    /**
+     * AWS managed rule groups added to the web ACL, e.g. 'AWSManagedRulesCommonRuleSet'.
+     */
+    readonly managedRuleGroups: string[];
+    /**
+     * Maximum number of requests per client IP in any 5 minute window. No rate limit when undefined.
+     */
+    readonly rateLimit?: number;
+    /**
+     * IP ranges (CIDR) that are always allowed, bypassing all other rules.
+     */
+    readonly allowedIpCidrs: string[];
+    /**
+     * IP ranges (CIDR) that are always blocked.
+     */
+    readonly deniedIpCidrs: string[];
+    /**
+     * When not empty, only requests from these countries (ISO 3166 alpha-2) are allowed.
+     */
+    readonly allowedCountries: string[];
+    /**
+     * Requests from these countries (ISO 3166 alpha-2) are blocked.
+     */
+    readonly blockedCountries: string[];
+    /**
+     * Where the web ACL logs are written to.
+     */
+    readonly logDestination: WafLogDestination;
+    /**
+     * How long the logs are kept, in days.
+     */
+    readonly logRetentionDays: number;
+}
+
+/**
+ * How new task definition revisions are rolled out.
+ * - `rolling`: ECS replaces tasks in place, the deployment circuit breaker rolls back failed deployments.
+ * - `blue-green`: CodeDeploy starts a second task set behind a second target group and shifts traffic to it.
+ */
+export const DEPLOYMENT_STRATEGIES = ['rolling', 'blue-green'] as const;
+export type DeploymentStrategy = typeof DEPLOYMENT_STRATEGIES[number];
+
+/**
+ * How CodeDeploy shifts traffic to the new task set in `blue-green` deployments.
+ */
+export const TRAFFIC_SHIFTING_TYPES = ['all-at-once', 'canary', 'linear'] as const;
+export type TrafficShiftingType = typeof TRAFFIC_SHIFTING_TYPES[number];
+
+/**
+ * Deployment strategy of the Fargate service.
+ */
+export interface DeploymentStrategyConfig {
+    /**
+     * The selected strategy.
+     */
+    readonly strategy: DeploymentStrategy;
+    /**
+     * How traffic is shifted to the new task set.
+     */
+    readonly trafficShifting: TrafficShiftingType;
+    /**
+     * The percentage of traffic shifted in the first (canary) or in every (linear) step.
+     */
+    readonly trafficShiftPercentage: number;
+    /**
+     * Minutes between the traffic shifting steps.
+     */
+    readonly trafficShiftIntervalMinutes: number;
+    /**
+     * Minutes the old task set keeps running after all traffic was shifted, allowing a quick manual rollback.
+     */
+    readonly terminationWaitMinutes: number;
+    /**
+     * The port of the test listener serving the new task set before traffic is shifted to it.
+     */
+    readonly testListenerPort: number;
+    /**
+     * Roll back when more than this percentage of the requests fail with a 5xx response.
+     */
+    readonly rollbackOn5xxRatePercent: number;
+    /**
+     * Roll back when at least this many targets are unhealthy.
+     */
+    readonly rollbackOnUnhealthyHosts: number;
+}
+
+/**
+ * Health checks of the load balancer target group and of the container.
+ */
+export interface HealthCheckConfig {
+    /**
+     * The path checked by the load balancer and the container health check.
+     */
+    readonly path: string;
+    /**
+     * The HTTP codes of a healthy response, e.g. '200' or '200-299'.
+     */
+    readonly healthyHttpCodes: string;
+    /**
+     * Seconds between two load balancer health checks.
+     */
+    readonly intervalSeconds: number;
+    /**
+     * Seconds the load balancer waits for a health check response.
+     */
+    readonly timeoutSeconds: number;
+    /**
+     * Consecutive successful checks before a target is considered healthy.
+     */
+    readonly healthyThresholdCount: number;
+    /**
+     * Consecutive failed checks before a target is considered unhealthy.
+     */
+    readonly unhealthyThresholdCount: number;
+    /**
+     * Seconds ECS ignores failing load balancer health checks of a newly started task.
+     */
+    readonly gracePeriodSeconds: number;
+    /**
+     * The health check run by ECS inside the container.
+     */
+    readonly container: ContainerHealthCheckConfig;
+}
+
+/**
+ * Health check run by ECS inside the container.
+ */
+export interface ContainerHealthCheckConfig {
+    /**
+     * Whether the task definition defines a container health check.
+     */
+    readonly enabled: boolean;
+    /**
+     * Seconds between two checks.
+     */
+    readonly intervalSeconds: number;
+    /**
+     * Seconds a check may take before it counts as failed.
+     */
+    readonly timeoutSeconds: number;
+    /**
+     * Consecutive failed checks before the container is considered unhealthy.
+     */
+    readonly retries: number;
+    /**
+     * Seconds after the container start during which failed checks are not counted.
+     */
+    readonly startPeriodSeconds: number;
+}
+
+/**
+ * Monitoring of a deployment: dashboard, alarms and their notifications.
+ */
+export interface ObservabilityConfig {
+    /**
+     * Whether the observability stack is deployed.
+     */
+    readonly enabled: boolean;
+    /**
+     * Email addresses subscribed to the alarm topic.
+     */
+    readonly alarmEmails: string[];
+    /**
+     * The name of the Secrets Manager secret holding a Slack incoming webhook URL alarms are posted to.
+     */
+    readonly slackWebhookSecretName?: string;
+    /**
+     * The alarm thresholds.
+     */
+    readonly alarms: AlarmThresholdsConfig;
+}
+
+/**
+ * Thresholds of the deployment alarms.
+ */
+export interface AlarmThresholdsConfig {
+    /**
+     * Alarm when more than this percentage of the load balancer requests fail with a 5xx response.
+     */
+    readonly http5xxRatePercent: number;
+    /**
+     * Alarm when the p95 target response time exceeds this many seconds.
+     */
+    readonly targetResponseTimeSeconds: number;
+    /**
+     * Alarm when fewer targets than this are healthy.
+     */
+    readonly minHealthyHosts: number;
+    /**
+     * Alarm when the average CPU utilization of the service exceeds this percentage.
+     */
+    readonly cpuUtilizationPercent: number;
+    /**
+     * Alarm when the average memory utilization of the service exceeds this percentage.
+     */
+    readonly memoryUtilizationPercent: number;
+    /**
+     * Alarm when the application logs more than this many error or exception lines per minute.
+     * Requires `logging.errorMetrics`.
+     */
+    readonly errorLogLines: number;
+    /**
+     * The number of one minute periods a threshold has to be breached before the alarm fires.
+     */
+    readonly evaluationPeriods: number;
+}
+
+/**
+ * Settings of the application and VPC flow log groups.
+ */
+export interface LoggingConfig {
+    /**
+     * How long log events are kept, in days.
+     */
+    readonly retentionDays: number;
+    /**
+     * Whether the log groups are encrypted with a customer managed KMS key.
+     */
+    readonly kmsEncryption: boolean;
+    /**
+     * Whether error and exception lines of the application logs are counted by a metric filter.
+     */
+    readonly errorMetrics: boolean;
+    /**
+     * Whether the log events are shipped to an S3 bucket through Kinesis Data Firehose for long-term archival.
+     */
+    readonly archiveToS3: boolean;
+    /**
+     * Archived log objects are deleted after this many days. Kept forever when undefined.
+     */
+    readonly archiveExpirationDays?: number;
+}
+
+/**
+ * The VPC the deployment runs in, either created by the stack or an existing one looked up by id or tags.
+ */
+export interface VpcConfig {
+    /**
+     * Look up an existing VPC instead of creating one.
+     */
+    readonly lookup?: VpcLookupConfig;
+    /**
+     * The IPv4 CIDR range of a created VPC.
+     */
+    readonly cidr: string;
+    /**
+     * Region specific CIDR ranges of created VPCs, keyed by region name.
+     */
+    readonly regionCidrs: Record<string, string>;
+    /**
+     * Platform specific CIDR ranges of created VPCs, keyed by `<region>/<platform>`, e.g. `ap-southeast-1/amd64`.
+     */
+    readonly platformCidrs: Record<string, string>;
+    /**
+     * The resolved CIDR range of the VPC of every stack of the environment, keyed by `<region>/<platform>`. The ranges do not overlap.
+     */
+    readonly stackCidrs: Record<string, string>;
+    /**
+     * The maximum number of availability zones a created VPC spans.
+     */
+    readonly maxAzs: number;
+    /**
+     * The number of NAT gateways of a created VPC. Without NAT gateways no private subnets with egress are created.
+     */
+    readonly natGateways: number;
+    /**
+     * The CIDR masks of the subnets of a created VPC.
+     */
+    readonly subnetCidrMasks: SubnetCidrMasksConfig;
+    /**
+     * Whether the S3 gateway endpoint and the ECR, CloudWatch Logs, Secrets Manager and SSM interface endpoints are added.
+     */
+    readonly endpoints: boolean;
+    /**
+     * The subnets the Fargate tasks run in. Tasks in isolated subnets reach AWS through the VPC endpoints only.
+     */
+    readonly taskSubnetType: TaskSubnetType;
+}
+
+/**
+ * The subnet types the Fargate tasks can run in.
+ */
+export const TASK_SUBNET_TYPES = ['private', 'isolated'] as const;
+export type TaskSubnetType = typeof TASK_SUBNET_TYPES[number];
+
+/**
+ * Identifies an existing VPC. Every given attribute has to match.
+ */
+export interface VpcLookupConfig {
+    readonly vpcId?: string;
+    readonly tags: Record<string, string>;
+}
+
+/**
+ * CIDR masks of the subnet groups, one subnet per availability zone and group.
+ */
+export interface SubnetCidrMasksConfig {
+    readonly public: number;
+    readonly private: number;
+    readonly isolated: number;
+}
+
+/**
+ * Runtime configuration of the Streamlit container.
+ */
+export interface ContainerConfig {
+    /**
+     * Plain environment variables, keyed by variable name.
+     */
+    readonly environment: Record<string, string>;
+    /**
+     * Environment variables resolved from Secrets Manager or SSM when the task starts, keyed by variable name.
+     */
+    readonly secrets: Record<string, ContainerSecretConfig>;
+}
+
+/**
+ * A reference to either a Secrets Manager secret or an SSM parameter.
+ */
+export interface ContainerSecretConfig {
+    /**
+     * The name of the Secrets Manager secret.
+     */
+    readonly secretName?: string;
+    /**
+     * The JSON key within the secret. The whole secret string is passed when undefined.
+     */
+    readonly field?: string;
+    /**
+     * The name of the SSM parameter, a String or SecureString parameter.
+     */
+    readonly parameterName?: string;
+}
+
+export const POLICY_EFFECTS = ['Allow', 'Deny'] as const;
+export type PolicyEffect = typeof POLICY_EFFECTS[number];
+
+/**
+ * Permissions the Streamlit app needs beyond the secrets of its container.
+ */
+export interface TaskRoleConfig {
+    /**
+     * Statements added to the task role policy, configured as an object keyed by statement id.
+     */
+    readonly policyStatements: TaskRolePolicyStatementConfig[];
+}
+
+/**
+ * A single IAM policy statement of the task role.
+ */
+export interface TaskRolePolicyStatementConfig {
+    readonly sid: string;
+    readonly effect: PolicyEffect;
+    readonly actions: string[];
+    /**
+     * ARNs of the resources, wildcards are allowed within an ARN but not as the whole resource.
+     */
+    readonly resources: string[];
+}
+
+/**
+ * A Streamlit app with its own image, task definition and service behind the shared load balancer.
+ */
+export interface StreamlitAppConfig {
+    /**
+     * The key of the app in the `apps` manifest. Undefined for the single app deployed without
+     * a manifest, whose resources keep the names they had before manifests existed.
+     */
+    readonly id?: string;
+    /**
+     * The ECR repository of the app image, with the placeholders of `StreamlitDeploymentConfig.repositoryName`.
+     */
+    readonly repositoryName: string;
+    /**
+     * The Docker build context, relative to the project root.
+     */
+    readonly sourceDirectory: string;
+    /**
+     * The Dockerfile, relative to the build context.
+     */
+    readonly dockerfile: string;
+    /**
+     * The port the container listens on.
+     */
+    readonly port: number;
+    /**
+     * Where the image of the app comes from.
+     */
+    readonly image: ImageConfig;
+    /**
+     * The sizing profile of the app. The profile of the environment and region applies when undefined.
+     */
+    readonly sizingProfile?: string;
+    /**
+     * Requests below this path, e.g. '/sales', are routed to the app, which serves them with
+     * the same Streamlit `baseUrlPath`.
+     */
+    readonly path?: string;
+    /**
+     * Requests for this host name are routed to the app. May contain the `{region}` and `{platform}` placeholders.
+     */
+    readonly host?: string;
+}
+
+/**
+ * How the stacks obtain the ECR repositories.
+ * - `create`: every stack creates and owns its repositories, their names must be unique per account and region.
+ * - `import`: the repositories exist already and may be shared by several stacks, e.g. by all environments.
+ */
+export const ECR_REPOSITORY_MODES = ['create', 'import'] as const;
+export type EcrRepositoryMode = typeof ECR_REPOSITORY_MODES[number];
+
+/**
+ * ECR settings of the environment.
+ */
+export interface EcrConfig {
+    /**
+     * Whether the repositories are created or imported by name.
+     */
+    readonly repositoryMode: EcrRepositoryMode;
+    /**
+     * How the images are scanned for vulnerabilities.
+     */
+    readonly imageScanning: EcrImageScanningMode;
+    /**
+     * Whether image tags cannot be overwritten. Only the version tag is pushed then, never `latest`.
+     */
+    readonly immutableTags: boolean;
+    /**
+     * Whether the created repositories are encrypted with a customer managed KMS key instead of AES-256.
+     */
+    readonly kmsEncryption: boolean;
+    /**
+     * The lifecycle rules of the created repositories.
+     */
+    readonly lifecycle: EcrLifecycleConfig;
+}
+
+/**
+ * How images are scanned for vulnerabilities. Critical findings are sent to the alarm topic.
+ * - `none`: images are not scanned.
+ * - `scan-on-push`: basic scanning of every pushed image.
+ * - `enhanced`: Amazon Inspector scans the images continuously. Enhanced scanning is a setting of the
+ *   registry, shared by every repository of the account and region, and must be enabled outside the stacks.
+ */
+export const ECR_IMAGE_SCANNING_MODES = ['none', 'scan-on-push', 'enhanced'] as const;
+export type EcrImageScanningMode = typeof ECR_IMAGE_SCANNING_MODES[number];
+
+/**
+ * Lifecycle rules of a created repository, evaluated in the order of the fields. An image kept by a
+ * rule is never expired by a later one, so release images only count against `keepReleaseImages`.
+ */
+export interface EcrLifecycleConfig {
+    /**
+     * Untagged images are expired this many days after being pushed.
+     */
+    readonly untaggedExpirationDays: number;
+    /**
+     * Prefixes of the release tags, e.g. `v`.
+     */
+    readonly releaseTagPrefixes: string[];
+    /**
+     * The number of release images kept.
+     */
+    readonly keepReleaseImages: number;
+    /**
+     * Prefixes of the development tags, e.g. `dev-`.
+     */
+    readonly devTagPrefixes: string[];
+    /**
+     * Development images are expired this many days after being pushed.
+     */
+    readonly devImageExpirationDays: number;
+    /**
+     * The number of images kept among those no earlier rule applies to.
+     */
+    readonly maxImageCount: number;
+}
+
+/**
+ * Where the image of an app comes from.
+ * - `build`: built from the source directory of the app and pushed to its repository.
+ * - `registry`: copied from another registry, e.g. an image built by CI, and pushed to its repository.
+ * - `ecr`: an image already in the repository of the app, referenced by digest without copying.
+ */
+export const IMAGE_SOURCES = ['build', 'registry', 'ecr'] as const;
+export type ImageSource = typeof IMAGE_SOURCES[number];
+
+/**
+ * The settings every image source shares.
+ */
+interface ImageSettings {
+    /**
+     * Whether the build may reuse cached layers (`build` only).
+     */
+    readonly cache: boolean;
+    /**
+     * Arguments passed to the build (`build` only).
+     */
+    readonly buildArgs: Record<string, string>;
+    /**
+     * Whether the services run the digest the `imageVersion` tag points to at deploy time, so that
+     * later pushes to the tag do not change the image of new tasks. Images of the `ecr` source are always pinned.
+     */
+    readonly pinDigest: boolean;
+}
+
+/**
+ * The image of an app pushed to its repository by the deployment.
+ */
+export interface PushedImageConfig extends ImageSettings {
+    readonly source: 'build' | 'registry';
+    /**
+     * The image copied (`registry` only), e.g. `ghcr.io/org/app:1.4.0`. May contain the `{platform}` placeholder.
+     */
+    readonly uri?: string;
+    /**
+     * Secrets Manager secret with the `user:password` credentials of the registry (`registry` only).
+     */
+    readonly credentialsSecretName?: string;
+}
+
+/**
+ * The image of an app already in its imported repository.
+ */
+export interface EcrImageConfig extends ImageSettings {
+    readonly source: 'ecr';
+    /**
+     * The digest of the image run by each platform, keyed by the `{platform}` name (`arm` or `amd64`),
+     * e.g. `sha256:...`. In `multi-arch` mode the digest of the runtime platform may be a manifest list.
+     */
+    readonly digests: Record<string, string>;
+}
+
+/**
+ * The image of an app.
+ */
+export type ImageConfig = PushedImageConfig | EcrImageConfig;
+
+/**
+ * The capacity the tasks run on.
+ * - `on-demand`: on-demand Fargate only.
+ * - `spot-mix`: a capacity provider strategy mixing `FARGATE` and `FARGATE_SPOT`, Spot tasks may be interrupted.
+ */
+export const CAPACITY_MODES = ['on-demand', 'spot-mix'] as const;
+export type CapacityMode = typeof CAPACITY_MODES[number];
+
+/**
+ * Capacity provider strategy of the services.
+ */
+export interface CapacityConfig {
+    readonly mode: CapacityMode;
+    /**
+     * The number of tasks of each service always placed on on-demand Fargate (`spot-mix` only).
+     */
+    readonly onDemandBase: number;
+    /**
+     * The relative share of the tasks beyond the base placed on on-demand Fargate (`spot-mix` only).
+     */
+    readonly onDemandWeight: number;
+    /**
+     * The relative share of the tasks beyond the base placed on Fargate Spot (`spot-mix` only).
+     */
+    readonly spotWeight: number;
+}
+
+/**
+ * A scheduled change of the auto scaling bounds, e.g. scaling to zero at night.
+ */
+export interface ScalingScheduleConfig {
+    /**
+     * The name of the schedule, unique within the environment.
+     */
+    readonly name: string;
+    /**
+     * When the bounds change, as `cron(...)`, `rate(...)` or `at(...)` expression in the time zone of the environment.
+     */
+    readonly expression: string;
+    /**
+     * The lower bound of the task count from then on, 0 stops every task.
+     */
+    readonly minCapacity: number;
+    /**
+     * The upper bound of the task count from then on.
+     */
+    readonly maxCapacity: number;
+}
+
+/**
+ * Scheduled scaling of the services.
+ */
+export interface ScalingConfig {
+    /**
+     * The IANA time zone the schedule expressions are evaluated in, e.g. `Europe/Berlin`.
+     */
+    readonly timeZone: string;
+    /**
+     * The schedules, applied to every service of the environment.
+     */
+    readonly schedules: ScalingScheduleConfig[];
+}
+
+/**
+ * The time CloudFront caches a kind of response.
+ */
+export interface CacheTtlConfig {
+    /**
+     * Applies when the origin sends no `Cache-Control` or `Expires` header, in seconds.
+     */
+    readonly defaultTtlSeconds: number;
+    /**
+     * Caps the time the origin headers ask for, in seconds.
+     */
+    readonly maxTtlSeconds: number;
+}
+
+/**
+ * Caching of the CloudFront distribution. The pages and the websocket of the apps are never cached.
+ */
+export interface CdnConfig {
+    /**
+     * The JavaScript, CSS and font files below `/static/`.
+     */
+    readonly staticAssets: CacheTtlConfig;
+    /**
+     * Images, audio and video the apps serve below `/media/`.
+     */
+    readonly media: CacheTtlConfig;
+}
+
+/**
+ * The HTTP methods cross-origin requests may use.
+ */
+export const CORS_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'PATCH', 'POST', 'DELETE'] as const;
+export type CorsMethod = typeof CORS_METHODS[number];
+
+/**
+ * Cross-origin resource sharing of the apps. CloudFront answers the preflight requests itself.
+ */
+export interface CorsConfig {
+    /**
+     * The origins allowed to call the apps, e.g. `https://portal.example.com`, or `*` for any origin.
+     */
+    readonly allowedOrigins: string[];
+    readonly allowedMethods: CorsMethod[];
+    /**
+     * The request headers allowed in cross-origin requests, or `*` for any header.
+     */
+    readonly allowedHeaders: string[];
+    /**
+     * Whether cross-origin requests may send cookies, not supported together with the origin `*`.
+     */
+    readonly allowCredentials: boolean;
+    /**
+     * How long browsers may cache a preflight response, in seconds.
+     */
+    readonly maxAgeSeconds: number;
+}
+
+/**
+ * The `X-Frame-Options` header, `none` leaves embedding the apps in frames of other sites to the browser defaults.
+ */
+export const FRAME_OPTIONS = ['DENY', 'SAMEORIGIN', 'none'] as const;
+export type FrameOption = typeof FRAME_OPTIONS[number];
+
+/**
+ * The values of the `Referrer-Policy` header.
+ */
+export const REFERRER_POLICIES = [
+    'no-referrer',
+    'no-referrer-when-downgrade',
+    'origin',
+    'origin-when-cross-origin',
+    'same-origin',
+    'strict-origin',
+    'strict-origin-when-cross-origin',
+    'unsafe-url',
+] as const;
+export type ReferrerPolicy = typeof REFERRER_POLICIES[number];
+
+/**
+ * Security headers of the responses, they override the headers sent by the apps.
+ */
+export interface SecurityHeadersConfig {
+    /**
+     * The `max-age` of the `Strict-Transport-Security` header in seconds, 0 omits the header.
+     */
+    readonly hstsMaxAgeSeconds: number;
+    readonly hstsIncludeSubdomains: boolean;
+    readonly hstsPreload: boolean;
+    /**
+     * The `Content-Security-Policy` header, omitted when undefined.
+     */
+    readonly contentSecurityPolicy?: string;
+    readonly frameOptions: FrameOption;
+    readonly referrerPolicy: ReferrerPolicy;
+}
+
+/**
+ * How the target groups bind the requests of a browser to one task.
+ * - `none`: every request may go to another task.
+ * - `load-balancer`: the ALB sets its own `AWSALB` cookie.
+ * - `application`: the ALB follows a cookie set by the app, e.g. the `_streamlit_xsrf` cookie of Streamlit.
+ */
+export const STICKINESS_MODES = ['none', 'load-balancer', 'application'] as const;
+export type StickinessMode = typeof STICKINESS_MODES[number];
+
+/**
+ * Load balancer settings for long-lived Streamlit sessions. Streamlit keeps uploaded files and media
+ * of a session in the memory of its task, so the requests of a session have to reach the same task.
+ */
+export interface SessionsConfig {
+    readonly stickiness: StickinessMode;
+    /**
+     * How long the requests of a browser stick to a task, in seconds.
+     */
+    readonly stickinessDurationSeconds: number;
+    /**
+     * The name of the app cookie, `application` stickiness only.
+     */
+    readonly cookieName?: string;
+    /**
+     * How long the ALB keeps an idle connection, e.g. a websocket without messages, open in seconds.
+     */
+    readonly idleTimeoutSeconds: number;
+    /**
+     * How long a task leaving the service keeps its connections before the ALB closes them, in seconds.
+     */
+    readonly deregistrationDelaySeconds: number;
+}
+
+/**
+ * The bucket the load balancer and CloudFront write their access logs to, one per deployment.
+ */
+export interface AccessLogsConfig {
+    readonly enabled: boolean;
+    /**
+     * Log objects move to S3 Glacier Instant Retrieval after this many days.
+     */
+    readonly transitionDays: number;
+    /**
+     * Log objects are deleted after this many days. Kept forever when undefined.
+     */
+    readonly expirationDays?: number;
+    /**
+     * Whether a Glue database with tables over the logs and an Athena workgroup are created for querying them.
+     */
+    readonly athena: boolean;
+}
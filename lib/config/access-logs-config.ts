@@ -0,0 +1,23 @@
+import { ConfigReader } from './config-reader';
+import { AccessLogsConfig } from './StreamlitDeploymentConfig';
+
+const SETTINGS = ['transitionDays', 'expirationDays', 'athena'];
+
+/**
+ * Reads the `accessLogs` section.
+ */
+export function readAccessLogsConfig(reader: ConfigReader): AccessLogsConfig {
+    const enabled = reader.boolean('accessLogs.enabled', { default: true }) ?? true;
+    const transitionDays = reader.integer('accessLogs.transitionDays', { min: 1, default: 90 }) ?? 90;
+    const expirationDays = reader.integer('accessLogs.expirationDays', { min: 1 });
+    const athena = reader.boolean('accessLogs.athena', { default: false }) ?? false;
+
+    if (!enabled) {
+        for (const key of SETTINGS.filter(key => reader.has(`accessLogs.${key}`))) {
+            reader.report(`accessLogs.${key}`, 'requires accessLogs.enabled to be true');
+        }
+    } else if (expirationDays !== undefined && expirationDays <= transitionDays) {
+        reader.report('accessLogs.expirationDays', `must be greater than accessLogs.transitionDays (${transitionDays})`);
+    }
+    return { enabled, transitionDays, expirationDays, athena };
+}
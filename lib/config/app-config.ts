@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigReader } from './config-reader';
+import { readDomainName, resolveDomainName } from './domain-config';
+import { readRepositoryName } from './ecr-config';
+import { readImageConfig, readInheritedImageConfig } from './image-config';
+import { stackPlatforms } from './platform-config';
+import { validateFargateTaskSize, validateSizingProfileScaling } from './sizing-config';
+import { ImageConfig, StreamlitAppConfig, StreamlitDeploymentConfig } from './StreamlitDeploymentConfig';
+
+/**
+ * The directory the source directories of the apps are relative to.
+ */
+export const PROJECT_ROOT = path.join(__dirname, '../..');
+
+/**
+ * The build context of the app deployed without a manifest.
+ */
+export const DEFAULT_SOURCE_DIRECTORY = 'coreservices';
+
+const APP_ID_PATTERN = /^[a-z][a-z0-9-]{0,19}$/;
+const URL_PATH_PATTERN = /^(\/[A-Za-z0-9._~-]+)+$/;
+
+/**
+ * Reads the `apps` manifest. Without a manifest the environment deploys a single app built from
+ * `coreservices`, or obtained as the `image` section describes, into `repositoryName`, listening on `port`.
+ *
+ * @param {ConfigReader} reader - The reader of the environment.
+ * @param {Partial<StreamlitDeploymentConfig>} config - The settings of the environment read so far.
+ * @returns {StreamlitAppConfig[]} The apps, the one without path and host routing first.
+ */
+export function readAppsConfig(reader: ConfigReader, config: Partial<StreamlitDeploymentConfig>): StreamlitAppConfig[] {
+    const platforms = stackPlatforms(config);
+    if (!reader.has('apps')) {
+        const image = readImageConfig(reader, 'image', config, platforms);
+        if (!config.repositoryName || config.port === undefined) {
+            return [];
+        }
+        return [{ repositoryName: config.repositoryName, sourceDirectory: DEFAULT_SOURCE_DIRECTORY, dockerfile: 'Dockerfile', port: config.port, image }];
+    }
+    const inheritedImage = readInheritedImageConfig(reader, config, platforms);
+
+    const ids = reader.keys('apps');
+    if (ids.length === 0) {
+        reader.report('apps', 'must contain at least one app');
+    }
+    const apps: StreamlitAppConfig[] = [];
+    for (const id of ids) {
+        const app = readAppConfig(reader, id, config, inheritedImage);
+        if (!app) {
+            continue;
+        }
+        const routedLike = apps.find(other => (other.path ?? other.host) === (app.path ?? app.host));
+        if (routedLike) {
+            reader.report(`apps.${id}`, app.path || app.host
+                ? `routes ${app.path ?? app.host} like apps.${routedLike.id} already does`
+                : `has neither path nor host, like apps.${routedLike.id} which already receives the unrouted requests`);
+        } else if (apps.some(other => other.repositoryName === app.repositoryName)) {
+            reader.report(`apps.${id}.repositoryName`, `'${app.repositoryName}' is already used by another app`);
+        } else {
+            apps.push(app);
+        }
+    }
+
+    if (config.deployment?.strategy === 'blue-green' && apps.length > 1) {
+        reader.report('deployment.strategy', `'blue-green' is only supported with a single app, the apps manifest contains ${apps.length}`);
+    }
+    // the app receiving the requests no listener rule matches comes first
+    return [...apps.filter(app => !app.path && !app.host), ...apps.filter(app => app.path || app.host)];
+}
+
+function readAppConfig(
+    reader: ConfigReader, id: string, config: Partial<StreamlitDeploymentConfig>, inheritedImage: ImageConfig | undefined,
+): StreamlitAppConfig | undefined {
+    const appPath = `apps.${id}`;
+    if (!APP_ID_PATTERN.test(id)) {
+        reader.report(appPath, `'${id}' is not a valid app id (lowercase letters, digits and hyphens, starting with a letter, at most 20 characters)`);
+        return undefined;
+    }
+    const app = reader.scoped(appPath);
+    const platforms = stackPlatforms(config);
+    const repositoryName = config.ecr && readRepositoryName(reader, `${appPath}.repositoryName`, config.ecr, platforms.length, {
+        default: config.repositoryName && `${config.repositoryName}-${id}`,
+    });
+    const sourceDirectory = app.string('sourceDirectory', { default: DEFAULT_SOURCE_DIRECTORY });
+    const dockerfile = app.string('dockerfile', { default: 'Dockerfile' });
+    const image = readImageConfig(reader, `${appPath}.image`, config, platforms, inheritedImage);
+    const port = app.integer('port', { min: 1, max: 65535, default: config.port });
+    const sizingProfile = config.sizing && app.oneOf('sizingProfile', Object.keys(config.sizing.profiles));
+    const urlPath = app.string('path', {
+        pattern: URL_PATH_PATTERN,
+        patternDescription: `a URL path like '/sales', without trailing slash`,
+    });
+    const host = app.has('host')
+        ? readDomainName(reader, `${appPath}.host`, config.domain?.hostedZoneName, config.regions ?? [], platforms.length, false)
+        : undefined;
+
+    if (image.source === 'build' && sourceDirectory && dockerfile && !fs.existsSync(path.resolve(PROJECT_ROOT, sourceDirectory, dockerfile))) {
+        app.report('sourceDirectory', `'${sourceDirectory}' does not contain the Dockerfile '${dockerfile}'`);
+    }
+    if (sizingProfile && config.sizing) {
+        const profile = config.sizing.profiles[sizingProfile];
+        const problems = platforms.map(platform => validateFargateTaskSize(profile.cpu, profile.memoryLimitMiB, platform));
+        for (const problem of [...problems, config.deployment && validateSizingProfileScaling(profile, config.deployment)]) {
+            if (problem) {
+                app.report('sizingProfile', problem);
+            }
+        }
+    }
+    if (app.has('host') && !config.domain) {
+        app.report('host', 'requires a custom domain (domain section) the host is served with');
+    } else if (host && (host === config.domain?.domainName || host === config.domain?.originDomainName)) {
+        app.report('host', 'must differ from domain.domainName and domain.originDomainName');
+    }
+    if (urlPath && app.has('host')) {
+        app.report('path', 'cannot be combined with host, route the app either by path or by host');
+    }
+
+    if (!repositoryName || !sourceDirectory || !dockerfile || port === undefined) {
+        return undefined;
+    }
+    return { id, repositoryName, sourceDirectory, dockerfile, port, image, sizingProfile, path: urlPath, host };
+}
+
+/**
+ * Prefixes construct ids and names with the app id, the app deployed without a manifest keeps the plain prefix.
+ */
+export function appIdPrefix(prefix: string, app: StreamlitAppConfig): string {
+    return app.id ? `${prefix}-${app.id}` : prefix;
+}
+
+/**
+ * The host names of the host routed apps with the placeholders resolved for one stack.
+ */
+export function resolveAppHosts(apps: StreamlitAppConfig[], region: string, platformString: string): string[] {
+    return apps.filter(app => app.host).map(app => resolveDomainName(app.host!, region, platformString));
+}
@@ -0,0 +1,68 @@
+import { ConfigReader } from './config-reader';
+import { AUTHENTICATION_MODES, AuthenticationConfig, DomainConfig, OidcProviderConfig } from './StreamlitDeploymentConfig';
+
+const EMAIL_DOMAIN_PATTERN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const GROUP_NAME_PATTERN = /^[\p{L}\p{M}\p{S}\p{N}\p{P}]{1,128}$/u;
+const COGNITO_DOMAIN_PREFIX_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const HTTPS_URL_PATTERN = /^https:\/\/[^\s]+$/;
+
+/**
+ * Names Secrets Manager accepts for a secret.
+ */
+export const SECRET_NAME_PATTERN = /^[A-Za-z0-9/_+=.@-]{1,512}$/;
+
+/**
+ * Reads the `authentication` section. Authentication needs the HTTPS listener of a custom domain.
+ */
+export function readAuthenticationConfig(reader: ConfigReader, domain: DomainConfig | undefined): AuthenticationConfig {
+    const mode = reader.oneOf('authentication.mode', AUTHENTICATION_MODES, { default: 'none' }) ?? 'none';
+    const allowedEmailDomains = (reader.stringList('authentication.allowedEmailDomains', {
+        default: [],
+        pattern: EMAIL_DOMAIN_PATTERN,
+        patternDescription: 'a valid lowercase email domain',
+    }) ?? []);
+    const allowedGroups = reader.stringList('authentication.allowedGroups', {
+        default: [],
+        pattern: GROUP_NAME_PATTERN,
+        patternDescription: 'a valid Cognito group name',
+    }) ?? [];
+    const selfSignUp = reader.boolean('authentication.selfSignUp', { default: false }) ?? false;
+    const cognitoDomainPrefix = reader.string('authentication.cognitoDomainPrefix', {
+        pattern: COGNITO_DOMAIN_PREFIX_PATTERN,
+        patternDescription: 'a valid Cognito domain prefix (lowercase letters, digits and hyphens)',
+    });
+    const sessionTimeoutMinutes = reader.integer('authentication.sessionTimeoutMinutes', { min: 1, max: 10080, default: 480 }) ?? 480;
+    const oidc = mode === 'oidc' ? readOidcProviderConfig(reader) : undefined;
+
+    if (mode !== 'none' && !domain) {
+        reader.report('authentication.mode', `'${mode}' requires a custom domain (domain section) because the load balancer can only authenticate on HTTPS listeners`);
+    }
+    if (mode === 'oidc') {
+        for (const path of ['authentication.allowedEmailDomains', 'authentication.allowedGroups', 'authentication.selfSignUp', 'authentication.cognitoDomainPrefix']) {
+            if (reader.has(path)) {
+                reader.report(path, 'is only supported with the cognito mode, restrict access in the OIDC provider instead');
+            }
+        }
+    }
+    return { mode, allowedEmailDomains, allowedGroups, selfSignUp, cognitoDomainPrefix, sessionTimeoutMinutes, oidc };
+}
+
+function readOidcProviderConfig(reader: ConfigReader): OidcProviderConfig | undefined {
+    const url = { required: true, pattern: HTTPS_URL_PATTERN, patternDescription: 'an https:// URL' };
+    const issuer = reader.string('authentication.oidc.issuer', url);
+    const authorizationEndpoint = reader.string('authentication.oidc.authorizationEndpoint', url);
+    const tokenEndpoint = reader.string('authentication.oidc.tokenEndpoint', url);
+    const userInfoEndpoint = reader.string('authentication.oidc.userInfoEndpoint', url);
+    const clientId = reader.string('authentication.oidc.clientId', { required: true });
+    const clientSecretName = reader.string('authentication.oidc.clientSecretName', {
+        required: true,
+        pattern: SECRET_NAME_PATTERN,
+        patternDescription: 'a valid Secrets Manager secret name',
+    });
+    const scope = reader.string('authentication.oidc.scope', { default: 'openid email profile' }) ?? 'openid email profile';
+
+    if (!issuer || !authorizationEndpoint || !tokenEndpoint || !userInfoEndpoint || !clientId || !clientSecretName) {
+        return undefined;
+    }
+    return { issuer, authorizationEndpoint, tokenEndpoint, userInfoEndpoint, clientId, clientSecretName, scope };
+}
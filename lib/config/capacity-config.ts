@@ -0,0 +1,25 @@
+import { ConfigReader } from './config-reader';
+import { CAPACITY_MODES, CapacityConfig, DeploymentStrategyConfig } from './StreamlitDeploymentConfig';
+
+const SPOT_MIX_KEYS = ['onDemandBase', 'onDemandWeight', 'spotWeight'];
+
+/**
+ * Reads the `capacity` section.
+ */
+export function readCapacityConfig(reader: ConfigReader, deployment: DeploymentStrategyConfig): CapacityConfig {
+    const mode = reader.oneOf('capacity.mode', CAPACITY_MODES, { default: 'on-demand' }) ?? 'on-demand';
+    const onDemandBase = reader.integer('capacity.onDemandBase', { min: 0, max: 100000, default: 1 }) ?? 1;
+    const onDemandWeight = reader.integer('capacity.onDemandWeight', { min: 0, max: 1000, default: 1 }) ?? 1;
+    const spotWeight = reader.integer('capacity.spotWeight', { min: 0, max: 1000, default: 3 }) ?? 3;
+
+    if (mode === 'on-demand') {
+        for (const key of SPOT_MIX_KEYS.filter(key => reader.has(`capacity.${key}`))) {
+            reader.report(`capacity.${key}`, `only applies with mode 'spot-mix' but the mode is '${mode}'`);
+        }
+    } else if (deployment.strategy === 'blue-green') {
+        reader.report('capacity.mode', `'${mode}' is not supported with the deployment strategy 'blue-green'`);
+    } else if (onDemandWeight === 0 && spotWeight === 0) {
+        reader.report('capacity.spotWeight', 'must be greater than 0 when capacity.onDemandWeight is 0');
+    }
+    return { mode, onDemandBase, onDemandWeight, spotWeight };
+}
@@ -0,0 +1,23 @@
+import { ConfigReader } from './config-reader';
+import { CacheTtlConfig, CdnConfig } from './StreamlitDeploymentConfig';
+
+const ONE_YEAR_SECONDS = 31536000;
+
+/**
+ * Reads the `cdn` section.
+ */
+export function readCdnConfig(reader: ConfigReader): CdnConfig {
+    return {
+        staticAssets: readCacheTtlConfig(reader.scoped('cdn.staticAssets'), { defaultTtlSeconds: 86400, maxTtlSeconds: ONE_YEAR_SECONDS }),
+        media: readCacheTtlConfig(reader.scoped('cdn.media'), { defaultTtlSeconds: 3600, maxTtlSeconds: 86400 }),
+    };
+}
+
+function readCacheTtlConfig(reader: ConfigReader, defaults: CacheTtlConfig): CacheTtlConfig {
+    const defaultTtlSeconds = reader.integer('defaultTtlSeconds', { min: 0, max: ONE_YEAR_SECONDS, default: defaults.defaultTtlSeconds }) ?? defaults.defaultTtlSeconds;
+    const maxTtlSeconds = reader.integer('maxTtlSeconds', { min: 0, max: ONE_YEAR_SECONDS, default: defaults.maxTtlSeconds }) ?? defaults.maxTtlSeconds;
+    if (defaultTtlSeconds > maxTtlSeconds) {
+        reader.report('defaultTtlSeconds', `must not be greater than maxTtlSeconds (${maxTtlSeconds})`);
+    }
+    return { defaultTtlSeconds, maxTtlSeconds };
+}
@@ -0,0 +1,297 @@
+/**
+ * A single problem found while validating the deployment configuration.
+ */
+export interface ConfigIssue {
+    /**
+     * Dotted path of the offending setting, e.g. 'port' or 'sizing.profiles.small.cpu'.
+     */
+    readonly path: string;
+    /**
+     * Where the offending value came from, e.g. 'process.env PORT' or 'config/dev.yaml port'.
+     */
+    readonly source: string;
+    /**
+     * Human readable description of the problem.
+     */
+    readonly message: string;
+}
+
+/**
+ * Thrown once all configuration sources have been validated and at least one problem was found.
+ * The message lists every problem together with the source of the bad value.
+ */
+export class DeploymentConfigError extends Error {
+    constructor(public readonly issues: ConfigIssue[]) {
+        super([
+            `Invalid deployment configuration, ${issues.length} problem(s) found:`,
+            ...issues.map(issue => `  - ${issue.path} (${issue.source}): ${issue.message}`),
+        ].join('\n'));
+        this.name = 'DeploymentConfigError';
+    }
+}
+
+/**
+ * One source of configuration values, e.g. the process environment or a per-environment config file.
+ */
+export interface ConfigLayer {
+    /**
+     * Name of the source used in error messages, e.g. 'process.env' or 'config/dev.yaml'.
+     */
+    readonly name: string;
+    /**
+     * Values provided by the source, keyed by config path.
+     */
+    readonly values: Record<string, unknown>;
+    /**
+     * Optional source specific key names, e.g. { port: 'PORT' } for environment variables.
+     */
+    readonly keyNames?: Record<string, string>;
+}
+
+/**
+ * A resolved configuration value together with the source it was taken from.
+ */
+export interface ConfigValue {
+    readonly value: unknown;
+    readonly source: string;
+}
+
+interface ReadOptions<T> {
+    readonly required?: boolean;
+    readonly default?: T;
+}
+
+interface StringReadOptions extends ReadOptions<string> {
+    readonly pattern?: RegExp;
+    readonly patternDescription?: string;
+    readonly maxLength?: number;
+}
+
+interface NumberReadOptions extends ReadOptions<number> {
+    readonly min?: number;
+    readonly max?: number;
+    readonly integer?: boolean;
+}
+
+interface ListReadOptions extends ReadOptions<string[]> {
+    readonly pattern?: RegExp;
+    readonly patternDescription?: string;
+    readonly allowed?: readonly string[];
+}
+
+/**
+ * Reads typed values out of a stack of configuration layers.
+ *
+ * Layers are given from lowest to highest precedence; for each path the value of the
+ * highest layer that defines it wins. Problems are collected into the shared issue list
+ * instead of being thrown, so that every problem can be reported at once.
+ */
+export class ConfigReader {
+    constructor(
+        private readonly layers: ConfigLayer[],
+        private readonly issues: ConfigIssue[],
+        private readonly prefix: string = '',
+    ) { }
+
+    /**
+     * Returns a reader rooted at the given path, e.g. a single profile entry.
+     */
+    scoped(path: string): ConfigReader {
+        return new ConfigReader(this.layers, this.issues, this.qualify(path));
+    }
+
+    /**
+     * Looks up the raw value of a path in the highest precedence layer that defines it.
+     */
+    lookup(path: string): ConfigValue | undefined {
+        const fullPath = this.qualify(path);
+        for (let i = this.layers.length - 1; i >= 0; i--) {
+            const layer = this.layers[i];
+            const value = getPath(layer.values, fullPath);
+            if (value !== undefined && value !== '') {
+                return { value, source: describeSource(layer, fullPath) };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Whether any layer defines the path.
+     */
+    has(path: string): boolean {
+        return this.lookup(path) !== undefined;
+    }
+
+    /**
+     * Union of the object keys defined at the path across all layers.
+     */
+    keys(path: string): string[] {
+        const fullPath = this.qualify(path);
+        const keys = new Set<string>();
+        for (const layer of this.layers) {
+            const value = getPath(layer.values, fullPath);
+            if (isPlainObject(value)) {
+                Object.keys(value).forEach(key => keys.add(key));
+            } else if (value !== undefined && value !== '') {
+                this.report(path, `must be an object but got ${JSON.stringify(value)}`, describeSource(layer, fullPath));
+            }
+        }
+        return [...keys];
+    }
+
+    /**
+     * Records a problem for the path, attributing it to the source of the path's current value.
+     */
+    report(path: string, message: string, source?: string): void {
+        this.issues.push({
+            path: this.qualify(path),
+            source: source ?? this.lookup(path)?.source ?? 'not set',
+            message,
+        });
+    }
+
+    string(path: string, options: StringReadOptions = {}): string | undefined {
+        const found = this.lookupRequired(path, options);
+        if (!found) {
+            return options.default;
+        }
+        if (typeof found.value !== 'string' && typeof found.value !== 'number') {
+            this.report(path, `must be a string but got ${JSON.stringify(found.value)}`);
+            return options.default;
+        }
+        const value = String(found.value).trim();
+        if (options.maxLength !== undefined && value.length > options.maxLength) {
+            this.report(path, `must be at most ${options.maxLength} characters long but got '${value}'`);
+            return options.default;
+        }
+        if (options.pattern && !options.pattern.test(value)) {
+            this.report(path, `'${value}' is not ${options.patternDescription ?? `matching ${options.pattern}`}`);
+            return options.default;
+        }
+        return value;
+    }
+
+    number(path: string, options: NumberReadOptions = {}): number | undefined {
+        const found = this.lookupRequired(path, options);
+        if (!found) {
+            return options.default;
+        }
+        const value = typeof found.value === 'string' && found.value.trim() !== '' ? Number(found.value) : found.value;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            this.report(path, `must be a number but got ${JSON.stringify(found.value)}`);
+            return options.default;
+        }
+        if (options.integer && !Number.isInteger(value)) {
+            this.report(path, `must be an integer but got ${value}`);
+            return options.default;
+        }
+        if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+            this.report(path, `must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'} but got ${value}`);
+            return options.default;
+        }
+        return value;
+    }
+
+    integer(path: string, options: NumberReadOptions = {}): number | undefined {
+        return this.number(path, { ...options, integer: true });
+    }
+
+    boolean(path: string, options: ReadOptions<boolean> = {}): boolean | undefined {
+        const found = this.lookupRequired(path, options);
+        if (!found) {
+            return options.default;
+        }
+        if (typeof found.value === 'boolean') {
+            return found.value;
+        }
+        if (typeof found.value === 'string' && ['true', 'false'].includes(found.value.trim().toLowerCase())) {
+            return found.value.trim().toLowerCase() === 'true';
+        }
+        this.report(path, `must be true or false but got ${JSON.stringify(found.value)}`);
+        return options.default;
+    }
+
+    oneOf<T extends string>(path: string, allowed: readonly T[], options: ReadOptions<T> = {}): T | undefined {
+        const value = this.string(path, { required: options.required });
+        if (value === undefined) {
+            return options.default;
+        }
+        if (!allowed.includes(value as T)) {
+            this.report(path, `'${value}' is not one of ${allowed.join(', ')}`);
+            return options.default;
+        }
+        return value as T;
+    }
+
+    /**
+     * Reads a list given either as an array or as a comma separated string.
+     */
+    stringList(path: string, options: ListReadOptions = {}): string[] | undefined {
+        const found = this.lookupRequired(path, options);
+        if (!found) {
+            return options.default;
+        }
+        let items: unknown[];
+        if (Array.isArray(found.value)) {
+            items = found.value;
+        } else if (typeof found.value === 'string') {
+            items = found.value.split(',');
+        } else {
+            this.report(path, `must be a list or a comma separated string but got ${JSON.stringify(found.value)}`);
+            return options.default;
+        }
+        const values: string[] = [];
+        let valid = true;
+        for (const item of items) {
+            const value = typeof item === 'string' || typeof item === 'number' ? String(item).trim() : undefined;
+            if (value === undefined || value === '') {
+                this.report(path, `contains an empty or non-string entry ${JSON.stringify(item)}`);
+                valid = false;
+            } else if (options.allowed && !options.allowed.includes(value)) {
+                this.report(path, `'${value}' is not one of ${options.allowed.join(', ')}`);
+                valid = false;
+            } else if (options.pattern && !options.pattern.test(value)) {
+                this.report(path, `'${value}' is not ${options.patternDescription ?? `matching ${options.pattern}`}`);
+                valid = false;
+            } else if (!values.includes(value)) {
+                values.push(value);
+            }
+        }
+        if (valid && values.length === 0 && options.required) {
+            this.report(path, 'must contain at least one entry');
+            valid = false;
+        }
+        return valid ? values : options.default;
+    }
+
+    private lookupRequired(path: string, options: ReadOptions<unknown>): ConfigValue | undefined {
+        const found = this.lookup(path);
+        if (!found && options.required) {
+            this.report(path, 'is required but was not set in any configuration source');
+        }
+        return found;
+    }
+
+    private qualify(path: string): string {
+        return [this.prefix, path].filter(part => part !== '').join('.');
+    }
+}
+
+function describeSource(layer: ConfigLayer, path: string): string {
+    return `${layer.name} ${layer.keyNames?.[path] ?? path}`;
+}
+
+function getPath(values: unknown, path: string): unknown {
+    let current = values;
+    for (const segment of path.split('.')) {
+        if (!isPlainObject(current)) {
+            return undefined;
+        }
+        current = current[segment];
+    }
+    return current;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
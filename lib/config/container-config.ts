@@ -0,0 +1,64 @@
+import { ConfigReader } from './config-reader';
+import { SECRET_NAME_PATTERN } from './authentication-config';
+import { ContainerConfig, ContainerSecretConfig } from './StreamlitDeploymentConfig';
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PARAMETER_NAME_PATTERN = /^(\/[A-Za-z0-9_.-]+)+$|^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Reads the `container` section. Every variable name may only be used once across
+ * `container.environment` and `container.secrets`.
+ */
+export function readContainerConfig(reader: ConfigReader): ContainerConfig {
+    const environment: Record<string, string> = {};
+    for (const name of reader.keys('container.environment')) {
+        const path = `container.environment.${name}`;
+        const value = reader.string(path);
+        if (!VARIABLE_NAME_PATTERN.test(name)) {
+            reader.report(path, `'${name}' is not a valid environment variable name`);
+        } else if (value !== undefined) {
+            environment[name] = value;
+        }
+    }
+
+    const secrets: Record<string, ContainerSecretConfig> = {};
+    for (const name of reader.keys('container.secrets')) {
+        const path = `container.secrets.${name}`;
+        const secret = readContainerSecret(reader, path);
+        if (!VARIABLE_NAME_PATTERN.test(name)) {
+            reader.report(path, `'${name}' is not a valid environment variable name`);
+        } else if (name in environment) {
+            reader.report(path, `cannot be combined with container.environment.${name}, the variable is defined twice`);
+        } else if (secret) {
+            secrets[name] = secret;
+        }
+    }
+    return { environment, secrets };
+}
+
+function readContainerSecret(reader: ConfigReader, path: string): ContainerSecretConfig | undefined {
+    const scoped = reader.scoped(path);
+    const secretName = scoped.string('secretName', {
+        pattern: SECRET_NAME_PATTERN,
+        patternDescription: 'a valid Secrets Manager secret name',
+    });
+    const field = scoped.string('field');
+    const parameterName = scoped.string('parameterName', {
+        maxLength: 2048,
+        pattern: PARAMETER_NAME_PATTERN,
+        patternDescription: 'a valid SSM parameter name',
+    });
+
+    if (scoped.has('secretName') === scoped.has('parameterName')) {
+        reader.report(path, 'must reference exactly one of secretName or parameterName');
+        return undefined;
+    }
+    if (scoped.has('field') && !scoped.has('secretName')) {
+        scoped.report('field', 'is only supported for Secrets Manager secrets');
+        return undefined;
+    }
+    if (!secretName && !parameterName) {
+        return undefined;
+    }
+    return { secretName, field, parameterName };
+}
@@ -0,0 +1,37 @@
+import { ConfigReader } from './config-reader';
+import { DEPLOYMENT_STRATEGIES, DeploymentStrategyConfig, TRAFFIC_SHIFTING_TYPES } from './StreamlitDeploymentConfig';
+
+export const DEFAULT_TEST_LISTENER_PORT = 9000;
+
+/**
+ * Ports of the production listener, which the test listener cannot use.
+ */
+const PRODUCTION_LISTENER_PORTS = [80, 443];
+
+/**
+ * Reads the `deployment` section.
+ */
+export function readDeploymentStrategyConfig(reader: ConfigReader): DeploymentStrategyConfig {
+    const strategy = reader.oneOf('deployment.strategy', DEPLOYMENT_STRATEGIES, { default: 'rolling' }) ?? 'rolling';
+    const trafficShifting = reader.oneOf('deployment.trafficShifting', TRAFFIC_SHIFTING_TYPES, { default: 'all-at-once' }) ?? 'all-at-once';
+    const trafficShiftPercentage = reader.integer('deployment.trafficShiftPercentage', { min: 1, max: 99, default: 10 }) ?? 10;
+    const trafficShiftIntervalMinutes = reader.integer('deployment.trafficShiftIntervalMinutes', { min: 1, max: 2880, default: 5 }) ?? 5;
+    const terminationWaitMinutes = reader.integer('deployment.terminationWaitMinutes', { min: 0, max: 2880, default: 5 }) ?? 5;
+    const testListenerPort = reader.integer('deployment.testListenerPort', { min: 1, max: 65535, default: DEFAULT_TEST_LISTENER_PORT }) ?? DEFAULT_TEST_LISTENER_PORT;
+    const rollbackOn5xxRatePercent = reader.number('deployment.rollbackOn5xxRatePercent', { min: 0.1, max: 100, default: 5 }) ?? 5;
+    const rollbackOnUnhealthyHosts = reader.integer('deployment.rollbackOnUnhealthyHosts', { min: 1, default: 1 }) ?? 1;
+
+    if (PRODUCTION_LISTENER_PORTS.includes(testListenerPort)) {
+        reader.report('deployment.testListenerPort', `must not be one of the production listener ports ${PRODUCTION_LISTENER_PORTS.join(', ')}`);
+    }
+    return {
+        strategy,
+        trafficShifting,
+        trafficShiftPercentage,
+        trafficShiftIntervalMinutes,
+        terminationWaitMinutes,
+        testListenerPort,
+        rollbackOn5xxRatePercent,
+        rollbackOnUnhealthyHosts,
+    };
+}
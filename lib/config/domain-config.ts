@@ -0,0 +1,87 @@
+import { ConfigReader } from './config-reader';
+import { DomainConfig } from './StreamlitDeploymentConfig';
+
+const DOMAIN_NAME_PATTERN = /^(?=.{1,253}$)([a-z0-9{}]([a-z0-9{}-]{0,61}[a-z0-9{}])?\.)+[a-z]{2,63}$/;
+const HOSTED_ZONE_ID_PATTERN = /^Z[A-Z0-9]{1,31}$/;
+const PLACEHOLDERS = ['{region}', '{platform}'];
+
+/**
+ * Reads the optional `domain` section. Returns undefined when no domain is configured.
+ */
+export function readDomainConfig(reader: ConfigReader, regions: string[], platformCount: number): DomainConfig | undefined {
+    if (!reader.has('domain')) {
+        return undefined;
+    }
+
+    const hostedZoneName = reader.string('domain.hostedZoneName', {
+        required: true,
+        pattern: DOMAIN_NAME_PATTERN,
+        patternDescription: 'a valid domain name',
+    });
+    const hostedZoneId = reader.string('domain.hostedZoneId', {
+        pattern: HOSTED_ZONE_ID_PATTERN,
+        patternDescription: 'a valid Route 53 hosted zone id',
+    });
+    const domainName = readDomainName(reader, 'domain.domainName', hostedZoneName, regions, platformCount, true);
+    const originDomainName = readDomainName(reader, 'domain.originDomainName', hostedZoneName, regions, platformCount, false)
+        ?? (domainName && `origin.${domainName}`);
+
+    if (!hostedZoneName || !domainName || !originDomainName) {
+        return undefined;
+    }
+    if (originDomainName === domainName) {
+        reader.report('domain.originDomainName', 'must differ from domain.domainName');
+    }
+    return { hostedZoneName, hostedZoneId, domainName, originDomainName };
+}
+
+/**
+ * Reads a domain name within the hosted zone, requiring the placeholders that keep it unique per stack.
+ */
+export function readDomainName(
+    reader: ConfigReader, path: string, hostedZoneName: string | undefined, regions: string[], platformCount: number, required: boolean,
+): string | undefined {
+    const domainName = reader.string(path, {
+        required,
+        pattern: DOMAIN_NAME_PATTERN,
+        patternDescription: 'a valid domain name (placeholders {region} and {platform} are allowed)',
+    });
+    if (!domainName) {
+        return undefined;
+    }
+    const withoutPlaceholders = PLACEHOLDERS.reduce((name, placeholder) => name.split(placeholder).join(''), domainName);
+    if (/[{}]/.test(withoutPlaceholders)) {
+        reader.report(path, `only the placeholders ${PLACEHOLDERS.join(', ')} are supported`);
+        return undefined;
+    }
+    if (hostedZoneName && domainName !== hostedZoneName && !domainName.endsWith(`.${hostedZoneName}`)) {
+        reader.report(path, `must be within the hosted zone ${hostedZoneName}`);
+        return undefined;
+    }
+    // every stack creates its own distribution, and a domain can only be served by one distribution
+    if (regions.length > 1 && !domainName.includes('{region}')) {
+        reader.report(path, `must contain {region} because the environment is deployed to ${regions.length} regions`);
+    }
+    if (platformCount > 1 && !domainName.includes('{platform}')) {
+        reader.report(path, `must contain {platform} because the environment is deployed for ${platformCount} platforms`);
+    }
+    return domainName;
+}
+
+/**
+ * Replaces the `{region}` and `{platform}` placeholders of a domain name for one stack.
+ */
+export function resolveDomainName(name: string, region: string, platformString: string): string {
+    return name.split('{region}').join(region).split('{platform}').join(platformString);
+}
+
+/**
+ * Replaces the `{region}` and `{platform}` placeholders of the domain names for one stack.
+ */
+export function resolveDomainConfig(domain: DomainConfig, region: string, platformString: string): DomainConfig {
+    return {
+        ...domain,
+        domainName: resolveDomainName(domain.domainName, region, platformString),
+        originDomainName: resolveDomainName(domain.originDomainName, region, platformString),
+    };
+}
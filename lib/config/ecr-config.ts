@@ -0,0 +1,105 @@
+import { ConfigReader } from './config-reader';
+import { ECR_IMAGE_SCANNING_MODES, ECR_REPOSITORY_MODES, EcrConfig, EcrLifecycleConfig } from './StreamlitDeploymentConfig';
+
+const REPOSITORY_PATTERN = /^(?:[a-z0-9]+(?:[._-][a-z0-9]+)*\/)*[a-z0-9]+(?:[._-][a-z0-9]+)*$/;
+
+const PLACEHOLDERS = ['{app}', '{env}', '{platform}', '{region}'];
+
+const TAG_PREFIX_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+
+/**
+ * The values of the repository name placeholders in one stack.
+ */
+export interface RepositoryNameValues {
+    readonly appName: string;
+    readonly environment: string;
+    readonly platformString: string;
+    readonly region: string;
+}
+
+/**
+ * Reads the `ecr` section.
+ */
+export function readEcrConfig(reader: ConfigReader): EcrConfig {
+    const repositoryMode = reader.oneOf('ecr.repositoryMode', ECR_REPOSITORY_MODES, { default: 'create' }) ?? 'create';
+    // imported repositories keep their own encryption and lifecycle policy
+    if (repositoryMode === 'import') {
+        for (const path of ['ecr.kmsEncryption', 'ecr.lifecycle']) {
+            if (reader.has(path)) {
+                reader.report(path, `only applies to created repositories but the repository mode is '${repositoryMode}'`);
+            }
+        }
+    }
+    return {
+        repositoryMode,
+        imageScanning: reader.oneOf('ecr.imageScanning', ECR_IMAGE_SCANNING_MODES, { default: 'scan-on-push' }) ?? 'scan-on-push',
+        immutableTags: reader.boolean('ecr.immutableTags', { default: false }) ?? false,
+        kmsEncryption: reader.boolean('ecr.kmsEncryption', { default: false }) ?? false,
+        lifecycle: readLifecycleConfig(reader.scoped('ecr.lifecycle')),
+    };
+}
+
+function readLifecycleConfig(reader: ConfigReader): EcrLifecycleConfig {
+    const tagPrefixOptions = { default: [], pattern: TAG_PREFIX_PATTERN, patternDescription: 'a valid image tag prefix' };
+    const releaseTagPrefixes = reader.stringList('releaseTagPrefixes', tagPrefixOptions) ?? [];
+    const devTagPrefixes = reader.stringList('devTagPrefixes', tagPrefixOptions) ?? [];
+    for (const prefix of devTagPrefixes) {
+        if (releaseTagPrefixes.some(releasePrefix => prefix.startsWith(releasePrefix) || releasePrefix.startsWith(prefix))) {
+            reader.report('devTagPrefixes', `'${prefix}' overlaps with the release tag prefixes ${releaseTagPrefixes.join(', ')}`);
+        }
+    }
+    if (reader.has('keepReleaseImages') && releaseTagPrefixes.length === 0) {
+        reader.report('keepReleaseImages', 'requires releaseTagPrefixes');
+    }
+    if (reader.has('devImageExpirationDays') && devTagPrefixes.length === 0) {
+        reader.report('devImageExpirationDays', 'requires devTagPrefixes');
+    }
+    return {
+        untaggedExpirationDays: reader.integer('untaggedExpirationDays', { min: 1, default: 7 }) ?? 7,
+        releaseTagPrefixes,
+        keepReleaseImages: reader.integer('keepReleaseImages', { min: 1, default: 10 }) ?? 10,
+        devTagPrefixes,
+        devImageExpirationDays: reader.integer('devImageExpirationDays', { min: 1, default: 14 }) ?? 14,
+        maxImageCount: reader.integer('maxImageCount', { min: 1, default: 4 }) ?? 4,
+    };
+}
+
+/**
+ * Reads a repository name, requiring the `{platform}` placeholder when the environment is deployed for several platforms.
+ */
+export function readRepositoryName(
+    reader: ConfigReader, path: string, ecr: EcrConfig, platformCount: number, options: { required?: boolean, default?: string } = {},
+): string | undefined {
+    const repositoryName = reader.string(path, { required: options.required, maxLength: 256, default: options.default });
+    if (!repositoryName) {
+        return undefined;
+    }
+    const withoutPlaceholders = PLACEHOLDERS.reduce((name, placeholder) => name.split(placeholder).join('a'), repositoryName);
+    if (/[{}]/.test(withoutPlaceholders)) {
+        reader.report(path, `only the placeholders ${PLACEHOLDERS.join(', ')} are supported`);
+        return undefined;
+    }
+    if (!REPOSITORY_PATTERN.test(withoutPlaceholders)) {
+        reader.report(path, `'${repositoryName}' is not a valid ECR repository name`);
+        return undefined;
+    }
+    // the stacks of the platforms share the region, so they either create the same repository or push the same tags
+    if (platformCount > 1 && !repositoryName.includes('{platform}')) {
+        reader.report(path, ecr.repositoryMode === 'create'
+            ? `must contain {platform} because the environment is deployed for ${platformCount} platforms, each creating its repository`
+            : `must contain {platform} because the environment is deployed for ${platformCount} platforms, which would overwrite each other's image tags`);
+    }
+    return repositoryName;
+}
+
+/**
+ * Replaces the placeholders of a repository name for one stack. ECR only allows lowercase names,
+ * so the application name is lowercased.
+ */
+export function resolveRepositoryName(name: string, values: RepositoryNameValues): string {
+    return name
+        .split('{app}').join(values.appName.toLowerCase())
+        .split('{env}').join(values.environment)
+        .split('{platform}').join(values.platformString)
+        .split('{region}').join(values.region);
+}
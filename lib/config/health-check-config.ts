@@ -0,0 +1,57 @@
+import { ConfigReader } from './config-reader';
+import { HealthCheckConfig } from './StreamlitDeploymentConfig';
+
+/**
+ * The health endpoint of Streamlit, answering 200 once the server is up.
+ */
+export const STREAMLIT_HEALTH_CHECK_PATH = '/_stcore/health';
+
+const PATH_PATTERN = /^\/[A-Za-z0-9\/_.~-]*$/;
+const HTTP_CODES_PATTERN = /^[1-5]\d\d(-[1-5]\d\d)?(,[1-5]\d\d(-[1-5]\d\d)?)*$/;
+
+/**
+ * Reads the `healthCheck` section.
+ */
+export function readHealthCheckConfig(reader: ConfigReader): HealthCheckConfig {
+    const path = reader.string('healthCheck.path', {
+        default: STREAMLIT_HEALTH_CHECK_PATH,
+        maxLength: 1024,
+        pattern: PATH_PATTERN,
+        patternDescription: 'an absolute URL path',
+    }) ?? STREAMLIT_HEALTH_CHECK_PATH;
+    const healthyHttpCodes = reader.string('healthCheck.healthyHttpCodes', {
+        default: '200',
+        pattern: HTTP_CODES_PATTERN,
+        patternDescription: "a list of HTTP codes or code ranges, e.g. '200' or '200-299'",
+    }) ?? '200';
+    const intervalSeconds = reader.integer('healthCheck.intervalSeconds', { min: 5, max: 300, default: 15 }) ?? 15;
+    const timeoutSeconds = reader.integer('healthCheck.timeoutSeconds', { min: 2, max: 120, default: 5 }) ?? 5;
+    const healthyThresholdCount = reader.integer('healthCheck.healthyThresholdCount', { min: 2, max: 10, default: 2 }) ?? 2;
+    const unhealthyThresholdCount = reader.integer('healthCheck.unhealthyThresholdCount', { min: 2, max: 10, default: 3 }) ?? 3;
+    const gracePeriodSeconds = reader.integer('healthCheck.gracePeriodSeconds', { min: 0, max: 7200, default: 60 }) ?? 60;
+    if (timeoutSeconds >= intervalSeconds) {
+        reader.report('healthCheck.timeoutSeconds', `must be less than healthCheck.intervalSeconds (${intervalSeconds})`);
+    }
+
+    const container = {
+        enabled: reader.boolean('healthCheck.container.enabled', { default: true }) ?? true,
+        intervalSeconds: reader.integer('healthCheck.container.intervalSeconds', { min: 5, max: 300, default: 30 }) ?? 30,
+        timeoutSeconds: reader.integer('healthCheck.container.timeoutSeconds', { min: 2, max: 60, default: 5 }) ?? 5,
+        retries: reader.integer('healthCheck.container.retries', { min: 1, max: 10, default: 3 }) ?? 3,
+        startPeriodSeconds: reader.integer('healthCheck.container.startPeriodSeconds', { min: 0, max: 300, default: 30 }) ?? 30,
+    };
+    if (container.timeoutSeconds >= container.intervalSeconds) {
+        reader.report('healthCheck.container.timeoutSeconds', `must be less than healthCheck.container.intervalSeconds (${container.intervalSeconds})`);
+    }
+
+    return {
+        path,
+        healthyHttpCodes,
+        intervalSeconds,
+        timeoutSeconds,
+        healthyThresholdCount,
+        unhealthyThresholdCount,
+        gracePeriodSeconds,
+        container,
+    };
+}
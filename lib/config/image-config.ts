@@ -0,0 +1,136 @@
+import { ConfigReader } from './config-reader';
+import { SECRET_NAME_PATTERN } from './authentication-config';
+import { stackPlatformString } from './platform-config';
+import { IMAGE_SOURCES, ImageConfig, ImageSource, PlatformName, StreamlitDeploymentConfig } from './StreamlitDeploymentConfig';
+
+const BUILD_ARG_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DIGEST_OPTIONS = {
+    pattern: /^sha256:[a-f0-9]{64}$/,
+    patternDescription: 'an image digest (sha256: followed by 64 hexadecimal digits)',
+};
+
+const NAME_COMPONENT = '[a-z0-9]+(?:[._-][a-z0-9]+)*';
+const IMAGE_URI_PATTERN = new RegExp(
+    `^(?:[A-Za-z0-9.-]+(?::\\d+)?/)?${NAME_COMPONENT}(?:/${NAME_COMPONENT})*(?::[A-Za-z0-9_][A-Za-z0-9_.-]{0,127})?(?:@sha256:[a-f0-9]{64})?$`,
+);
+
+/**
+ * The settings of each source, rejected when the image has another source.
+ */
+const SOURCE_KEYS: Record<ImageSource, string[]> = {
+    build: ['cache', 'buildArgs'],
+    registry: ['uri', 'credentialsSecretName'],
+    ecr: ['digest', 'digests'],
+};
+
+/**
+ * Settings of the `image` section that only describe the image of the app deployed without a manifest.
+ */
+const SINGLE_APP_KEYS = ['source', 'uri', 'credentialsSecretName', 'digest', 'digests'];
+
+/**
+ * Reads the image of an app at `path` for the stacks of `platforms`. The `cache`, `buildArgs` and
+ * `pinDigest` settings default to `inherited`.
+ */
+export function readImageConfig(
+    reader: ConfigReader, path: string, config: Partial<StreamlitDeploymentConfig>, platforms: PlatformName[], inherited?: ImageConfig,
+): ImageConfig {
+    const image = reader.scoped(path);
+    const source = image.oneOf('source', IMAGE_SOURCES, { default: 'build' }) ?? 'build';
+    for (const [keySource, keys] of Object.entries(SOURCE_KEYS)) {
+        for (const key of keys.filter(key => keySource !== source && image.has(key))) {
+            image.report(key, `only applies to the image source '${keySource}' but the source is '${source}'`);
+        }
+    }
+    // the copy keeps the architecture of the copying function only
+    if (source === 'registry' && config.platformMode === 'multi-arch') {
+        image.report('source', `'registry' is not supported with platformMode 'multi-arch', copy the image of each platform in 'per-platform' mode`);
+    }
+    // the stacks push nothing to the repositories they create for this source
+    if (source === 'ecr' && config.ecr?.repositoryMode !== 'import') {
+        image.report('source', `'ecr' requires ecr.repositoryMode 'import' because the repositories the stacks create are empty`);
+    }
+
+    const buildArgs: Record<string, string> = { ...inherited?.buildArgs };
+    for (const name of image.keys('buildArgs')) {
+        const value = image.string(`buildArgs.${name}`);
+        if (!BUILD_ARG_PATTERN.test(name)) {
+            image.report(`buildArgs.${name}`, `'${name}' is not a valid build argument name`);
+        } else if (value !== undefined) {
+            buildArgs[name] = value;
+        }
+    }
+
+    const uri = image.string('uri', { required: source === 'registry', maxLength: 1024 });
+    if (uri && !IMAGE_URI_PATTERN.test(uri.split('{platform}').join('arm'))) {
+        image.report('uri', `'${uri}' is not a valid image reference`);
+    } else if (uri && platforms.length > 1 && !uri.includes('{platform}')) {
+        image.report('uri', `must contain {platform} because the environment is deployed for ${platforms.length} platforms, each running the image of its platform`);
+    }
+    const credentialsSecretName = image.string('credentialsSecretName', {
+        pattern: SECRET_NAME_PATTERN,
+        patternDescription: 'a valid Secrets Manager secret name',
+    });
+
+    const settings = {
+        cache: image.boolean('cache', { default: inherited?.cache ?? false }) ?? false,
+        buildArgs,
+        pinDigest: image.boolean('pinDigest', { default: inherited?.pinDigest ?? false }) ?? false,
+    };
+    if (source === 'ecr') {
+        return { source, ...settings, digests: readDigests(image, platforms) };
+    }
+    return { source, ...settings, uri, credentialsSecretName };
+}
+
+/**
+ * Reads the digest of the image each platform runs, keyed by the `{platform}` name. A single `digest`
+ * only serves an environment deployed for one platform, the images of different platforms differ.
+ */
+function readDigests(image: ConfigReader, platforms: PlatformName[]): Record<string, string> {
+    const platformStrings = platforms.map(stackPlatformString);
+    const digests: Record<string, string> = {};
+    if (platforms.length <= 1 && !image.has('digests')) {
+        const digest = image.string('digest', { required: true, ...DIGEST_OPTIONS });
+        if (digest) {
+            platformStrings.forEach(platformString => digests[platformString] = digest);
+        }
+        return digests;
+    }
+
+    if (image.has('digest')) {
+        image.report('digest', platforms.length > 1
+            ? `one digest cannot serve the ${platforms.length} platforms the environment is deployed for, set digests.${platformStrings.join(' and digests.')} instead`
+            : 'must not be set together with digests');
+    }
+    for (const key of image.keys('digests').filter(key => !platformStrings.includes(key))) {
+        image.report(`digests.${key}`, `'${key}' is not one of the platforms ${platformStrings.join(', ')} the environment is deployed for`);
+    }
+    for (const platformString of platformStrings) {
+        const digest = image.string(`digests.${platformString}`, { required: true, ...DIGEST_OPTIONS });
+        if (digest) {
+            digests[platformString] = digest;
+        }
+    }
+    return digests;
+}
+
+/**
+ * Reads the `image` section as the defaults of the apps of a manifest, which describe their sources themselves.
+ */
+export function readInheritedImageConfig(
+    reader: ConfigReader, config: Partial<StreamlitDeploymentConfig>, platforms: PlatformName[],
+): ImageConfig | undefined {
+    const singleAppKeys = SINGLE_APP_KEYS.filter(key => reader.has(`image.${key}`));
+    for (const key of singleAppKeys) {
+        reader.report(`image.${key}`, `only applies without an apps manifest, set apps.<id>.image.${key} instead`);
+    }
+    return singleAppKeys.length === 0 ? readImageConfig(reader, 'image', config, platforms) : undefined;
+}
+
+/**
+ * Replaces the `{platform}` placeholder of an image reference for one stack.
+ */
+export function resolveImageUri(uri: string, platformString: string): string {
+    return uri.split('{platform}').join(platformString);
+}
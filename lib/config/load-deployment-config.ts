@@ -0,0 +1,358 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import * as YAML from 'yaml';
+import { Construct } from 'constructs';
+import { ConfigIssue, ConfigLayer, ConfigReader, DeploymentConfigError, isPlainObject } from './config-reader';
+import { readSizingConfig } from './sizing-config';
+import { readOriginProtectionConfig } from './origin-protection-config';
+import { readDomainConfig } from './domain-config';
+import { readAuthenticationConfig } from './authentication-config';
+import { readWafConfig } from './waf-config';
+import { readDeploymentStrategyConfig } from './deployment-strategy-config';
+import { readHealthCheckConfig } from './health-check-config';
+import { readObservabilityConfig } from './observability-config';
+import { readLoggingConfig } from './logging-config';
+import { readVpcConfig } from './vpc-config';
+import { readContainerConfig } from './container-config';
+import { readTaskRoleConfig } from './task-role-config';
+import { readAppsConfig } from './app-config';
+import { readEcrConfig, readRepositoryName } from './ecr-config';
+import { readPlatformConfig, stackPlatforms } from './platform-config';
+import { readCapacityConfig } from './capacity-config';
+import { readScalingConfig } from './scaling-config';
+import { readCdnConfig } from './cdn-config';
+import { readCorsConfig, readSecurityHeadersConfig } from './response-headers-config';
+import { readSessionsConfig } from './sessions-config';
+import { readAccessLogsConfig } from './access-logs-config';
+import { StreamlitDeploymentConfig } from './StreamlitDeploymentConfig';
+
+export const LATEST_IMAGE_VERSION = 'latest';
+
+/**
+ * Environment variables understood by the loader, mapped to their config path.
+ */
+const ENV_VARIABLES: Record<string, string> = {
+    CDK_DEFAULT_ACCOUNT: 'account',
+    APP_NAME: 'appName',
+    ENVIRONMENTS: 'environments',
+    CDK_DEPLOY_REGIONS: 'regions',
+    PLATFORMS: 'platforms',
+    PLATFORM_MODE: 'platformMode',
+    RUNTIME_PLATFORM: 'runtimePlatform',
+    ECR_REPOSITORY_NAME: 'repositoryName',
+    ECR_REPOSITORY_MODE: 'ecr.repositoryMode',
+    ECR_IMAGE_SCANNING: 'ecr.imageScanning',
+    ECR_IMMUTABLE_TAGS: 'ecr.immutableTags',
+    IMAGE_VERSION: 'imageVersion',
+    IMAGE_SOURCE: 'image.source',
+    IMAGE_URI: 'image.uri',
+    IMAGE_DIGEST: 'image.digest',
+    PORT: 'port',
+    CONFIG_DIR: 'configDir',
+    SIZING_PROFILE: 'sizing.profile',
+    ORIGIN_PROTECTION: 'originProtection.mode',
+    HOSTED_ZONE_NAME: 'domain.hostedZoneName',
+    HOSTED_ZONE_ID: 'domain.hostedZoneId',
+    DOMAIN_NAME: 'domain.domainName',
+    AUTHENTICATION_MODE: 'authentication.mode',
+    WAF_ENABLED: 'waf.enabled',
+    WAF_MODE: 'waf.mode',
+    DEPLOYMENT_STRATEGY: 'deployment.strategy',
+    CAPACITY_MODE: 'capacity.mode',
+    SESSION_STICKINESS: 'sessions.stickiness',
+    SCALING_TIME_ZONE: 'scaling.timeZone',
+    HEALTH_CHECK_PATH: 'healthCheck.path',
+    ALARM_EMAILS: 'observability.alarmEmails',
+    SLACK_WEBHOOK_SECRET_NAME: 'observability.slackWebhookSecretName',
+    LOG_RETENTION_DAYS: 'logging.retentionDays',
+    ACCESS_LOGS_ENABLED: 'accessLogs.enabled',
+    VPC_ID: 'vpc.lookup.vpcId',
+    VPC_CIDR: 'vpc.cidr',
+    VPC_ENDPOINTS: 'vpc.endpoints',
+};
+
+/**
+ * Top level settings that may be given through CDK context (`cdk.json` or `-c key=value`)
+ * or a per-environment config file.
+ */
+const CONFIG_KEYS = [
+    'account',
+    'appName',
+    'environments',
+    'regions',
+    'platforms',
+    'platformMode',
+    'runtimePlatform',
+    'repositoryName',
+    'imageVersion',
+    'port',
+    'configDir',
+    'sizing',
+    'originProtection',
+    'domain',
+    'authentication',
+    'waf',
+    'deployment',
+    'healthCheck',
+    'observability',
+    'logging',
+    'vpc',
+    'container',
+    'taskRole',
+    'apps',
+    'ecr',
+    'image',
+    'capacity',
+    'scaling',
+    'cdn',
+    'cors',
+    'securityHeaders',
+    'sessions',
+    'accessLogs',
+];
+
+/**
+ * String settings that may start with a `{placeholder}` and therefore are never parsed as JSON.
+ */
+const TEMPLATE_KEYS = ['repositoryName'];
+
+/**
+ * Settings that apply to the whole deployment and therefore cannot be set in a per-environment file.
+ */
+const GLOBAL_KEYS = ['environments', 'configDir'];
+
+const CONFIG_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9-]*$/;
+const ENVIRONMENT_PATTERN = /^[a-z][a-z0-9-]*$/;
+const REGION_PATTERN = /^[a-z]{2}(-gov|-iso[a-z]?)?-[a-z]+-\d$/;
+const ACCOUNT_PATTERN = /^\d{12}$/;
+const IMAGE_TAG_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+
+export interface LoadDeploymentConfigOptions {
+    /**
+     * The process environment to read from. Defaults to `process.env`.
+     */
+    readonly env?: Record<string, string | undefined>;
+    /**
+     * Path of the `.env` file. Defaults to `.env` in the current working directory.
+     */
+    readonly dotenvPath?: string;
+}
+
+/**
+ * Loads, validates and merges the deployment configuration for every configured environment.
+ *
+ * Sources, from lowest to highest precedence:
+ * 1. built-in defaults (`IMAGE_VERSION=latest`, `ENVIRONMENTS=dev`, `CDK_DEFAULT_REGION`),
+ * 2. the `.env` file,
+ * 3. the optional per-environment file `<configDir>/<environment>.yaml|yml|json` (configDir defaults to `config`),
+ * 4. the process environment,
+ * 5. CDK context from `cdk.json` or `cdk -c key=value`.
+ *
+ * @param {Construct} scope - The CDK app, used to read context values.
+ * @param {LoadDeploymentConfigOptions} options - Overrides for the environment and `.env` location.
+ * @returns {StreamlitDeploymentConfig[]} One resolved configuration per environment.
+ * @throws {DeploymentConfigError} Listing every invalid or missing value together with its source.
+ */
+export function loadDeploymentConfigs(scope: Construct, options: LoadDeploymentConfigOptions = {}): StreamlitDeploymentConfig[] {
+    const env = options.env ?? process.env;
+    const issues: ConfigIssue[] = [];
+
+    const defaultsLayer: ConfigLayer = {
+        name: 'default',
+        values: {
+            environments: ['dev'],
+            imageVersion: LATEST_IMAGE_VERSION,
+            configDir: 'config',
+            ...(env.CDK_DEFAULT_REGION ? { regions: env.CDK_DEFAULT_REGION } : {}),
+        },
+        keyNames: env.CDK_DEFAULT_REGION ? { regions: 'CDK_DEFAULT_REGION' } : undefined,
+    };
+    const dotenvLayer = environmentLayer('.env', readDotenv(options.dotenvPath ?? path.join(process.cwd(), '.env'), issues));
+    const processEnvLayer = environmentLayer('process.env', env);
+    const contextLayer = contextValuesLayer(scope, issues);
+
+    const globalReader = new ConfigReader([defaultsLayer, dotenvLayer, processEnvLayer, contextLayer], issues);
+    const environments = globalReader.stringList('environments', {
+        required: true,
+        pattern: ENVIRONMENT_PATTERN,
+        patternDescription: 'a valid environment name (lowercase letters, digits and hyphens, starting with a letter)',
+    }) ?? [];
+    const configDir = globalReader.string('configDir') ?? 'config';
+
+    const configs = environments.map(environment => {
+        const fileLayer = readEnvironmentFile(path.resolve(configDir), environment, issues);
+        const reader = new ConfigReader([defaultsLayer, dotenvLayer, fileLayer, processEnvLayer, contextLayer], issues);
+        return readEnvironmentConfig(reader, environment);
+    });
+
+    if (issues.length > 0) {
+        throw new DeploymentConfigError(issues);
+    }
+    return configs as StreamlitDeploymentConfig[];
+}
+
+/**
+ * Reads and validates the settings of a single environment.
+ */
+function readEnvironmentConfig(reader: ConfigReader, environment: string): Partial<StreamlitDeploymentConfig> {
+    const regions = reader.stringList('regions', {
+        required: true,
+        pattern: REGION_PATTERN,
+        patternDescription: 'a valid AWS region name (e.g. ap-southeast-1)',
+    });
+    const platformConfig = readPlatformConfig(reader);
+    // in multi-arch mode a single set of stacks per region serves every platform
+    const platforms = stackPlatforms(platformConfig);
+    const domain = readDomainConfig(reader, regions ?? [], platforms.length);
+    const account = reader.string('account', { pattern: ACCOUNT_PATTERN, patternDescription: 'a 12 digit AWS account id' });
+    const ecr = readEcrConfig(reader);
+    const deployment = readDeploymentStrategyConfig(reader);
+    const imageVersion = reader.string('imageVersion', {
+        required: true,
+        pattern: IMAGE_TAG_PATTERN,
+        patternDescription: 'a valid Docker image tag',
+    });
+    if (ecr.immutableTags && imageVersion === LATEST_IMAGE_VERSION) {
+        reader.report('imageVersion', `must be a version other than '${LATEST_IMAGE_VERSION}' because ecr.immutableTags is true`);
+    }
+
+    const config: Partial<StreamlitDeploymentConfig> = {
+        environment,
+        account,
+        appName: reader.string('appName', {
+            required: true,
+            maxLength: 32,
+            pattern: NAME_PATTERN,
+            patternDescription: 'a valid application name (letters, digits and hyphens, starting with a letter)',
+        }),
+        regions,
+        ...platformConfig,
+        repositoryName: readRepositoryName(reader, 'repositoryName', ecr, platforms.length, { required: true }),
+        imageVersion,
+        port: reader.integer('port', { required: true, min: 1, max: 65535 }),
+        sizing: readSizingConfig(reader, platforms, regions ?? [], deployment),
+        originProtection: readOriginProtectionConfig(reader),
+        domain,
+        authentication: readAuthenticationConfig(reader, domain),
+        waf: readWafConfig(reader),
+        deployment,
+        healthCheck: readHealthCheckConfig(reader),
+        observability: readObservabilityConfig(reader),
+        logging: readLoggingConfig(reader),
+        vpc: readVpcConfig(reader, regions ?? [], platforms, account),
+        container: readContainerConfig(reader),
+        taskRole: readTaskRoleConfig(reader),
+        ecr,
+        capacity: readCapacityConfig(reader, deployment),
+        scaling: readScalingConfig(reader),
+        cdn: readCdnConfig(reader),
+        cors: readCorsConfig(reader),
+        securityHeaders: readSecurityHeadersConfig(reader),
+        sessions: readSessionsConfig(reader),
+        accessLogs: readAccessLogsConfig(reader),
+    };
+    return { ...config, apps: readAppsConfig(reader, config) };
+}
+
+function environmentLayer(name: string, variables: Record<string, string | undefined>): ConfigLayer {
+    const values: Record<string, unknown> = {};
+    const keyNames: Record<string, string> = {};
+    for (const [variable, configPath] of Object.entries(ENV_VARIABLES)) {
+        if (variables[variable] !== undefined) {
+            setPath(values, configPath, variables[variable]);
+            keyNames[configPath] = variable;
+        }
+    }
+    return { name, values, keyNames };
+}
+
+function setPath(values: Record<string, unknown>, configPath: string, value: unknown): void {
+    const segments = configPath.split('.');
+    let current = values;
+    for (const segment of segments.slice(0, -1)) {
+        if (!isPlainObject(current[segment])) {
+            current[segment] = {};
+        }
+        current = current[segment] as Record<string, unknown>;
+    }
+    current[segments[segments.length - 1]] = value;
+}
+
+function contextValuesLayer(scope: Construct, issues: ConfigIssue[]): ConfigLayer {
+    const values: Record<string, unknown> = {};
+    for (const key of CONFIG_KEYS) {
+        let value = scope.node.tryGetContext(key);
+        // `cdk -c key=value` always passes strings, allow structured values as JSON
+        if (typeof value === 'string' && !TEMPLATE_KEYS.includes(key) && /^\s*[[{]/.test(value)) {
+            try {
+                value = JSON.parse(value);
+            } catch (err) {
+                issues.push({ path: key, source: `context ${key}`, message: `is not valid JSON: ${(err as Error).message}` });
+                continue;
+            }
+        }
+        if (value !== undefined) {
+            values[key] = value;
+        }
+    }
+    return { name: 'context', values };
+}
+
+function readDotenv(dotenvPath: string, issues: ConfigIssue[]): Record<string, string> {
+    if (!fs.existsSync(dotenvPath)) {
+        return {};
+    }
+    try {
+        return dotenv.parse(fs.readFileSync(dotenvPath));
+    } catch (err) {
+        issues.push({ path: '*', source: dotenvPath, message: `could not be read: ${(err as Error).message}` });
+        return {};
+    }
+}
+
+function readEnvironmentFile(configDir: string, environment: string, issues: ConfigIssue[]): ConfigLayer {
+    const candidates = CONFIG_FILE_EXTENSIONS
+        .map(extension => path.join(configDir, `${environment}${extension}`))
+        .filter(file => fs.existsSync(file));
+    if (candidates.length === 0) {
+        return { name: `config/${environment}`, values: {} };
+    }
+
+    const file = candidates[0];
+    const name = path.relative(process.cwd(), file) || file;
+    if (candidates.length > 1) {
+        issues.push({
+            path: '*',
+            source: name,
+            message: `more than one config file found for environment '${environment}': ${candidates.map(c => path.basename(c)).join(', ')}`,
+        });
+    }
+
+    let values: unknown;
+    try {
+        const content = fs.readFileSync(file, 'utf8');
+        values = file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+    } catch (err) {
+        issues.push({ path: '*', source: name, message: `could not be parsed: ${(err as Error).message}` });
+        return { name, values: {} };
+    }
+    if (values === null || values === undefined) {
+        return { name, values: {} };
+    }
+    if (!isPlainObject(values)) {
+        issues.push({ path: '*', source: name, message: 'must contain an object of settings' });
+        return { name, values: {} };
+    }
+
+    for (const key of Object.keys(values)) {
+        if (GLOBAL_KEYS.includes(key)) {
+            issues.push({ path: key, source: `${name} ${key}`, message: 'applies to all environments and cannot be set in a per-environment file' });
+        } else if (!CONFIG_KEYS.includes(key)) {
+            issues.push({ path: key, source: `${name} ${key}`, message: 'is not a known setting' });
+        }
+    }
+    return { name, values };
+}
@@ -0,0 +1,18 @@
+import { ConfigReader } from './config-reader';
+
+/**
+ * Retention periods, in days, CloudWatch Logs accepts.
+ */
+export const LOG_RETENTION_DAYS = [1, 3, 5, 7, 14, 30, 60, 90, 120, 150, 180, 365, 400, 545, 731, 1096, 1827, 2192, 2557, 2922, 3288, 3653];
+
+/**
+ * Reads a log retention period in days and checks it is one CloudWatch Logs accepts.
+ */
+export function readLogRetentionDays(reader: ConfigReader, path: string, defaultDays: number): number {
+    const days = reader.integer(path, { min: 1, default: defaultDays }) ?? defaultDays;
+    if (!LOG_RETENTION_DAYS.includes(days)) {
+        reader.report(path, `${days} is not a CloudWatch Logs retention period, choose one of ${LOG_RETENTION_DAYS.join(', ')}`);
+        return defaultDays;
+    }
+    return days;
+}
@@ -0,0 +1,21 @@
+import { ConfigReader } from './config-reader';
+import { readLogRetentionDays } from './log-retention';
+import { LoggingConfig } from './StreamlitDeploymentConfig';
+
+/**
+ * Reads the `logging` section.
+ */
+export function readLoggingConfig(reader: ConfigReader): LoggingConfig {
+    const archiveToS3 = reader.boolean('logging.archiveToS3', { default: false }) ?? false;
+    const archiveExpirationDays = reader.integer('logging.archiveExpirationDays', { min: 1 });
+    if (archiveExpirationDays !== undefined && !archiveToS3) {
+        reader.report('logging.archiveExpirationDays', 'requires logging.archiveToS3 to be true');
+    }
+    return {
+        retentionDays: readLogRetentionDays(reader, 'logging.retentionDays', 30),
+        kmsEncryption: reader.boolean('logging.kmsEncryption', { default: true }) ?? true,
+        errorMetrics: reader.boolean('logging.errorMetrics', { default: true }) ?? true,
+        archiveToS3,
+        archiveExpirationDays,
+    };
+}
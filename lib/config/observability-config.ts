@@ -0,0 +1,33 @@
+import { ConfigReader } from './config-reader';
+import { SECRET_NAME_PATTERN } from './authentication-config';
+import { ObservabilityConfig } from './StreamlitDeploymentConfig';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Reads the `observability` section.
+ */
+export function readObservabilityConfig(reader: ConfigReader): ObservabilityConfig {
+    const alarms = reader.scoped('observability.alarms');
+    return {
+        enabled: reader.boolean('observability.enabled', { default: true }) ?? true,
+        alarmEmails: reader.stringList('observability.alarmEmails', {
+            default: [],
+            pattern: EMAIL_PATTERN,
+            patternDescription: 'a valid email address',
+        }) ?? [],
+        slackWebhookSecretName: reader.string('observability.slackWebhookSecretName', {
+            pattern: SECRET_NAME_PATTERN,
+            patternDescription: 'a valid Secrets Manager secret name',
+        }),
+        alarms: {
+            http5xxRatePercent: alarms.number('http5xxRatePercent', { min: 0.1, max: 100, default: 5 }) ?? 5,
+            targetResponseTimeSeconds: alarms.number('targetResponseTimeSeconds', { min: 0.1, max: 300, default: 2 }) ?? 2,
+            minHealthyHosts: alarms.integer('minHealthyHosts', { min: 1, default: 1 }) ?? 1,
+            cpuUtilizationPercent: alarms.number('cpuUtilizationPercent', { min: 1, max: 100, default: 85 }) ?? 85,
+            memoryUtilizationPercent: alarms.number('memoryUtilizationPercent', { min: 1, max: 100, default: 85 }) ?? 85,
+            errorLogLines: alarms.integer('errorLogLines', { min: 0, default: 0 }) ?? 0,
+            evaluationPeriods: alarms.integer('evaluationPeriods', { min: 1, max: 60, default: 3 }) ?? 3,
+        },
+    };
+}
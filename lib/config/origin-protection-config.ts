@@ -0,0 +1,40 @@
+import { ConfigReader } from './config-reader';
+import { ORIGIN_PROTECTION_MODES, OriginProtectionConfig } from './StreamlitDeploymentConfig';
+
+export const DEFAULT_ORIGIN_VERIFY_HEADER_NAME = 'X-Verify-Origin';
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Headers CloudFront does not allow as custom origin headers.
+ * See https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/add-origin-custom-headers.html
+ */
+const RESERVED_HEADER_PREFIXES = ['x-amz-', 'x-edge-', 'x-amzn-'];
+const RESERVED_HEADER_NAMES = [
+    'cache-control', 'connection', 'content-length', 'cookie', 'host', 'if-match', 'if-modified-since',
+    'if-none-match', 'if-range', 'if-unmodified-since', 'max-forwards', 'pragma', 'proxy-authorization',
+    'proxy-connection', 'range', 'request-range', 'te', 'trailer', 'transfer-encoding', 'upgrade', 'via',
+    'x-real-ip', 'x-forwarded-proto', 'x-forwarded-for',
+];
+
+/**
+ * Reads the `originProtection` section.
+ */
+export function readOriginProtectionConfig(reader: ConfigReader): OriginProtectionConfig {
+    const mode = reader.oneOf('originProtection.mode', ORIGIN_PROTECTION_MODES, { default: 'none' }) ?? 'none';
+    let headerName = reader.string('originProtection.headerName', {
+        default: DEFAULT_ORIGIN_VERIFY_HEADER_NAME,
+        pattern: HEADER_NAME_PATTERN,
+        patternDescription: 'a valid HTTP header name',
+    }) ?? DEFAULT_ORIGIN_VERIFY_HEADER_NAME;
+    const lowerCaseName = headerName.toLowerCase();
+    if (RESERVED_HEADER_NAMES.includes(lowerCaseName) || RESERVED_HEADER_PREFIXES.some(prefix => lowerCaseName.startsWith(prefix))) {
+        reader.report('originProtection.headerName', `'${headerName}' cannot be used as a CloudFront custom origin header`);
+        headerName = DEFAULT_ORIGIN_VERIFY_HEADER_NAME;
+    }
+    const rotationDays = reader.integer('originProtection.rotationDays', { min: 1, max: 365 });
+    if (rotationDays !== undefined && mode !== 'custom-header') {
+        reader.report('originProtection.rotationDays', `requires originProtection.mode 'custom-header' but the mode is '${mode}'`);
+    }
+    return { mode, headerName, rotationDays };
+}
@@ -0,0 +1,45 @@
+import { ConfigReader } from './config-reader';
+import { PLATFORM_MODES, PLATFORM_NAMES, PlatformName, StreamlitDeploymentConfig } from './StreamlitDeploymentConfig';
+
+type PlatformConfig = Pick<StreamlitDeploymentConfig, 'platforms' | 'platformMode' | 'runtimePlatform'>;
+
+/**
+ * Reads the platforms the images are built for and how they are deployed.
+ */
+export function readPlatformConfig(reader: ConfigReader): Partial<PlatformConfig> {
+    const platforms = reader.stringList('platforms', { required: true, allowed: PLATFORM_NAMES }) as PlatformName[] | undefined;
+    const platformMode = reader.oneOf('platformMode', PLATFORM_MODES, { default: 'per-platform' }) ?? 'per-platform';
+    const runtimePlatform = reader.oneOf('runtimePlatform', PLATFORM_NAMES, { default: platforms?.[0] });
+
+    if (reader.has('runtimePlatform') && platformMode !== 'multi-arch') {
+        reader.report('runtimePlatform', `requires platformMode 'multi-arch' but the mode is '${platformMode}'`);
+    } else if (runtimePlatform && platforms && !platforms.includes(runtimePlatform)) {
+        reader.report('runtimePlatform', `'${runtimePlatform}' is not one of the platforms ${platforms.join(', ')} the image is built for`);
+    }
+    return { platforms, platformMode, runtimePlatform };
+}
+
+/**
+ * The platforms a stack is deployed for: every platform in `per-platform` mode, and only the
+ * runtime platform in `multi-arch` mode, whose stacks publish the images of all platforms.
+ */
+export function stackPlatforms(config: Partial<PlatformConfig>): PlatformName[] {
+    if (config.platformMode === 'multi-arch') {
+        return config.runtimePlatform ? [config.runtimePlatform] : [];
+    }
+    return config.platforms ?? [];
+}
+
+/**
+ * The name of a platform in stack names, construct ids and `{platform}` placeholders.
+ */
+export function stackPlatformString(platform: PlatformName): string {
+    return platform === 'LINUX_AMD64' ? 'amd64' : 'arm';
+}
+
+/**
+ * The architecture of a platform as named in image manifests.
+ */
+export function platformArchitecture(platform: PlatformName): string {
+    return platform === 'LINUX_AMD64' ? 'amd64' : 'arm64';
+}
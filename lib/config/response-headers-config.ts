@@ -0,0 +1,57 @@
+import { ConfigReader } from './config-reader';
+import {
+    CORS_METHODS, CorsConfig, CorsMethod, FRAME_OPTIONS, REFERRER_POLICIES, SecurityHeadersConfig,
+} from './StreamlitDeploymentConfig';
+
+const ANY = '*';
+const ORIGIN_PATTERN = /^(\*|https?:\/\/[A-Za-z0-9.-]+(:\d{1,5})?)$/;
+const HEADER_NAME_PATTERN = /^(\*|[A-Za-z0-9!#$%&'*+.^_`|~-]+)$/;
+const HSTS_PRELOAD_MIN_AGE_SECONDS = 31536000;
+
+/**
+ * Reads the `cors` section, by default any origin may call the apps with any method and header.
+ */
+export function readCorsConfig(reader: ConfigReader): CorsConfig {
+    const allowedOrigins = reader.stringList('cors.allowedOrigins', {
+        default: [ANY],
+        pattern: ORIGIN_PATTERN,
+        patternDescription: `an origin like 'https://portal.example.com' or '*'`,
+    }) ?? [ANY];
+    const allowedMethods = (reader.stringList('cors.allowedMethods', { default: [...CORS_METHODS], allowed: CORS_METHODS }) ?? [...CORS_METHODS]) as CorsMethod[];
+    const allowedHeaders = reader.stringList('cors.allowedHeaders', {
+        default: [ANY],
+        pattern: HEADER_NAME_PATTERN,
+        patternDescription: `a header name or '*'`,
+    }) ?? [ANY];
+    const allowCredentials = reader.boolean('cors.allowCredentials', { default: false }) ?? false;
+    const maxAgeSeconds = reader.integer('cors.maxAgeSeconds', { min: 0, max: 86400, default: 600 }) ?? 600;
+
+    if (allowedOrigins.includes(ANY) && allowedOrigins.length > 1) {
+        reader.report('cors.allowedOrigins', `'*' already allows every origin and cannot be combined with ${allowedOrigins.filter(origin => origin !== ANY).join(', ')}`);
+    } else if (allowedOrigins.includes(ANY) && allowCredentials) {
+        reader.report('cors.allowCredentials', `is not supported with the allowed origin '*', list the origins instead`);
+    }
+    return { allowedOrigins, allowedMethods, allowedHeaders, allowCredentials, maxAgeSeconds };
+}
+
+/**
+ * Reads the `securityHeaders` section.
+ */
+export function readSecurityHeadersConfig(reader: ConfigReader): SecurityHeadersConfig {
+    const hstsMaxAgeSeconds = reader.integer('securityHeaders.hstsMaxAgeSeconds', { min: 0, max: 63072000, default: 31536000 }) ?? 31536000;
+    const hstsIncludeSubdomains = reader.boolean('securityHeaders.hstsIncludeSubdomains', { default: false }) ?? false;
+    const hstsPreload = reader.boolean('securityHeaders.hstsPreload', { default: false }) ?? false;
+    // browsers only accept a preload entry for long lived policies covering the subdomains as well
+    if (hstsPreload && (!hstsIncludeSubdomains || hstsMaxAgeSeconds < HSTS_PRELOAD_MIN_AGE_SECONDS)) {
+        reader.report('securityHeaders.hstsPreload', `requires hstsIncludeSubdomains and an hstsMaxAgeSeconds of at least ${HSTS_PRELOAD_MIN_AGE_SECONDS}`);
+    }
+
+    return {
+        hstsMaxAgeSeconds,
+        hstsIncludeSubdomains,
+        hstsPreload,
+        contentSecurityPolicy: reader.string('securityHeaders.contentSecurityPolicy', { maxLength: 1783 }),
+        frameOptions: reader.oneOf('securityHeaders.frameOptions', FRAME_OPTIONS, { default: 'SAMEORIGIN' }) ?? 'SAMEORIGIN',
+        referrerPolicy: reader.oneOf('securityHeaders.referrerPolicy', REFERRER_POLICIES, { default: 'strict-origin-when-cross-origin' }) ?? 'strict-origin-when-cross-origin',
+    };
+}
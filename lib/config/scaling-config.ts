@@ -0,0 +1,67 @@
+import { ConfigReader } from './config-reader';
+import { ScalingConfig, ScalingScheduleConfig } from './StreamlitDeploymentConfig';
+
+const SCHEDULE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9-]{0,39}$/;
+const SCHEDULE_EXPRESSION_PATTERN = new RegExp([
+    /^cron\(\S+( \S+){5}\)$/.source,
+    /^rate\([1-9]\d* (minute|minutes|hour|hours|day|days)\)$/.source,
+    /^at\(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\)$/.source,
+].join('|'));
+
+/**
+ * Reads the `scaling` section, the schedules are keyed by name.
+ */
+export function readScalingConfig(reader: ConfigReader): ScalingConfig {
+    const timeZone = reader.string('scaling.timeZone', { default: 'UTC' }) ?? 'UTC';
+    if (!isTimeZone(timeZone)) {
+        reader.report('scaling.timeZone', `'${timeZone}' is not an IANA time zone like 'Europe/Berlin'`);
+    }
+
+    const schedules: ScalingScheduleConfig[] = [];
+    for (const name of reader.keys('scaling.schedules')) {
+        if (!SCHEDULE_NAME_PATTERN.test(name)) {
+            reader.report(`scaling.schedules.${name}`, `'${name}' is not a valid schedule name (letters, digits and hyphens, starting with a letter, at most 40 characters)`);
+            continue;
+        }
+        const schedule = readScalingSchedule(reader.scoped(`scaling.schedules.${name}`), name);
+        if (schedule) {
+            schedules.push(schedule);
+        }
+    }
+    return { timeZone, schedules };
+}
+
+function readScalingSchedule(reader: ConfigReader, name: string): ScalingScheduleConfig | undefined {
+    const expression = reader.string('expression', {
+        required: true,
+        pattern: SCHEDULE_EXPRESSION_PATTERN,
+        patternDescription: `a schedule expression like 'cron(0 8 ? * MON-FRI *)', 'rate(1 day)' or 'at(2024-12-24T18:00:00)'`,
+    });
+    const minCapacity = reader.integer('minCapacity', { required: true, min: 0 });
+    const maxCapacity = reader.integer('maxCapacity', { required: true, min: 0 });
+
+    if (minCapacity !== undefined && maxCapacity !== undefined && minCapacity > maxCapacity) {
+        reader.report('minCapacity', `must not be greater than maxCapacity (${maxCapacity})`);
+        return undefined;
+    }
+    if (expression === undefined || minCapacity === undefined || maxCapacity === undefined) {
+        return undefined;
+    }
+    return { name, expression, minCapacity, maxCapacity };
+}
+
+function isTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether a schedule of the environment stops every task of the services.
+ */
+export function scalesToZero(scaling: ScalingConfig): boolean {
+    return scaling.schedules.some(schedule => schedule.minCapacity === 0);
+}
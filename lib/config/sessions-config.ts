@@ -0,0 +1,38 @@
+import { ConfigReader } from './config-reader';
+import { SessionsConfig, STICKINESS_MODES } from './StreamlitDeploymentConfig';
+
+const COOKIE_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+/**
+ * Cookie name prefixes the ALB uses for its own cookies.
+ */
+const RESERVED_COOKIE_PREFIXES = ['AWSALB', 'AWSALBAPP', 'AWSALBTG'];
+
+/**
+ * Reads the `sessions` section.
+ */
+export function readSessionsConfig(reader: ConfigReader): SessionsConfig {
+    const stickiness = reader.oneOf('sessions.stickiness', STICKINESS_MODES, { default: 'load-balancer' }) ?? 'load-balancer';
+    const stickinessDurationSeconds = reader.integer('sessions.stickinessDurationSeconds', { min: 1, max: 604800, default: 86400 }) ?? 86400;
+    const cookieName = reader.string('sessions.cookieName', {
+        required: stickiness === 'application',
+        pattern: COOKIE_NAME_PATTERN,
+        patternDescription: 'a valid cookie name',
+    });
+
+    if (stickiness === 'none' && reader.has('sessions.stickinessDurationSeconds')) {
+        reader.report('sessions.stickinessDurationSeconds', `only applies with stickiness but the stickiness is 'none'`);
+    }
+    if (stickiness !== 'application' && reader.has('sessions.cookieName')) {
+        reader.report('sessions.cookieName', `only applies with the stickiness 'application' but the stickiness is '${stickiness}'`);
+    } else if (cookieName && RESERVED_COOKIE_PREFIXES.some(prefix => cookieName.toUpperCase().startsWith(prefix))) {
+        reader.report('sessions.cookieName', `must not start with ${RESERVED_COOKIE_PREFIXES.join(', ')}, the load balancer uses these names itself`);
+    }
+
+    return {
+        stickiness,
+        stickinessDurationSeconds,
+        cookieName: stickiness === 'application' ? cookieName : undefined,
+        idleTimeoutSeconds: reader.integer('sessions.idleTimeoutSeconds', { min: 1, max: 4000, default: 60 }) ?? 60,
+        deregistrationDelaySeconds: reader.integer('sessions.deregistrationDelaySeconds', { min: 0, max: 3600, default: 300 }) ?? 300,
+    };
+}
@@ -0,0 +1,189 @@
+import { ConfigReader } from './config-reader';
+import { DeploymentStrategyConfig, FargateSizingProfile, PlatformName, SizingConfig, StreamlitAppConfig, StreamlitDeploymentConfig } from './StreamlitDeploymentConfig';
+
+export const DEFAULT_SIZING_PROFILE = 'medium';
+
+/**
+ * Profiles available without any configuration. `medium` matches the historical fixed sizing.
+ */
+export const BUILT_IN_SIZING_PROFILES: Record<string, FargateSizingProfile> = {
+    small: {
+        cpu: 512,
+        memoryLimitMiB: 1024,
+        desiredCount: 1,
+        minCapacity: 1,
+        maxCapacity: 2,
+        cpuTargetUtilizationPercent: 70,
+        scaleInCooldownSeconds: 60,
+        scaleOutCooldownSeconds: 60,
+    },
+    medium: {
+        cpu: 1024,
+        memoryLimitMiB: 2048,
+        desiredCount: 1,
+        minCapacity: 1,
+        maxCapacity: 2,
+        cpuTargetUtilizationPercent: 70,
+        scaleInCooldownSeconds: 60,
+        scaleOutCooldownSeconds: 60,
+    },
+    large: {
+        cpu: 2048,
+        memoryLimitMiB: 4096,
+        desiredCount: 2,
+        minCapacity: 2,
+        maxCapacity: 6,
+        cpuTargetUtilizationPercent: 60,
+        scaleInCooldownSeconds: 300,
+        scaleOutCooldownSeconds: 60,
+    },
+};
+
+interface MemoryRange {
+    readonly min: number;
+    readonly max: number;
+    readonly step: number;
+}
+
+/**
+ * Memory values that follow no regular step.
+ */
+interface MemoryValues {
+    readonly allowed: number[];
+}
+
+/**
+ * Legal Fargate task memory values (MiB) per cpu value on Linux.
+ * See https://docs.aws.amazon.com/AmazonECS/latest/developerguide/fargate-tasks-services.html#fargate-tasks-size
+ */
+const LINUX_TASK_SIZES: Record<number, MemoryRange | MemoryValues> = {
+    256: { allowed: [512, 1024, 2048] },
+    512: { min: 1024, max: 4096, step: 1024 },
+    1024: { min: 2048, max: 8192, step: 1024 },
+    2048: { min: 4096, max: 16384, step: 1024 },
+    4096: { min: 8192, max: 30720, step: 1024 },
+    8192: { min: 16384, max: 61440, step: 4096 },
+    16384: { min: 32768, max: 122880, step: 8192 },
+};
+
+const FARGATE_TASK_SIZES: Record<PlatformName, Record<number, MemoryRange | MemoryValues>> = {
+    LINUX_AMD64: LINUX_TASK_SIZES,
+    LINUX_ARM64: LINUX_TASK_SIZES,
+};
+
+/**
+ * Checks whether a cpu/memory pair is a legal Fargate task size for the platform.
+ *
+ * @returns {string | undefined} A description of the problem, or undefined when the pair is legal.
+ */
+export function validateFargateTaskSize(cpu: number, memoryLimitMiB: number, platform: PlatformName): string | undefined {
+    const sizes = FARGATE_TASK_SIZES[platform];
+    const range = sizes[cpu];
+    if (!range) {
+        return `cpu ${cpu} is not supported on ${platform}, choose one of ${Object.keys(sizes).join(', ')}`;
+    }
+    if ('allowed' in range) {
+        return range.allowed.includes(memoryLimitMiB)
+            ? undefined
+            : `memory ${memoryLimitMiB} MiB is not valid with cpu ${cpu} on ${platform}, use one of ${range.allowed.join(', ')} MiB`;
+    }
+    if (memoryLimitMiB < range.min || memoryLimitMiB > range.max || memoryLimitMiB % range.step !== 0) {
+        return `memory ${memoryLimitMiB} MiB is not valid with cpu ${cpu} on ${platform}, use ${range.min}-${range.max} MiB in steps of ${range.step}`;
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether the scaling policies of a profile work with the deployment strategy.
+ *
+ * @returns {string | undefined} A description of the problem, or undefined when the profile can be used.
+ */
+export function validateSizingProfileScaling(profile: FargateSizingProfile, deployment: DeploymentStrategyConfig): string | undefined {
+    // the policy tracks the requests of one target group, CodeDeploy moves the traffic to the other one
+    if (profile.requestsPerTarget !== undefined && deployment.strategy === 'blue-green') {
+        return `requestsPerTarget is not supported with the deployment strategy 'blue-green'`;
+    }
+    return undefined;
+}
+
+/**
+ * Reads the `sizing` section: custom profiles, the selected profile and region overrides.
+ * Every profile that is actually selected is validated against the environment's platforms and deployment strategy.
+ */
+export function readSizingConfig(
+    reader: ConfigReader, platforms: PlatformName[], regions: string[], deployment: DeploymentStrategyConfig,
+): SizingConfig {
+    const profiles: Record<string, FargateSizingProfile> = { ...BUILT_IN_SIZING_PROFILES };
+    for (const name of reader.keys('sizing.profiles')) {
+        const profile = readSizingProfile(reader.scoped(`sizing.profiles.${name}`), BUILT_IN_SIZING_PROFILES[name]);
+        if (profile) {
+            profiles[name] = profile;
+        }
+    }
+
+    const profileNames = Object.keys(profiles);
+    const profile = reader.oneOf('sizing.profile', profileNames, { default: DEFAULT_SIZING_PROFILE }) ?? DEFAULT_SIZING_PROFILE;
+    const regionProfiles: Record<string, string> = {};
+    for (const region of reader.keys('sizing.regionProfiles')) {
+        const regionProfile = reader.oneOf(`sizing.regionProfiles.${region}`, profileNames);
+        if (!regions.includes(region)) {
+            reader.report(`sizing.regionProfiles.${region}`, `region is not one of the deployed regions ${regions.join(', ')}`);
+        } else if (regionProfile) {
+            regionProfiles[region] = regionProfile;
+        }
+    }
+
+    const selectedProfiles = new Set([profile, ...Object.values(regionProfiles)]);
+    for (const name of selectedProfiles) {
+        const problems = platforms.map(platform => validateFargateTaskSize(profiles[name].cpu, profiles[name].memoryLimitMiB, platform));
+        for (const problem of [...problems, validateSizingProfileScaling(profiles[name], deployment)]) {
+            if (problem) {
+                reader.report(reader.has(`sizing.profiles.${name}`) ? `sizing.profiles.${name}` : 'sizing.profile', problem);
+            }
+        }
+    }
+
+    return { profile, regionProfiles, profiles };
+}
+
+function readSizingProfile(reader: ConfigReader, base?: FargateSizingProfile): FargateSizingProfile | undefined {
+    const required = base === undefined;
+    const cpu = reader.integer('cpu', { required, default: base?.cpu });
+    const memoryLimitMiB = reader.integer('memoryLimitMiB', { required, default: base?.memoryLimitMiB });
+    const minCapacity = reader.integer('minCapacity', { min: 1, default: base?.minCapacity ?? 1 });
+    const maxCapacity = reader.integer('maxCapacity', { min: 1, default: base?.maxCapacity ?? 2 });
+    const desiredCount = reader.integer('desiredCount', { min: 1, default: base?.desiredCount ?? minCapacity });
+    const cpuTargetUtilizationPercent = reader.number('cpuTargetUtilizationPercent', { min: 10, max: 95, default: base?.cpuTargetUtilizationPercent ?? 70 });
+    const memoryTargetUtilizationPercent = reader.number('memoryTargetUtilizationPercent', { min: 10, max: 95, default: base?.memoryTargetUtilizationPercent });
+    const requestsPerTarget = reader.integer('requestsPerTarget', { min: 1, max: 1000000, default: base?.requestsPerTarget });
+    const scaleInCooldownSeconds = reader.integer('scaleInCooldownSeconds', { min: 0, max: 3600, default: base?.scaleInCooldownSeconds ?? 60 });
+    const scaleOutCooldownSeconds = reader.integer('scaleOutCooldownSeconds', { min: 0, max: 3600, default: base?.scaleOutCooldownSeconds ?? 60 });
+
+    if (cpu === undefined || memoryLimitMiB === undefined || minCapacity === undefined || maxCapacity === undefined ||
+        desiredCount === undefined || cpuTargetUtilizationPercent === undefined ||
+        scaleInCooldownSeconds === undefined || scaleOutCooldownSeconds === undefined) {
+        return undefined;
+    }
+    if (minCapacity > maxCapacity) {
+        reader.report('minCapacity', `must not be greater than maxCapacity (${maxCapacity})`);
+        return undefined;
+    }
+    if (desiredCount < minCapacity || desiredCount > maxCapacity) {
+        reader.report('desiredCount', `must be between minCapacity (${minCapacity}) and maxCapacity (${maxCapacity})`);
+        return undefined;
+    }
+    return {
+        cpu, memoryLimitMiB, desiredCount, minCapacity, maxCapacity, cpuTargetUtilizationPercent,
+        memoryTargetUtilizationPercent, requestsPerTarget, scaleInCooldownSeconds, scaleOutCooldownSeconds,
+    };
+}
+
+/**
+ * Returns the sizing profile that applies to the given region of the environment, or to an app
+ * of the environment with its own profile.
+ */
+export function resolveSizingProfile(config: StreamlitDeploymentConfig, region: string | undefined, app?: StreamlitAppConfig): FargateSizingProfile {
+    const { sizing } = config;
+    const name = app?.sizingProfile || (region && sizing.regionProfiles[region]) || sizing.profile;
+    return sizing.profiles[name];
+}
@@ -0,0 +1,34 @@
+import { ConfigReader } from './config-reader';
+import { POLICY_EFFECTS, TaskRoleConfig, TaskRolePolicyStatementConfig } from './StreamlitDeploymentConfig';
+
+const SID_PATTERN = /^[A-Za-z0-9]+$/;
+const ACTION_PATTERN = /^[a-z0-9-]+:[A-Za-z0-9*?]+$/;
+const ARN_PATTERN = /^arn:aws[a-z-]*:[a-z0-9-]+:[a-z0-9-*]*:(\d{12}|\*)?:\S+$/;
+
+/**
+ * Reads the `taskRole` section. Statements are keyed by their statement id so that
+ * per-environment files can add to or override single statements.
+ */
+export function readTaskRoleConfig(reader: ConfigReader): TaskRoleConfig {
+    const policyStatements: TaskRolePolicyStatementConfig[] = [];
+    for (const sid of reader.keys('taskRole.policyStatements')) {
+        const statement = reader.scoped(`taskRole.policyStatements.${sid}`);
+        const effect = statement.oneOf('effect', POLICY_EFFECTS, { default: 'Allow' }) ?? 'Allow';
+        const actions = statement.stringList('actions', {
+            required: true,
+            pattern: ACTION_PATTERN,
+            patternDescription: 'a valid IAM action (e.g. s3:GetObject)',
+        });
+        const resources = statement.stringList('resources', {
+            required: true,
+            pattern: ARN_PATTERN,
+            patternDescription: 'an ARN, wildcard resources are not allowed',
+        });
+        if (!SID_PATTERN.test(sid)) {
+            reader.report(`taskRole.policyStatements.${sid}`, `'${sid}' is not a valid statement id (letters and digits only)`);
+        } else if (actions && resources) {
+            policyStatements.push({ sid, effect, actions, resources });
+        }
+    }
+    return { policyStatements };
+}
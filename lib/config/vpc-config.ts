@@ -0,0 +1,153 @@
+import { ConfigReader } from './config-reader';
+import { stackPlatformString } from './platform-config';
+import { PlatformName, StreamlitDeploymentConfig, SubnetCidrMasksConfig, TASK_SUBNET_TYPES, VpcConfig, VpcLookupConfig } from './StreamlitDeploymentConfig';
+
+export const DEFAULT_VPC_CIDR = '10.0.0.0/16';
+
+const VPC_ID_PATTERN = /^vpc-[0-9a-f]{8,17}$/;
+const CIDR_PATTERN = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}\/(1[6-9]|2[0-8])$/;
+
+/**
+ * Settings that only apply to a VPC created by the stack.
+ */
+const CREATION_SETTINGS = ['cidr', 'regionCidrs', 'platformCidrs', 'maxAzs', 'natGateways', 'subnetCidrMasks'];
+
+/**
+ * Reads the `vpc` section. Looking up an existing VPC needs the account to be known at synth time.
+ * The VPCs created for the regions and platforms of the environment get non-overlapping ranges.
+ */
+export function readVpcConfig(reader: ConfigReader, regions: string[], platforms: PlatformName[], account: string | undefined): VpcConfig {
+    const cidrOptions = { pattern: CIDR_PATTERN, patternDescription: 'an IPv4 CIDR range between /16 and /28' };
+    const cidr = reader.string('vpc.cidr', { ...cidrOptions, default: DEFAULT_VPC_CIDR }) ?? DEFAULT_VPC_CIDR;
+    const regionCidrs: Record<string, string> = {};
+    for (const region of reader.keys('vpc.regionCidrs')) {
+        const regionCidr = reader.string(`vpc.regionCidrs.${region}`, cidrOptions);
+        if (!regions.includes(region)) {
+            reader.report(`vpc.regionCidrs.${region}`, `region is not one of the deployed regions ${regions.join(', ')}`);
+        } else if (regionCidr) {
+            regionCidrs[region] = regionCidr;
+        }
+    }
+    const stackKeys = regions.flatMap(region => platforms.map(platform => `${region}/${stackPlatformString(platform)}`));
+    const platformCidrs: Record<string, string> = {};
+    for (const key of reader.keys('vpc.platformCidrs')) {
+        const platformCidr = reader.string(`vpc.platformCidrs.${key}`, cidrOptions);
+        if (!stackKeys.includes(key)) {
+            reader.report(`vpc.platformCidrs.${key}`, `is not one of the deployed <region>/<platform> pairs ${stackKeys.join(', ')}`);
+        } else if (platformCidr) {
+            platformCidrs[key] = platformCidr;
+        }
+    }
+    const maxAzs = reader.integer('vpc.maxAzs', { min: 1, max: 6, default: 3 }) ?? 3;
+    const natGateways = reader.integer('vpc.natGateways', { min: 0, max: maxAzs, default: 1 }) ?? 1;
+    const mask = (name: keyof SubnetCidrMasksConfig) => reader.integer(`vpc.subnetCidrMasks.${name}`, { min: 16, max: 28, default: 24 }) ?? 24;
+    const subnetCidrMasks: SubnetCidrMasksConfig = { public: mask('public'), private: mask('private'), isolated: mask('isolated') };
+
+    const lookup = readVpcLookup(reader);
+    const endpoints = reader.boolean('vpc.endpoints', { default: false }) ?? false;
+    const defaultTaskSubnetType = !lookup && natGateways === 0 ? 'isolated' : 'private';
+    const taskSubnetType = reader.oneOf('vpc.taskSubnetType', TASK_SUBNET_TYPES, { default: defaultTaskSubnetType }) ?? defaultTaskSubnetType;
+    if (taskSubnetType === 'isolated' && !endpoints) {
+        reader.report('vpc.endpoints', 'must be true for tasks in isolated subnets, they cannot pull images or write logs otherwise');
+    }
+    if (!lookup && natGateways === 0 && taskSubnetType === 'private') {
+        reader.report('vpc.taskSubnetType', `must be 'isolated' because a VPC without NAT gateways has no private subnets`);
+    }
+    if (lookup) {
+        const creationSettings = CREATION_SETTINGS.filter(name => reader.has(`vpc.${name}`));
+        if (creationSettings.length > 0) {
+            reader.report('vpc.lookup', `cannot be combined with ${creationSettings.map(name => `vpc.${name}`).join(', ')}, which only apply to a created VPC`);
+        }
+        if (!account) {
+            reader.report('vpc.lookup', 'requires the account to be set (CDK_DEFAULT_ACCOUNT or account)');
+        }
+    } else {
+        for (const [path, range] of [
+            ['vpc.cidr', cidr],
+            ...Object.entries(regionCidrs).map(([region, value]) => [`vpc.regionCidrs.${region}`, value]),
+            ...Object.entries(platformCidrs).map(([key, value]) => [`vpc.platformCidrs.${key}`, value]),
+        ]) {
+            const problem = checkSubnetCapacity(range, maxAzs, natGateways, subnetCidrMasks);
+            if (problem) {
+                reader.report(path, problem);
+            }
+        }
+    }
+
+    const stackCidrs: Record<string, string> = {};
+    if (!lookup) {
+        const explicitCidr = reader.has('vpc.cidr');
+        const resolved: { key: string, range: string }[] = [];
+        stackKeys.forEach((key, index) => {
+            const region = key.split('/')[0];
+            const [path, range] = platformCidrs[key] ? [`vpc.platformCidrs.${key}`, platformCidrs[key]]
+                : regionCidrs[region] ? [`vpc.regionCidrs.${region}`, regionCidrs[region]]
+                // without a configured range every stack gets a /16 of its own, the first one keeps the default range
+                : explicitCidr ? ['vpc.cidr', cidr] : ['vpc.cidr', `10.${index}.0.0/16`];
+            const overlapping = resolved.find(other => cidrsOverlap(other.range, range));
+            if (overlapping) {
+                reader.report(path, `${range} of ${key} overlaps ${overlapping.range} of ${overlapping.key}, set vpc.regionCidrs or vpc.platformCidrs.<region>/<platform>`);
+            }
+            resolved.push({ key, range });
+            stackCidrs[key] = range;
+        });
+    }
+
+    return { lookup, cidr, regionCidrs, platformCidrs, stackCidrs, maxAzs, natGateways, subnetCidrMasks, endpoints, taskSubnetType };
+}
+
+function readVpcLookup(reader: ConfigReader): VpcLookupConfig | undefined {
+    if (!reader.has('vpc.lookup')) {
+        return undefined;
+    }
+    const vpcId = reader.string('vpc.lookup.vpcId', { pattern: VPC_ID_PATTERN, patternDescription: 'a valid VPC id' });
+    const tags: Record<string, string> = {};
+    for (const key of reader.keys('vpc.lookup.tags')) {
+        const value = reader.string(`vpc.lookup.tags.${key}`, { required: true });
+        if (value !== undefined) {
+            tags[key] = value;
+        }
+    }
+    if (vpcId === undefined && Object.keys(tags).length === 0) {
+        reader.report('vpc.lookup', 'requires vpcId or tags');
+    }
+    return { vpcId, tags };
+}
+
+/**
+ * Checks that the subnets of every availability zone fit into the VPC range.
+ */
+function checkSubnetCapacity(cidr: string, maxAzs: number, natGateways: number, masks: SubnetCidrMasksConfig): string | undefined {
+    const prefix = Number(cidr.split('/')[1]);
+    const groups: (keyof SubnetCidrMasksConfig)[] = natGateways > 0 ? ['public', 'private', 'isolated'] : ['public', 'isolated'];
+    const tooLarge = groups.filter(group => masks[group] < prefix);
+    if (tooLarge.length > 0) {
+        return `the ${tooLarge.join(', ')} subnets are larger than the /${prefix} VPC range`;
+    }
+    const required = groups.reduce((sum, group) => sum + maxAzs * 2 ** (32 - masks[group]), 0);
+    if (required > 2 ** (32 - prefix)) {
+        return `${maxAzs} availability zones of ${groups.map(group => `/${masks[group]}`).join(', ')} subnets need ${required} addresses, more than the ${2 ** (32 - prefix)} of /${prefix}`;
+    }
+    return undefined;
+}
+
+function cidrsOverlap(a: string, b: string): boolean {
+    const [startA, endA] = cidrBounds(a);
+    const [startB, endB] = cidrBounds(b);
+    return startA <= endB && startB <= endA;
+}
+
+function cidrBounds(cidr: string): [number, number] {
+    const [address, prefix] = cidr.split('/');
+    const size = 2 ** (32 - Number(prefix));
+    const value = address.split('.').reduce((sum, octet) => sum * 256 + Number(octet), 0);
+    const start = value - (value % size);
+    return [start, start + size - 1];
+}
+
+/**
+ * Returns the CIDR range of the VPC created for the given region and platform of the environment.
+ */
+export function resolveVpcCidr(config: StreamlitDeploymentConfig, region: string | undefined, platformString: string): string {
+    return (region && config.vpc.stackCidrs[`${region}/${platformString}`]) || config.vpc.cidr;
+}
@@ -0,0 +1,43 @@
+import { ConfigReader } from './config-reader';
+import { readLogRetentionDays } from './log-retention';
+import { WAF_LOG_DESTINATIONS, WAF_MODES, WafConfig } from './StreamlitDeploymentConfig';
+
+export const DEFAULT_MANAGED_RULE_GROUPS = [
+    'AWSManagedRulesCommonRuleSet',
+    'AWSManagedRulesKnownBadInputsRuleSet',
+    'AWSManagedRulesAmazonIpReputationList',
+];
+
+const MANAGED_RULE_GROUP_PATTERN = /^AWSManagedRules[A-Za-z0-9]+$/;
+const CIDR_PATTERN = /^((\d{1,3}\.){3}\d{1,3}\/([0-9]|[12][0-9]|3[0-2])|[0-9a-fA-F:]+:[0-9a-fA-F:]*\/([0-9]|[1-9][0-9]|1[01][0-9]|12[0-8]))$/;
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+/**
+ * Reads the `waf` section.
+ */
+export function readWafConfig(reader: ConfigReader): WafConfig {
+    const cidrs = { default: [], pattern: CIDR_PATTERN, patternDescription: 'a valid IPv4 or IPv6 CIDR range' };
+    const countries = { default: [], pattern: COUNTRY_CODE_PATTERN, patternDescription: 'an ISO 3166 alpha-2 country code' };
+
+    const config: WafConfig = {
+        enabled: reader.boolean('waf.enabled', { default: false }) ?? false,
+        mode: reader.oneOf('waf.mode', WAF_MODES, { default: 'block' }) ?? 'block',
+        managedRuleGroups: reader.stringList('waf.managedRuleGroups', {
+            default: DEFAULT_MANAGED_RULE_GROUPS,
+            pattern: MANAGED_RULE_GROUP_PATTERN,
+            patternDescription: 'the name of an AWS managed rule group',
+        }) ?? DEFAULT_MANAGED_RULE_GROUPS,
+        rateLimit: reader.integer('waf.rateLimit', { min: 100, max: 2000000000 }),
+        allowedIpCidrs: reader.stringList('waf.allowedIpCidrs', cidrs) ?? [],
+        deniedIpCidrs: reader.stringList('waf.deniedIpCidrs', cidrs) ?? [],
+        allowedCountries: reader.stringList('waf.allowedCountries', countries) ?? [],
+        blockedCountries: reader.stringList('waf.blockedCountries', countries) ?? [],
+        logDestination: reader.oneOf('waf.logDestination', WAF_LOG_DESTINATIONS, { default: 'cloudwatch' }) ?? 'cloudwatch',
+        logRetentionDays: readLogRetentionDays(reader, 'waf.logRetentionDays', 90),
+    };
+
+    if (config.allowedCountries.length > 0 && config.blockedCountries.length > 0) {
+        reader.report('waf.blockedCountries', 'cannot be combined with waf.allowedCountries');
+    }
+    return config;
+}
@@ -1,4 +1,5 @@
 import * as cdk from 'aws-cdk-lib';
+import { StreamlitDeploymentConfig } from '../config/StreamlitDeploymentConfig';
 
 export interface StreamlitBaseStackProps extends cdk.StackProps {
     /**
@@ -17,4 +18,8 @@ export interface StreamlitBaseStackProps extends cdk.StackProps {
      * The platform string indicating the CPU architecture, e.g., 'arm' or 'x86_64'.
      */
     readonly platformString: string;
+    /**
+     * The validated deployment configuration of the environment being deployed.
+     */
+    readonly config: StreamlitDeploymentConfig;
 }
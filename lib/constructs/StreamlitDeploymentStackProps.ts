@@ -0,0 +1,12 @@
+import { StreamlitBaseStackProps } from './StreamlitBaseStackProps';
+import { StreamlitEdgeDeploymentCdkStack } from './streamlit-edge-deployment-cdk-stack';
+
+/**
+ * Properties for the top level Streamlit deployment stack.
+ */
+export interface StreamlitDeploymentStackProps extends StreamlitBaseStackProps {
+    /**
+     * The us-east-1 stack with the CloudFront certificate, if the deployment needs one.
+     */
+    readonly edgeStack?: StreamlitEdgeDeploymentCdkStack;
+}
@@ -1,18 +1,47 @@
 import * as cdk from 'aws-cdk-lib';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
 import { StreamlitEcrStackProps } from './StreamlitEcrStackProps';
+import { DomainConfig } from '../config/StreamlitDeploymentConfig';
+
+/**
+ * The image an app runs from its repository, by tag or by digest.
+ */
+export interface AppImageReference {
+    readonly tagOrDigest: string;
+    /**
+     * Whether `tagOrDigest` is a digest. Digests looked up at deploy time are tokens, so they cannot be told apart from tags by their `sha256:` prefix.
+     */
+    readonly isDigest: boolean;
+}
 
 export interface StreamlitEcsStackProps extends StreamlitEcrStackProps {
     /**
-     * The port number on which the container service will be available.
+     * The ECR repositories of the app images, in the order of `config.apps`.
      */
-    readonly containerPort: number;
+    readonly ecrRepositories: cdk.aws_ecr.IRepository[];
     /**
-     * The ECR repository where the Docker images will be stored.
+     * The tag or digest of the image each app runs, in the order of `config.apps`.
      */
-    readonly ecrRepository: cdk.aws_ecr.Repository;
+    readonly imageReferences: AppImageReference[];
     /**
      * The VPC where the ECS services and other resources will be deployed.
      */
-    readonly vpc: ec2.Vpc;
+    readonly vpc: ec2.IVpc;
+    /**
+     * The security group allowing the tasks to connect to the VPC interface endpoints, if the VPC has any.
+     */
+    readonly endpointClientSecurityGroup?: ec2.ISecurityGroup;
+    /**
+     * The custom domain of this deployment with placeholders resolved, if any.
+     */
+    readonly domain?: DomainConfig;
+    /**
+     * The us-east-1 certificate of the custom domain used by CloudFront. Required when `domain` is set.
+     */
+    readonly edgeCertificate?: acm.ICertificate;
+    /**
+     * The ARN of the us-east-1 web ACL attached to the CloudFront distribution, if any.
+     */
+    readonly webAclArn?: string;
 }
@@ -0,0 +1,12 @@
+import { StreamlitBaseStackProps } from './StreamlitBaseStackProps';
+import { DomainConfig } from '../config/StreamlitDeploymentConfig';
+
+/**
+ * Properties for the us-east-1 stack holding the resources CloudFront requires in that region.
+ */
+export interface StreamlitEdgeStackProps extends StreamlitBaseStackProps {
+    /**
+     * The custom domain of the deployment with placeholders resolved, if any.
+     */
+    readonly domain?: DomainConfig;
+}
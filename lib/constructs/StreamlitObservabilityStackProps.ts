@@ -0,0 +1,36 @@
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { IDistribution } from 'aws-cdk-lib/aws-cloudfront';
+import { StreamlitBaseStackProps } from './StreamlitBaseStackProps';
+
+/**
+ * Properties for the stack monitoring a Streamlit deployment.
+ */
+export interface StreamlitObservabilityStackProps extends StreamlitBaseStackProps {
+    /**
+     * The CloudFront distribution in front of the app.
+     */
+    readonly distribution: IDistribution;
+    /**
+     * The load balancer in front of the service.
+     */
+    readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+    /**
+     * The target groups the services are registered with.
+     */
+    readonly targetGroups: elbv2.ApplicationTargetGroup[];
+    /**
+     * The Fargate services running the apps.
+     */
+    readonly services: ecs.FargateService[];
+    /**
+     * The repositories of the app images, critical findings of their image scans are notified.
+     */
+    readonly ecrRepositories: ecr.IRepository[];
+    /**
+     * Error and exception lines logged by the app, no alarm on them when undefined.
+     */
+    readonly errorLogMetric?: cloudwatch.Metric;
+}
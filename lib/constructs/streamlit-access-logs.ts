@@ -0,0 +1,179 @@
+import * as cdk from 'aws-cdk-lib';
+import * as athena from 'aws-cdk-lib/aws-athena';
+import * as glue from 'aws-cdk-lib/aws-glue';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { AccessLogsConfig } from '../config/StreamlitDeploymentConfig';
+
+/**
+ * Parses the lines of ALB access logs, one group per column of the table. Fields added to the
+ * format later are ignored. See https://docs.aws.amazon.com/athena/latest/ug/application-load-balancer-logs.html
+ */
+const ALB_LOG_REGEX = String.raw`([^ ]*) ([^ ]*) ([^ ]*) ([^ ]*):([0-9]*) ([^ ]*)[:-]([0-9]*) ([-.0-9]*) ([-.0-9]*) ([-.0-9]*) (|[-0-9]*) (-|[-0-9]*) ([-0-9]*) ([-0-9]*) "([^ ]*) (.*) (- |[^ ]*)" "([^"]*)" ([A-Z0-9-_]+) ([A-Za-z0-9.-]*) ([^ ]*) "([^"]*)" "([^"]*)" "([^"]*)" ([-.0-9]*) ([^ ]*) "([^"]*)" "([^"]*)" "([^ ]*)" "([^\s]+?)" "([^\s]+)" "([^ ]*)" "([^ ]*)" ?([^ ]*)?(?: .*)?`;
+
+const ALB_LOG_COLUMNS: glue.CfnTable.ColumnProperty[] = [
+    ['type', 'string'], ['time', 'string'], ['elb', 'string'], ['client_ip', 'string'], ['client_port', 'int'],
+    ['target_ip', 'string'], ['target_port', 'int'], ['request_processing_time', 'double'], ['target_processing_time', 'double'],
+    ['response_processing_time', 'double'], ['elb_status_code', 'int'], ['target_status_code', 'string'], ['received_bytes', 'bigint'],
+    ['sent_bytes', 'bigint'], ['request_verb', 'string'], ['request_url', 'string'], ['request_proto', 'string'], ['user_agent', 'string'],
+    ['ssl_cipher', 'string'], ['ssl_protocol', 'string'], ['target_group_arn', 'string'], ['trace_id', 'string'], ['domain_name', 'string'],
+    ['chosen_cert_arn', 'string'], ['matched_rule_priority', 'string'], ['request_creation_time', 'string'], ['actions_executed', 'string'],
+    ['redirect_url', 'string'], ['lambda_error_reason', 'string'], ['target_port_list', 'string'], ['target_status_code_list', 'string'],
+    ['classification', 'string'], ['classification_reason', 'string'], ['conn_trace_id', 'string'],
+].map(([name, type]) => ({ name, type }));
+
+/**
+ * The tab separated fields of CloudFront standard logs.
+ * See https://docs.aws.amazon.com/athena/latest/ug/cloudfront-logs.html
+ */
+const CLOUDFRONT_LOG_COLUMNS: glue.CfnTable.ColumnProperty[] = [
+    ['date', 'date'], ['time', 'string'], ['x_edge_location', 'string'], ['sc_bytes', 'bigint'], ['c_ip', 'string'], ['cs_method', 'string'],
+    ['cs_host', 'string'], ['cs_uri_stem', 'string'], ['sc_status', 'int'], ['cs_referrer', 'string'], ['cs_user_agent', 'string'],
+    ['cs_uri_query', 'string'], ['cs_cookie', 'string'], ['x_edge_result_type', 'string'], ['x_edge_request_id', 'string'],
+    ['x_host_header', 'string'], ['cs_protocol', 'string'], ['cs_bytes', 'bigint'], ['time_taken', 'float'], ['x_forwarded_for', 'string'],
+    ['ssl_protocol', 'string'], ['ssl_cipher', 'string'], ['x_edge_response_result_type', 'string'], ['cs_protocol_version', 'string'],
+    ['fle_status', 'string'], ['fle_encrypted_fields', 'int'], ['c_port', 'int'], ['time_to_first_byte', 'float'],
+    ['x_edge_detailed_result_type', 'string'], ['sc_content_type', 'string'], ['sc_content_len', 'bigint'], ['sc_range_start', 'bigint'],
+    ['sc_range_end', 'bigint'],
+].map(([name, type]) => ({ name, type }));
+
+/**
+ * The first day the partition projection of the ALB table offers, queries should filter on `day`.
+ */
+const PROJECTION_START_DAY = '2024/01/01';
+
+export interface StreamlitAccessLogsProps {
+    readonly accessLogs: AccessLogsConfig;
+    /**
+     * Prefixes the log objects, e.g. with the environment.
+     */
+    readonly prefix: string;
+    /**
+     * Names the Glue database and the Athena workgroup, unique within the account and region.
+     */
+    readonly namePrefix: string;
+}
+
+/**
+ * An S3 bucket for the access logs of a deployment, optionally with Athena tables over the logs.
+ * The bucket is encrypted with S3 managed keys, the only encryption ALB access logs support, and
+ * keeps the logs after the deployment is deleted.
+ */
+export class StreamlitAccessLogs extends Construct {
+    public readonly bucket: s3.Bucket;
+    /**
+     * The prefix for the load balancer to pass to `logAccessLogs`, without trailing slash.
+     */
+    public readonly loadBalancerPrefix: string;
+    /**
+     * The prefix for the `logFilePrefix` of the distribution, with trailing slash.
+     */
+    public readonly distributionPrefix: string;
+    public readonly workGroup?: athena.CfnWorkGroup;
+
+    constructor(scope: Construct, id: string, props: StreamlitAccessLogsProps) {
+        super(scope, id);
+
+        const { accessLogs } = props;
+        this.loadBalancerPrefix = `${props.prefix}/alb`;
+        this.distributionPrefix = `${props.prefix}/cloudfront/`;
+        this.bucket = new s3.Bucket(this, 'Bucket', {
+            encryption: s3.BucketEncryption.S3_MANAGED,
+            versioned: true,
+            blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+            // CloudFront standard logs are delivered with an ACL granting the bucket owner full control
+            objectOwnership: s3.ObjectOwnership.BUCKET_OWNER_PREFERRED,
+            enforceSSL: true,
+            lifecycleRules: [{
+                transitions: [{ storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL, transitionAfter: cdk.Duration.days(accessLogs.transitionDays) }],
+                expiration: accessLogs.expirationDays !== undefined ? cdk.Duration.days(accessLogs.expirationDays) : undefined,
+                noncurrentVersionExpiration: cdk.Duration.days(30),
+                abortIncompleteMultipartUploadAfter: cdk.Duration.days(7),
+            }],
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        if (accessLogs.athena) {
+            this.workGroup = this.addAthenaTables(props);
+        }
+    }
+
+    /**
+     * Creates a Glue database with a table per log format and a workgroup writing the query results to the bucket.
+     */
+    private addAthenaTables(props: StreamlitAccessLogsProps): athena.CfnWorkGroup {
+        const stack = cdk.Stack.of(this);
+        const databaseName = `${props.namePrefix}_access_logs`.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+        const database = new glue.CfnDatabase(this, 'Database', {
+            catalogId: stack.account,
+            databaseInput: { name: databaseName, description: `Access logs of ${props.namePrefix}` },
+        });
+
+        const loadBalancerLocation = `s3://${this.bucket.bucketName}/${this.loadBalancerPrefix}/AWSLogs/${stack.account}/elasticloadbalancing/${stack.region}/`;
+        const loadBalancerTable = new glue.CfnTable(this, 'LoadBalancerTable', {
+            catalogId: stack.account,
+            databaseName,
+            tableInput: {
+                name: 'alb_logs',
+                tableType: 'EXTERNAL_TABLE',
+                partitionKeys: [{ name: 'day', type: 'string' }],
+                parameters: {
+                    'EXTERNAL': 'TRUE',
+                    // the partitions follow the date path of the log objects, no crawler or MSCK REPAIR needed
+                    'projection.enabled': 'true',
+                    'projection.day.type': 'date',
+                    'projection.day.range': `${PROJECTION_START_DAY},NOW`,
+                    'projection.day.format': 'yyyy/MM/dd',
+                    'projection.day.interval': '1',
+                    'projection.day.interval.unit': 'DAYS',
+                    'storage.location.template': `${loadBalancerLocation}\${day}`,
+                },
+                storageDescriptor: {
+                    columns: ALB_LOG_COLUMNS,
+                    location: loadBalancerLocation,
+                    inputFormat: 'org.apache.hadoop.mapred.TextInputFormat',
+                    outputFormat: 'org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat',
+                    serdeInfo: {
+                        serializationLibrary: 'org.apache.hadoop.hive.serde2.RegexSerDe',
+                        parameters: { 'serialization.format': '1', 'input.regex': ALB_LOG_REGEX },
+                    },
+                },
+            },
+        });
+        loadBalancerTable.addDependency(database);
+
+        const distributionTable = new glue.CfnTable(this, 'DistributionTable', {
+            catalogId: stack.account,
+            databaseName,
+            tableInput: {
+                name: 'cloudfront_logs',
+                tableType: 'EXTERNAL_TABLE',
+                parameters: { 'EXTERNAL': 'TRUE', 'skip.header.line.count': '2' },
+                storageDescriptor: {
+                    columns: CLOUDFRONT_LOG_COLUMNS,
+                    location: `s3://${this.bucket.bucketName}/${this.distributionPrefix}`,
+                    inputFormat: 'org.apache.hadoop.mapred.TextInputFormat',
+                    outputFormat: 'org.apache.hadoop.hive.ql.io.HiveIgnoreKeyTextOutputFormat',
+                    serdeInfo: {
+                        serializationLibrary: 'org.apache.hadoop.hive.serde2.lazy.LazySimpleSerDe',
+                        parameters: { 'field.delim': '\t', 'serialization.format': '\t' },
+                    },
+                },
+            },
+        });
+        distributionTable.addDependency(database);
+
+        return new athena.CfnWorkGroup(this, 'WorkGroup', {
+            name: `${props.namePrefix}-access-logs`,
+            description: `Queries the access logs of ${props.namePrefix}`,
+            recursiveDeleteOption: true,
+            workGroupConfiguration: {
+                enforceWorkGroupConfiguration: true,
+                resultConfiguration: {
+                    outputLocation: `s3://${this.bucket.bucketName}/athena-results/`,
+                    encryptionConfiguration: { encryptionOption: 'SSE_S3' },
+                },
+            },
+        });
+    }
+}
@@ -0,0 +1,157 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as elbv2_actions from 'aws-cdk-lib/aws-elasticloadbalancingv2-actions';
+import { Construct } from 'constructs';
+import { AuthenticationConfig } from '../config/StreamlitDeploymentConfig';
+
+/**
+ * Cognito trigger rejecting sign ups and sign ins of users outside the allowed email domains or groups.
+ * Registered as pre sign-up trigger (domains only) and pre token generation trigger (domains and groups).
+ */
+const ACCESS_CHECK_HANDLER_CODE = `
+const allowedEmailDomains = JSON.parse(process.env.ALLOWED_EMAIL_DOMAINS);
+const allowedGroups = JSON.parse(process.env.ALLOWED_GROUPS);
+
+exports.handler = async (event) => {
+  const email = (event.request.userAttributes.email || '').toLowerCase();
+  if (allowedEmailDomains.length > 0 && !allowedEmailDomains.includes(email.split('@').pop())) {
+    throw new Error('The email domain of this user is not allowed.');
+  }
+  if (event.triggerSource.startsWith('TokenGeneration') && allowedGroups.length > 0) {
+    const groups = (event.request.groupConfiguration && event.request.groupConfiguration.groupsToOverride) || [];
+    if (!groups.some(group => allowedGroups.includes(group))) {
+      throw new Error('This user is not a member of an allowed group.');
+    }
+  }
+  return event;
+};
+`;
+
+export interface StreamlitAlbAuthenticationProps {
+    /**
+     * The authentication settings, the mode must not be `none`.
+     */
+    readonly authentication: AuthenticationConfig;
+    /**
+     * The public domain names users sign in at, used for the OAuth callback URLs.
+     */
+    readonly domainNames: string[];
+    /**
+     * The default prefix of the Cognito hosted UI domain.
+     */
+    readonly defaultDomainPrefix: string;
+}
+
+/**
+ * Authenticates users on the ALB listener, either with a Cognito user pool created here
+ * or with an external OpenID Connect provider.
+ *
+ * After a successful sign in the ALB forwards the user identity to the container in the
+ * `x-amzn-oidc-identity`, `x-amzn-oidc-data` and `x-amzn-oidc-accesstoken` headers.
+ */
+export class StreamlitAlbAuthentication extends Construct {
+    /**
+     * The created user pool, in `cognito` mode only.
+     */
+    public readonly userPool?: cognito.UserPool;
+
+    private readonly authentication: AuthenticationConfig;
+    private userPoolClient?: cognito.UserPoolClient;
+    private userPoolDomain?: cognito.UserPoolDomain;
+
+    constructor(scope: Construct, id: string, props: StreamlitAlbAuthenticationProps) {
+        super(scope, id);
+
+        this.authentication = props.authentication;
+        if (props.authentication.mode === 'cognito') {
+            this.userPool = this.createUserPool(props);
+        } else if (props.authentication.mode !== 'oidc') {
+            throw new Error(`Authentication mode '${props.authentication.mode}' does not need ${id}.`);
+        }
+    }
+
+    /**
+     * Wraps the given action so that it only runs for authenticated users.
+     */
+    public authenticate(next: elbv2.ListenerAction): elbv2.ListenerAction {
+        const sessionTimeout = cdk.Duration.minutes(this.authentication.sessionTimeoutMinutes);
+        const oidc = this.authentication.oidc;
+        if (this.userPool && this.userPoolClient && this.userPoolDomain) {
+            return new elbv2_actions.AuthenticateCognitoAction({
+                userPool: this.userPool,
+                userPoolClient: this.userPoolClient,
+                userPoolDomain: this.userPoolDomain,
+                sessionTimeout,
+                next,
+            });
+        }
+        if (!oidc) {
+            throw new Error('The oidc mode requires the authentication.oidc settings.');
+        }
+        return elbv2.ListenerAction.authenticateOidc({
+            issuer: oidc.issuer,
+            authorizationEndpoint: oidc.authorizationEndpoint,
+            tokenEndpoint: oidc.tokenEndpoint,
+            userInfoEndpoint: oidc.userInfoEndpoint,
+            clientId: oidc.clientId,
+            clientSecret: cdk.SecretValue.secretsManager(oidc.clientSecretName),
+            scope: oidc.scope,
+            sessionTimeout,
+            next,
+        });
+    }
+
+    private createUserPool(props: StreamlitAlbAuthenticationProps): cognito.UserPool {
+        const { authentication } = props;
+
+        const userPool = new cognito.UserPool(this, 'UserPool', {
+            selfSignUpEnabled: authentication.selfSignUp,
+            signInAliases: { email: true },
+            autoVerify: { email: true },
+            standardAttributes: { email: { required: true, mutable: true } },
+            passwordPolicy: { minLength: 12, requireSymbols: true },
+            accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+
+        if (authentication.allowedEmailDomains.length > 0 || authentication.allowedGroups.length > 0) {
+            const accessCheckFunction = new lambda.Function(this, 'AccessCheckFunction', {
+                runtime: lambda.Runtime.NODEJS_20_X,
+                handler: 'index.handler',
+                code: lambda.Code.fromInline(ACCESS_CHECK_HANDLER_CODE),
+                description: 'Rejects Streamlit users outside the allowed email domains or groups.',
+                environment: {
+                    ALLOWED_EMAIL_DOMAINS: JSON.stringify(authentication.allowedEmailDomains),
+                    ALLOWED_GROUPS: JSON.stringify(authentication.allowedGroups),
+                },
+            });
+            userPool.addTrigger(cognito.UserPoolOperation.PRE_SIGN_UP, accessCheckFunction);
+            userPool.addTrigger(cognito.UserPoolOperation.PRE_TOKEN_GENERATION, accessCheckFunction);
+        }
+
+        for (const group of authentication.allowedGroups) {
+            new cognito.CfnUserPoolGroup(this, `Group-${group}`, {
+                userPoolId: userPool.userPoolId,
+                groupName: group,
+                description: 'Members may sign in to the Streamlit app.',
+            });
+        }
+
+        this.userPoolDomain = userPool.addDomain('Domain', {
+            cognitoDomain: { domainPrefix: authentication.cognitoDomainPrefix ?? props.defaultDomainPrefix },
+        });
+        this.userPoolClient = userPool.addClient('AlbClient', {
+            generateSecret: true,
+            oAuth: {
+                flows: { authorizationCodeGrant: true },
+                scopes: [cognito.OAuthScope.OPENID, cognito.OAuthScope.EMAIL, cognito.OAuthScope.PROFILE],
+                callbackUrls: props.domainNames.map(domainName => `https://${domainName}/oauth2/idpresponse`),
+                logoutUrls: props.domainNames.map(domainName => `https://${domainName}/`),
+            },
+            supportedIdentityProviders: [cognito.UserPoolClientIdentityProvider.COGNITO],
+        });
+        return userPool;
+    }
+}
@@ -0,0 +1,215 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as codedeploy from 'aws-cdk-lib/aws-codedeploy';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import { Construct } from 'constructs';
+import { DeploymentStrategyConfig } from '../config/StreamlitDeploymentConfig';
+
+export interface StreamlitBlueGreenDeploymentProps {
+    /**
+     * The deployment settings of the environment, the strategy must be `blue-green`.
+     */
+    readonly deployment: DeploymentStrategyConfig;
+    /**
+     * The service to deploy, created with the `CODE_DEPLOY` deployment controller.
+     */
+    readonly service: ecs.FargateService;
+    /**
+     * The load balancer in front of the service.
+     */
+    readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+    /**
+     * The production listener.
+     */
+    readonly listener: elbv2.ApplicationListener;
+    /**
+     * The target group the service is registered with initially.
+     */
+    readonly blueTargetGroup: elbv2.ApplicationTargetGroup;
+    /**
+     * The health check of the blue target group, applied to the green target group as well.
+     */
+    readonly healthCheck: elbv2.HealthCheck;
+    /**
+     * The VPC of the service, only clients within the VPC may reach the test listener.
+     */
+    readonly vpc: ec2.IVpc;
+    /**
+     * The certificate of the test listener. The test listener uses HTTP when undefined.
+     */
+    readonly certificate?: acm.ICertificate;
+}
+
+/**
+ * Blue/green deployments of the Fargate service with CodeDeploy.
+ *
+ * Adds the green target group and the test listener, a CodeDeploy deployment group shifting
+ * traffic according to the configured canary or linear steps, and the alarms rolling a deployment
+ * back on a high 5xx rate or unhealthy targets. A new deployment is started whenever the task
+ * definition changes, since CloudFormation cannot update services using the CodeDeploy controller.
+ */
+export class StreamlitBlueGreenDeployment extends Construct {
+    public readonly deploymentGroup: codedeploy.EcsDeploymentGroup;
+    public readonly greenTargetGroup: elbv2.ApplicationTargetGroup;
+    public readonly testListener: elbv2.ApplicationListener;
+
+    constructor(scope: Construct, id: string, props: StreamlitBlueGreenDeploymentProps) {
+        super(scope, id);
+
+        const { deployment, service, loadBalancer, blueTargetGroup } = props;
+        if (deployment.strategy !== 'blue-green') {
+            throw new Error(`Deployment strategy '${deployment.strategy}' does not need ${id}.`);
+        }
+
+        this.greenTargetGroup = new elbv2.ApplicationTargetGroup(this, 'GreenTargetGroup', {
+            vpc: props.vpc,
+            port: service.taskDefinition.defaultContainer!.containerPort,
+            protocol: elbv2.ApplicationProtocol.HTTP,
+            targetType: elbv2.TargetType.IP,
+            healthCheck: props.healthCheck,
+        });
+
+        this.testListener = loadBalancer.addListener('TestListener', {
+            port: deployment.testListenerPort,
+            protocol: props.certificate ? elbv2.ApplicationProtocol.HTTPS : elbv2.ApplicationProtocol.HTTP,
+            certificates: props.certificate ? [props.certificate] : undefined,
+            sslPolicy: props.certificate ? elbv2.SslPolicy.RECOMMENDED_TLS : undefined,
+            defaultTargetGroups: [this.greenTargetGroup],
+            open: false,
+        });
+        this.testListener.connections.allowDefaultPortFrom(ec2.Peer.ipv4(props.vpc.vpcCidrBlock), 'Test traffic from within the VPC');
+
+        const errorRateAlarm = new cloudwatch.MathExpression({
+            expression: '100 * errors / FILL(requests, 1)',
+            usingMetrics: {
+                errors: loadBalancer.metrics.httpCodeTarget(elbv2.HttpCodeTarget.TARGET_5XX_COUNT, { period: cdk.Duration.minutes(1) }),
+                requests: loadBalancer.metrics.requestCount({ period: cdk.Duration.minutes(1) }),
+            },
+            label: 'Target 5xx rate (%)',
+            period: cdk.Duration.minutes(1),
+        }).createAlarm(this, 'TargetErrorRateAlarm', {
+            alarmDescription: 'Rolls back the Streamlit deployment when too many requests fail with a 5xx response.',
+            threshold: deployment.rollbackOn5xxRatePercent,
+            evaluationPeriods: 2,
+            comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+            treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        });
+
+        // blue and green swap roles with every deployment, so both target groups are watched
+        const unhealthyHostsAlarm = new cloudwatch.MathExpression({
+            expression: 'MAX([blue, green])',
+            usingMetrics: {
+                blue: blueTargetGroup.metrics.unhealthyHostCount({ statistic: cloudwatch.Stats.MAXIMUM, period: cdk.Duration.minutes(1) }),
+                green: this.greenTargetGroup.metrics.unhealthyHostCount({ statistic: cloudwatch.Stats.MAXIMUM, period: cdk.Duration.minutes(1) }),
+            },
+            label: 'Unhealthy targets',
+            period: cdk.Duration.minutes(1),
+        }).createAlarm(this, 'UnhealthyHostsAlarm', {
+            alarmDescription: 'Rolls back the Streamlit deployment when targets turn unhealthy.',
+            threshold: deployment.rollbackOnUnhealthyHosts,
+            evaluationPeriods: 2,
+            comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+            treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        });
+
+        this.deploymentGroup = new codedeploy.EcsDeploymentGroup(this, 'DeploymentGroup', {
+            service,
+            deploymentConfig: this.createDeploymentConfig(deployment),
+            blueGreenDeploymentConfig: {
+                blueTargetGroup,
+                greenTargetGroup: this.greenTargetGroup,
+                listener: props.listener,
+                testListener: this.testListener,
+                terminationWaitTime: cdk.Duration.minutes(deployment.terminationWaitMinutes),
+            },
+            alarms: [errorRateAlarm, unhealthyHostsAlarm],
+            autoRollback: {
+                failedDeployment: true,
+                stoppedDeployment: true,
+                deploymentInAlarm: true,
+            },
+        });
+
+        this.startDeploymentOnChange(service);
+    }
+
+    private createDeploymentConfig(deployment: DeploymentStrategyConfig): codedeploy.IEcsDeploymentConfig {
+        const interval = cdk.Duration.minutes(deployment.trafficShiftIntervalMinutes);
+        const percentage = deployment.trafficShiftPercentage;
+        switch (deployment.trafficShifting) {
+            case 'canary':
+                return new codedeploy.EcsDeploymentConfig(this, 'DeploymentConfig', {
+                    trafficRouting: codedeploy.TrafficRouting.timeBasedCanary({ interval, percentage }),
+                });
+            case 'linear':
+                return new codedeploy.EcsDeploymentConfig(this, 'DeploymentConfig', {
+                    trafficRouting: codedeploy.TrafficRouting.timeBasedLinear({ interval, percentage }),
+                });
+            default:
+                return codedeploy.EcsDeploymentConfig.ALL_AT_ONCE;
+        }
+    }
+
+    /**
+     * Starts a CodeDeploy deployment of the current task definition whenever its ARN changes.
+     */
+    private startDeploymentOnChange(service: ecs.FargateService): void {
+        const container = service.taskDefinition.defaultContainer!;
+        const appSpec = {
+            version: '0.0',
+            Resources: [{
+                TargetService: {
+                    Type: 'AWS::ECS::Service',
+                    Properties: {
+                        TaskDefinition: service.taskDefinition.taskDefinitionArn,
+                        LoadBalancerInfo: {
+                            ContainerName: container.containerName,
+                            ContainerPort: container.containerPort,
+                        },
+                    },
+                },
+            }],
+        };
+
+        const startDeployment = new cr.AwsCustomResource(this, 'StartDeployment', {
+            onUpdate: {
+                service: 'CodeDeploy',
+                action: 'createDeployment',
+                parameters: {
+                    applicationName: this.deploymentGroup.application.applicationName,
+                    deploymentGroupName: this.deploymentGroup.deploymentGroupName,
+                    description: 'Deployment of a new Streamlit task definition.',
+                    revision: {
+                        revisionType: 'AppSpecContent',
+                        appSpecContent: { content: cdk.Stack.of(this).toJsonString(appSpec) },
+                    },
+                },
+                physicalResourceId: cr.PhysicalResourceId.fromResponse('deploymentId'),
+            },
+            policy: cr.AwsCustomResourcePolicy.fromStatements([
+                new iam.PolicyStatement({
+                    effect: iam.Effect.ALLOW,
+                    actions: ['codedeploy:CreateDeployment'],
+                    resources: [this.deploymentGroup.deploymentGroupArn],
+                }),
+                new iam.PolicyStatement({
+                    effect: iam.Effect.ALLOW,
+                    actions: ['codedeploy:GetDeploymentConfig'],
+                    resources: [this.deploymentGroup.deploymentConfig.deploymentConfigArn],
+                }),
+                new iam.PolicyStatement({
+                    effect: iam.Effect.ALLOW,
+                    actions: ['codedeploy:RegisterApplicationRevision'],
+                    resources: [this.deploymentGroup.application.applicationArn],
+                }),
+            ]),
+            installLatestAwsSdk: false,
+        });
+        startDeployment.node.addDependency(this.deploymentGroup);
+    }
+}
@@ -3,22 +3,55 @@ import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as ecrDeploy from 'cdk-ecr-deployment';
 import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as iam from 'aws-cdk-lib/aws-iam';
 import { DockerImageAsset, Platform } from 'aws-cdk-lib/aws-ecr-assets';
 import { StreamlitEcrStackProps } from './StreamlitEcrStackProps';
-import { LATEST_IMAGE_VERSION } from '../../bin/streamlit-ecr-ecs-deployment-cdk';
+import { AppImageReference } from './StreamlitEcsStackProps';
+import { LATEST_IMAGE_VERSION } from '../config/load-deployment-config';
+import { appIdPrefix, PROJECT_ROOT } from '../config/app-config';
+import { resolveRepositoryName } from '../config/ecr-config';
+import { resolveImageUri } from '../config/image-config';
+import { platformArchitecture } from '../config/platform-config';
+import { StreamlitImageManifestList, StreamlitPlatformImage } from './streamlit-image-manifest-list';
+import { PushedImageConfig, StreamlitAppConfig } from '../config/StreamlitDeploymentConfig';
+import { createStreamlitRepository } from './streamlit-ecr-repository';
+import { StreamlitImageDigest } from './streamlit-image-digest';
+
+/**
+ * The image pushed for an app.
+ */
+interface PushedImage {
+  /**
+   * The constructs pushing the image, finished once the image is available under its tags.
+   */
+  readonly pushes: Construct[];
+  /**
+   * Changes whenever a different image is pushed.
+   */
+  readonly sourceHash: string;
+}
 
 /**
  * Represents a CDK stack for deploying Docker images to an Amazon ECR repository.
- * This stack creates an ECR repository, sets up lifecycle rules for image retention,
- * and handles the deployment of specified image versions from a Docker registry to ECR.
+ * This stack creates an ECR repository per app, sets up lifecycle rules for image retention,
+ * and handles the deployment of specified image versions to ECR, built locally or copied from
+ * another registry, either for the stack's platform or as a multi-architecture image of all platforms.
+ * Apps may also run an image already in their repository, referenced by digest.
  */
 export class StreamlitEcrDeploymentCdkStack extends cdk.NestedStack {
   /**
-   * The ECR repository where Docker images are stored.
+   * The ECR repositories where Docker images are stored, one per app in the order of `config.apps`.
+   * @public
+   * @type {cdk.aws_ecr.IRepository[]}
+   */
+  public readonly ecrRepositories: cdk.aws_ecr.IRepository[] = [];
+
+  /**
+   * The tag or digest of the image each app runs, in the order of `config.apps`.
    * @public
-   * @type {cdk.aws_ecr.Repository}
+   * @type {AppImageReference[]}
    */
-  public readonly ecrRepository: cdk.aws_ecr.Repository;
+  public readonly imageReferences: AppImageReference[] = [];
 
   /**
    * Constructs a new instance of the LangfuseEcrDeploymentCdkStack class.
@@ -29,41 +62,142 @@ export class StreamlitEcrDeploymentCdkStack extends cdk.NestedStack {
   constructor(scope: Construct, id: string, props: StreamlitEcrStackProps) {
     super(scope, id, props);
 
-    this.ecrRepository = new ecr.Repository(this, `${props.appName}-${props.environment}-${props.platformString}-DockerImageEcrRepository`, {
-      repositoryName: props.repositoryName,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
-      emptyOnDelete: true,
-      encryption: ecr.RepositoryEncryption.AES_256
+    for (const app of props.config.apps) {
+      this.deployAppImage(props, app);
+    }
+  }
+
+  /**
+   * Creates or imports the repository of an app and pushes its image, unless the app runs an image
+   * already in the repository.
+   */
+  private deployAppImage(props: StreamlitEcrStackProps, app: StreamlitAppConfig): void {
+    const idPrefix = appIdPrefix(`${props.appName}-${props.environment}`, app);
+    const platformIdPrefix = appIdPrefix(`${props.appName}-${props.environment}-${props.platformString}`, app);
+    const repositoryName = resolveRepositoryName(app.repositoryName, {
+      appName: props.appName,
+      environment: props.environment,
+      platformString: props.platformString,
+      region: props.deployRegion ?? this.region,
     });
+    console.log(`${platformIdPrefix}: ${props.config.ecr.repositoryMode} repository ${repositoryName}, image source ${app.image.source}`);
+
+    const ecrRepository = props.config.ecr.repositoryMode === 'import'
+      ? ecr.Repository.fromRepositoryName(this, `${platformIdPrefix}-DockerImageEcrRepository`, repositoryName)
+      : createStreamlitRepository(this, `${platformIdPrefix}-DockerImageEcrRepository`, repositoryName, props.config.ecr);
 
-    this.ecrRepository.addLifecycleRule({ maxImageAge: cdk.Duration.days(7), rulePriority: 1, tagStatus: ecr.TagStatus.UNTAGGED }); // delete images older than 7 days
-    this.ecrRepository.addLifecycleRule({ maxImageCount: 4, rulePriority: 2, tagStatus: ecr.TagStatus.ANY }); // keep last 4 images
+    // immutable tags cannot be moved, so `latest` is only pushed to mutable repositories
+    const deployImageVersions = props.imageVersion === LATEST_IMAGE_VERSION || props.config.ecr.immutableTags
+      ? [props.imageVersion]
+      : [props.imageVersion, LATEST_IMAGE_VERSION];
+    let imageReference: AppImageReference = { tagOrDigest: props.imageVersion, isDigest: false };
+    if (app.image.source === 'ecr') {
+      imageReference = { tagOrDigest: app.image.digests[props.platformString], isDigest: true };
+    } else {
+      const pushedImage = props.config.platformMode === 'multi-arch'
+        ? this.deployMultiArchImage(props, app, idPrefix, ecrRepository, deployImageVersions)
+        : this.deployImage(props, app, app.image, idPrefix, ecrRepository, deployImageVersions);
+      if (app.image.pinDigest) {
+        const imageDigest = new StreamlitImageDigest(this, `${idPrefix}-ImageDigest`, {
+          repository: ecrRepository,
+          tag: props.imageVersion,
+          sourceHash: pushedImage.sourceHash,
+        });
+        imageDigest.node.addDependency(...pushedImage.pushes);
+        imageReference = { tagOrDigest: imageDigest.digest, isDigest: true };
+      }
+    }
+    this.ecrRepositories.push(ecrRepository);
+    this.imageReferences.push(imageReference);
 
-    const dockerImageAsset = new DockerImageAsset(this, `${props.appName}-${props.environment}-DockerImageAsset`, {
-      directory: path.join(__dirname, '../../coreservices'),
-      platform: props.platformString === `arm` ? Platform.LINUX_ARM64 : Platform.LINUX_AMD64,
-      file: 'Dockerfile',
-      cacheDisabled: true, // build image from scratch
+    // print out ecrRepository arn
+    new cdk.CfnOutput(this, `${platformIdPrefix}-ECRRepositoryArn`, {
+      value: ecrRepository.repositoryArn,
+      exportName: `${platformIdPrefix}-ECRRepositoryArn`,
+    });
+
+    // print out ecrRepository repository name
+    new cdk.CfnOutput(this, `${platformIdPrefix}-ECRRepositoryName`, {
+      value: ecrRepository.repositoryName,
+      exportName: `${platformIdPrefix}-ECRRepositoryName`,
     });
+  }
+
+  /**
+   * Pushes the image of the stack's platform under the deployed tags, built locally or copied from another registry.
+   */
+  private deployImage(
+    props: StreamlitEcrStackProps, app: StreamlitAppConfig, image: PushedImageConfig, idPrefix: string, ecrRepository: cdk.aws_ecr.IRepository, tags: string[],
+  ): PushedImage {
+    let src: ecrDeploy.DockerImageName;
+    let sourceHash: string;
+    if (image.source === 'registry') {
+      const uri = resolveImageUri(image.uri!, props.platformString);
+      src = new ecrDeploy.DockerImageName(uri, image.credentialsSecretName);
+      sourceHash = uri;
+    } else {
+      const dockerImageAsset = this.buildImage(`${idPrefix}-DockerImageAsset`, app, props.platformString === `arm` ? Platform.LINUX_ARM64 : Platform.LINUX_AMD64);
+      src = new ecrDeploy.DockerImageName(dockerImageAsset.imageUri);
+      sourceHash = dockerImageAsset.assetHash;
+    }
 
-    const deployImageVersions = props.imageVersion === LATEST_IMAGE_VERSION ? [props.imageVersion] : [props.imageVersion, LATEST_IMAGE_VERSION];
-    for (const deployImageVersion of deployImageVersions) {
-      new ecrDeploy.ECRDeployment(this, `${props.appName}-${props.environment}-${deployImageVersion}-ECRDeployment`, {
+    const pushes = tags.map(deployImageVersion => new ecrDeploy.ECRDeployment(this, `${idPrefix}-${deployImageVersion}-ECRDeployment`, {
+      src,
+      dest: new ecrDeploy.DockerImageName(`${ecrRepository.repositoryUri}:${deployImageVersion}`),
+    }));
+    if (image.credentialsSecretName) {
+      // the deployments share a single handler function
+      pushes[0].addToPrincipalPolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['secretsmanager:GetSecretValue'],
+        resources: [this.formatArn({
+          service: 'secretsmanager',
+          resource: 'secret',
+          resourceName: `${image.credentialsSecretName}-??????`,
+          arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+        })],
+      }));
+    }
+    return { pushes, sourceHash };
+  }
+
+  /**
+   * Builds the image for every platform, pushes each under an architecture suffixed tag and publishes
+   * the manifest list referencing them under the deployed tags.
+   */
+  private deployMultiArchImage(
+    props: StreamlitEcrStackProps, app: StreamlitAppConfig, idPrefix: string, ecrRepository: cdk.aws_ecr.IRepository, tags: string[],
+  ): PushedImage {
+    const images: StreamlitPlatformImage[] = [];
+    const deployments: Construct[] = [];
+    for (const platform of props.config.platforms) {
+      const architecture = platformArchitecture(platform);
+      const dockerImageAsset = this.buildImage(`${idPrefix}-${architecture}-DockerImageAsset`, app, Platform[platform]);
+      const tag = `${props.imageVersion}-${architecture}`;
+      deployments.push(new ecrDeploy.ECRDeployment(this, `${idPrefix}-${tag}-ECRDeployment`, {
         src: new ecrDeploy.DockerImageName(dockerImageAsset.imageUri),
-        dest: new ecrDeploy.DockerImageName(`${this.ecrRepository.repositoryUri}:${deployImageVersion}`),
-      });
+        dest: new ecrDeploy.DockerImageName(`${ecrRepository.repositoryUri}:${tag}`),
+      }));
+      images.push({ tag, architecture, sourceHash: dockerImageAsset.assetHash });
     }
 
-    // print out ecrRepository arn
-    new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-ECRRepositoryArn`, {
-      value: this.ecrRepository.repositoryArn,
-      exportName: `${props.appName}-${props.environment}-${props.platformString}-ECRRepositoryArn`,
+    const manifestList = new StreamlitImageManifestList(this, `${idPrefix}-ImageManifestList`, {
+      repository: ecrRepository,
+      images,
+      tags,
     });
+    manifestList.node.addDependency(...deployments);
+    return { pushes: [manifestList], sourceHash: images.map(image => image.sourceHash).join(',') };
+  }
 
-    // print out ecrRepository repository name
-    new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-ECRRepositoryName`, {
-      value: this.ecrRepository.repositoryName,
-      exportName: `${props.appName}-${props.environment}-${props.platformString}-ECRRepositoryName`,
+  private buildImage(id: string, app: StreamlitAppConfig, platform: Platform): DockerImageAsset {
+    return new DockerImageAsset(this, id, {
+      directory: path.resolve(PROJECT_ROOT, app.sourceDirectory),
+      platform,
+      file: app.dockerfile,
+      // an empty object would change the asset hash of existing builds
+      buildArgs: Object.keys(app.image.buildArgs).length > 0 ? app.image.buildArgs : undefined,
+      cacheDisabled: !app.image.cache, // build image from scratch unless caching is enabled
     });
   }
 }
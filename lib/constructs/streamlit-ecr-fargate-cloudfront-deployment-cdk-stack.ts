@@ -2,91 +2,135 @@ import * as cdk from 'aws-cdk-lib';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as ecs from 'aws-cdk-lib/aws-ecs';
 import * as ecs_patterns from 'aws-cdk-lib/aws-ecs-patterns';
+import * as appscaling from 'aws-cdk-lib/aws-applicationautoscaling';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53_targets from 'aws-cdk-lib/aws-route53-targets';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
 import { Construct } from 'constructs';
 import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
-import { StreamlitEcsStackProps } from './StreamlitEcsStackProps';
+import { AppImageReference, StreamlitEcsStackProps } from './StreamlitEcsStackProps';
 import {
     AllowedMethods,
+    BehaviorOptions,
+    CacheCookieBehavior,
+    CachedMethods,
+    CacheHeaderBehavior,
     CachePolicy,
+    CacheQueryStringBehavior,
     Distribution,
-    Function,
-    FunctionCode,
     FunctionEventType,
     OriginProtocolPolicy,
     OriginRequestCookieBehavior,
     OriginRequestHeaderBehavior,
     OriginRequestPolicy,
     OriginRequestQueryStringBehavior,
-    ResponseHeadersPolicy,
     SecurityPolicyProtocol,
 } from "aws-cdk-lib/aws-cloudfront";
-import { LoadBalancerV2Origin } from "aws-cdk-lib/aws-cloudfront-origins";
+import { HttpOrigin, LoadBalancerV2Origin } from "aws-cdk-lib/aws-cloudfront-origins";
+import { StreamlitOriginVerifyHeader } from './streamlit-origin-verify-header';
+import { StreamlitAlbAuthentication } from './streamlit-alb-authentication';
+import { StreamlitBlueGreenDeployment } from './streamlit-blue-green-deployment';
+import { StreamlitLogGroup } from './streamlit-log-group';
+import { StreamlitResponseHeaders } from './streamlit-response-headers';
+import { StreamlitAccessLogs } from './streamlit-access-logs';
+import { lookupHostedZone } from '../../utils/lookup-hosted-zone';
+import { CacheTtlConfig, CapacityConfig, ContainerConfig, FargateSizingProfile, HealthCheckConfig, SessionsConfig, StreamlitAppConfig } from '../config/StreamlitDeploymentConfig';
+import { appIdPrefix, resolveAppHosts } from '../config/app-config';
+import { resolveDomainName } from '../config/domain-config';
+import { resolveSizingProfile } from '../config/sizing-config';
+
+/**
+ * The task definition of an app with the settings the service is created with.
+ */
+interface AppTaskDefinition {
+    readonly taskDefinition: ecs.FargateTaskDefinition;
+    readonly sizing: FargateSizingProfile;
+    readonly errorLogMetric?: cloudwatch.Metric;
+}
 
 /**
  * Represents a CDK stack for deploying a Fargate service within a VPC.
  *
- * This stack sets up the necessary AWS resources to deploy a containerized
- * application using AWS Fargate. It includes setting up an ECS cluster,
- * task definitions, security groups, and an Application Load Balancer.
- * The stack also configures auto-scaling for the Fargate service based on CPU utilization.
+ * This stack sets up the necessary AWS resources to deploy the containerized
+ * apps of the manifest using AWS Fargate. It includes setting up an ECS cluster,
+ * a task definition and service per app, security groups, and an Application
+ * Load Balancer routing to the apps by path or host.
+ * The stack also configures auto-scaling for the Fargate service based on CPU utilization,
+ * optionally memory utilization and ALB requests, scheduled scaling, and either rolling or
+ * CodeDeploy blue/green deployments.
  *
  * @param {Construct} scope - The parent construct.
  * @param {string} id - The unique identifier for the stack.
  * @param {StreamlitEcsStackProps} props - The properties for the Fargate deployment stack.
  */
 export class CdkFargateFrontWithVpcDeploymentStack extends cdk.NestedStack {
+    public readonly distribution: Distribution;
+    public readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+    /**
+     * The target groups of the services, one per app plus the green one of blue/green deployments.
+     */
+    public readonly targetGroups: elbv2.ApplicationTargetGroup[];
+    /**
+     * The services running the apps, in the order of `config.apps`.
+     */
+    public readonly services: ecs.FargateService[];
+    /**
+     * Error and exception lines logged by the apps, when `logging.errorMetrics` is enabled.
+     */
+    public readonly errorLogMetric?: cloudwatch.Metric;
+
     constructor(scope: Construct, id: string, props: StreamlitEcsStackProps) {
         super(scope, id, props);
 
-        const containerPort = props.containerPort;
-        console.log(`containerPort: ${containerPort}`);
+        const apps = props.config.apps;
+        console.log(`apps: ${apps.map(app => `${app.id ?? 'default'} (${app.path ?? app.host ?? '/'})`).join(', ')}`);
 
         const existingVpc = props.vpc;
+        const deployRegion = props.deployRegion ?? this.region;
+
+        // custom domain, CloudFront reaches the ALB over HTTPS at the origin domain name
+        const domain = props.domain;
+        if (domain && !props.edgeCertificate) {
+            throw new Error(`The domain ${domain.domainName} requires a us-east-1 certificate for CloudFront (edgeCertificate).`);
+        }
+        const appHosts = resolveAppHosts(apps, deployRegion, props.platformString);
+        const hostedZone = domain && lookupHostedZone(this, `${props.appName}-${props.environment}-${props.platformString}-HostedZone`, domain);
+        const originCertificate = domain && hostedZone && new acm.Certificate(this, `${props.appName}-${props.environment}-${props.platformString}-OriginCertificate`, {
+            domainName: domain.originDomainName,
+            // CloudFront forwards the viewer Host header, so the ALB has to present the public domain and app hosts as well
+            subjectAlternativeNames: [domain.domainName, ...appHosts],
+            validation: acm.CertificateValidation.fromDns(hostedZone),
+        });
+        const listenerPort = domain ? 443 : 80;
 
         const loadBalancerSecurityGroup = new ec2.SecurityGroup(this, `${props.appName}-${props.environment}-${props.platformString}-Streamlit-ALB-SecGrp`, { vpc: existingVpc });
-        loadBalancerSecurityGroup.addIngressRule(ec2.Peer.ipv4('0.0.0.0/0'), ec2.Port.tcp(80)); // allow all inbound traffic on port 80
+        loadBalancerSecurityGroup.addIngressRule(ec2.Peer.ipv4('0.0.0.0/0'), ec2.Port.tcp(listenerPort)); // allow all inbound traffic on the listener port
 
         const ecsSecurityGroup = new ec2.SecurityGroup(this, 'Streamlit-ECS-SecurityGroup', { vpc: existingVpc, allowAllOutbound: true });
         ecsSecurityGroup.addIngressRule(loadBalancerSecurityGroup, ec2.Port.tcp(80));
-        ecsSecurityGroup.addIngressRule(loadBalancerSecurityGroup, ec2.Port.tcp(containerPort));
+        for (const containerPort of new Set(apps.map(app => app.port))) {
+            ecsSecurityGroup.addIngressRule(loadBalancerSecurityGroup, ec2.Port.tcp(containerPort));
+        }
         ecsSecurityGroup.addIngressRule(ecsSecurityGroup, ec2.Port.allTraffic());
+        const securityGroups = props.endpointClientSecurityGroup ? [ecsSecurityGroup, props.endpointClientSecurityGroup] : [ecsSecurityGroup];
+        const taskSubnets: ec2.SubnetSelection = {
+            subnetType: props.config.vpc.taskSubnetType === 'isolated' ? ec2.SubnetType.PRIVATE_ISOLATED : ec2.SubnetType.PRIVATE_WITH_EGRESS,
+        };
 
-        // define a cluster with spot instances, linux type
+        // define a cluster, with the Fargate capacity providers when the tasks partly run on Fargate Spot
+        const capacityProviderStrategies = createCapacityProviderStrategies(props.config.capacity);
         const cluster = new ecs.Cluster(this, `${props.appName}-${props.environment}-${props.platformString}-DeploymentCluster`, {
             vpc: existingVpc,
             containerInsights: true,
-            clusterName: `${props.appName}-${props.environment}-Cluster`,
+            clusterName: `${props.appName}-${props.environment}-${props.platformString}-Cluster`,
+            enableFargateCapacityProviders: capacityProviderStrategies !== undefined,
         });
 
-        // Task Role
-        const taskRole = new iam.Role(this, `${props.appName}-${props.environment}-${props.platformString}-ecsTaskExecutionRole`, {
-            assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
-        });
-
-        // Add permissions to the Task Role
-        taskRole.addManagedPolicy(
-            iam.ManagedPolicy.fromAwsManagedPolicyName(
-                "service-role/AmazonECSTaskExecutionRolePolicy"
-            )
-        );
-
-        // Add permissions to the Task Role to allow it to pull images from ECR
-        taskRole.addToPolicy(new iam.PolicyStatement(
-            {
-                effect: iam.Effect.ALLOW,
-                actions: [
-                    "ecr:GetAuthorizationToken",
-                    "ecr:BatchCheckLayerAvailability",
-                    "ecr:GetDownloadUrlForLayer",
-                    "ecr:BatchGetImage",
-                    "logs:CreateLogStream",
-                    "logs:PutLogEvents"
-                ],
-                resources: ["*"],
-            }
-        ));
-
         const loadBalancer = new elbv2.ApplicationLoadBalancer(
             this,
             `${props.appName}-${props.environment}-${props.platformString}-StreamlitLoadBalancer`,
@@ -94,54 +138,108 @@ export class CdkFargateFrontWithVpcDeploymentStack extends cdk.NestedStack {
                 vpc: props.vpc,
                 securityGroup: loadBalancerSecurityGroup,
                 internetFacing: true,
+                idleTimeout: cdk.Duration.seconds(props.config.sessions.idleTimeoutSeconds),
             }
         );
 
-        // create a task definition with CloudWatch Logs
-        const logDriver = new ecs.AwsLogDriver({ streamPrefix: `${props.appName}-${props.environment}-${props.platformString}` });
+        // access logs of the load balancer and the distribution, kept in a bucket of the deployment
+        const accessLogs = props.config.accessLogs.enabled
+            ? new StreamlitAccessLogs(this, `${props.appName}-${props.environment}-${props.platformString}-AccessLogs`, {
+                accessLogs: props.config.accessLogs,
+                prefix: props.environment,
+                namePrefix: `${props.appName}-${props.environment}-${props.platformString}`,
+            })
+            : undefined;
+        if (accessLogs) {
+            loadBalancer.logAccessLogs(accessLogs.bucket, accessLogs.loadBalancerPrefix);
+        }
+
+        const healthCheckConfig = props.config.healthCheck;
+
+        // rolling deployments roll back through the circuit breaker, blue/green deployments through CodeDeploy
+        const deployment = props.config.deployment;
+        const blueGreen = deployment.strategy === 'blue-green';
+
+        // the first app comes with the listener, further apps are added behind listener rules
+        const [primaryApp, ...otherApps] = apps;
+        const primaryTask = this.createAppTaskDefinition(props, primaryApp, props.ecrRepositories[0], props.imageReferences[0]);
 
-        // Instantiate Fargate Service with just cluster and image
+        // Instantiate Fargate Service with just cluster and task definition
         const fargateService = new ecs_patterns.ApplicationLoadBalancedFargateService(this, `${props.appName}-${props.environment}-${props.platformString}-FargateService`, {
             cluster,
-            taskImageOptions: {
-                image: ecs.ContainerImage.fromEcrRepository(props.ecrRepository, props.imageVersion),
-                taskRole,
-                containerPort,
-                enableLogging: true,
-                logDriver,
-            },
+            taskDefinition: primaryTask.taskDefinition,
             loadBalancer,
-            securityGroups: [ecsSecurityGroup],
-            cpu: 1024,
-            memoryLimitMiB: 2048,
-            desiredCount: 1,
+            ...(domain ? {
+                protocol: elbv2.ApplicationProtocol.HTTPS,
+                certificate: originCertificate,
+                domainName: domain.originDomainName,
+                domainZone: hostedZone,
+                sslPolicy: elbv2.SslPolicy.RECOMMENDED_TLS,
+            } : {}),
+            securityGroups,
+            taskSubnets,
+            desiredCount: primaryTask.sizing.desiredCount,
+            healthCheckGracePeriod: cdk.Duration.seconds(healthCheckConfig.gracePeriodSeconds),
+            deploymentController: { type: blueGreen ? ecs.DeploymentControllerType.CODE_DEPLOY : ecs.DeploymentControllerType.ECS },
+            circuitBreaker: blueGreen ? undefined : { rollback: true },
+            capacityProviderStrategies,
             platformVersion: ecs.FargatePlatformVersion.LATEST,
-            runtimePlatform: {
-                cpuArchitecture: props.platformString === `arm` ? ecs.CpuArchitecture.ARM64 : ecs.CpuArchitecture.X86_64,
-                operatingSystemFamily: ecs.OperatingSystemFamily.LINUX,
-            },
         });
+        // the metric filters of all apps publish to the same metric
+        this.errorLogMetric = primaryTask.errorLogMetric;
 
-        // Setup AutoScaling policy
-        const scaling = fargateService.service.autoScaleTaskCount({ maxCapacity: 2, minCapacity: 1 });
-        scaling.scaleOnCpuUtilization(`${props.appName}-${props.environment}-${props.platformString}-CpuScaling`, {
-            targetUtilizationPercent: 70,
-            scaleInCooldown: cdk.Duration.seconds(60),
-            scaleOutCooldown: cdk.Duration.seconds(60)
-        });
+        const healthCheck = createHealthCheck(healthCheckConfig, primaryApp);
+        fargateService.targetGroup.configureHealthCheck(healthCheck);
 
-        fargateService.targetGroup.configureHealthCheck({
-            path: "/",
-            interval: cdk.Duration.seconds(60),
-            healthyHttpCodes: "200-499", // We have to check for 401 as the default state of "/" is unauthenticated
+        const services = [fargateService.service];
+        const appSizings = [primaryTask.sizing];
+        const appTargetGroups = [fargateService.targetGroup];
+        otherApps.forEach((app, index) => {
+            const appPrefix = appIdPrefix(`${props.appName}-${props.environment}-${props.platformString}`, app);
+            const appTask = this.createAppTaskDefinition(props, app, props.ecrRepositories[index + 1], props.imageReferences[index + 1]);
+            const service = new ecs.FargateService(this, `${appPrefix}-FargateService`, {
+                cluster,
+                taskDefinition: appTask.taskDefinition,
+                securityGroups,
+                vpcSubnets: taskSubnets,
+                desiredCount: appTask.sizing.desiredCount,
+                healthCheckGracePeriod: cdk.Duration.seconds(healthCheckConfig.gracePeriodSeconds),
+                circuitBreaker: { rollback: true },
+                capacityProviderStrategies,
+                platformVersion: ecs.FargatePlatformVersion.LATEST,
+            });
+            services.push(service);
+            appSizings.push(appTask.sizing);
+            appTargetGroups.push(new elbv2.ApplicationTargetGroup(this, `${appPrefix}-TargetGroup`, {
+                vpc: existingVpc,
+                port: app.port,
+                protocol: elbv2.ApplicationProtocol.HTTP,
+                targetType: elbv2.TargetType.IP,
+                targets: [service],
+                healthCheck: createHealthCheck(healthCheckConfig, app),
+            }));
         });
 
-        // Cloudfront Distribution
+        const blueGreenDeployment = blueGreen
+            ? new StreamlitBlueGreenDeployment(this, `${props.appName}-${props.environment}-${props.platformString}-BlueGreenDeployment`, {
+                deployment,
+                service: fargateService.service,
+                loadBalancer,
+                listener: fargateService.listener,
+                blueTargetGroup: fargateService.targetGroup,
+                healthCheck,
+                vpc: existingVpc,
+                certificate: originCertificate,
+            })
+            : undefined;
+
+        // Cloudfront Distribution, its policy names are unique within the account rather than the region
+        const policyNamePrefix = `${props.appName}-${props.environment}-${deployRegion}-${props.platformString}`;
         const streamlitOriginRequestPolicy = new OriginRequestPolicy(
             this,
             `${props.appName}-${props.environment}-${props.platformString}-OriginRequestPolicy`,
             {
-                originRequestPolicyName: "StreamlitPolicy",
+                originRequestPolicyName: `${policyNamePrefix}-Streamlit`,
                 comment: "Policy optimised for Streamlit",
                 cookieBehavior: OriginRequestCookieBehavior.all(),
                 headerBehavior: OriginRequestHeaderBehavior.all(),
@@ -149,52 +247,441 @@ export class CdkFargateFrontWithVpcDeploymentStack extends cdk.NestedStack {
             }
         );
 
-        /** Fixes Cors Issue */
-        const corsFunction = new Function(this, `${props.appName}-${props.environment}-${props.platformString}-CorsFunction`, {
-            code: FunctionCode.fromInline(`
-                function handler(event) {
-                    if(event.request.method === 'OPTIONS') {
-                        var response = {
-                            statusCode: 204,
-                            statusDescription: 'OK',
-                            headers: {
-                                'access-control-allow-origin': { value: '*' },
-                                'access-control-allow-headers': { value: '*' }
-                            }
-                        };
-                        return response;
-                    }
-                    return event.request;
-                }
-            `),
+        // CORS and security headers, CloudFront answers the preflight requests itself
+        const responseHeaders = new StreamlitResponseHeaders(this, `${props.appName}-${props.environment}-${props.platformString}-ResponseHeaders`, {
+            policyName: `${policyNamePrefix}-Headers`,
+            cors: props.config.cors,
+            securityHeaders: props.config.securityHeaders,
         });
 
-        const streamlitDistribution = new Distribution(this, `${props.appName}-${props.environment}-${props.platformString}-StreamlitDistribution`, {
-            defaultBehavior: {
-                origin: new LoadBalancerV2Origin(loadBalancer, {
+        // origin protection, requests bypassing CloudFront are answered with 403
+        const originProtection = props.config.originProtection;
+        const originVerifyHeader = originProtection.mode === 'custom-header'
+            ? new StreamlitOriginVerifyHeader(this, `${props.appName}-${props.environment}-${props.platformString}-OriginVerifyHeader`, {
+                headerName: originProtection.headerName,
+                rotationDays: originProtection.rotationDays,
+            })
+            : undefined;
+
+        // optional user authentication on the listener ahead of the forward action
+        const authenticationConfig = props.config.authentication;
+        if (authenticationConfig.mode !== 'none' && !domain) {
+            throw new Error(`Authentication mode '${authenticationConfig.mode}' requires a custom domain with an HTTPS listener.`);
+        }
+        const authentication = domain && authenticationConfig.mode !== 'none'
+            ? new StreamlitAlbAuthentication(this, `${props.appName}-${props.environment}-${props.platformString}-Authentication`, {
+                authentication: authenticationConfig,
+                domainNames: [domain.domainName, ...appHosts],
+                defaultDomainPrefix: `${props.appName}-${props.environment}-${props.platformString}`.toLowerCase(),
+            })
+            : undefined;
+
+        const listener = fargateService.listener;
+        const appAction = (targetGroup: elbv2.ApplicationTargetGroup) => {
+            const forwardAction = elbv2.ListenerAction.forward([targetGroup]);
+            return authentication ? authentication.authenticate(forwardAction) : forwardAction;
+        };
+
+        // path and host routed apps get a listener rule each, in the order of the manifest
+        let priority = 0;
+        apps.forEach((app, index) => {
+            if (!app.path && !app.host) {
+                return;
+            }
+            priority++;
+            const ruleId = `${appIdPrefix(`${props.appName}-${props.environment}-${props.platformString}`, app)}-ListenerRule`;
+            const conditions = [app.path
+                ? elbv2.ListenerCondition.pathPatterns([app.path, `${app.path}/*`])
+                : elbv2.ListenerCondition.hostHeaders([resolveDomainName(app.host!, deployRegion, props.platformString)])];
+            if (originVerifyHeader) {
+                originVerifyHeader.addListenerRule(ruleId, listener, priority, conditions, appAction(appTargetGroups[index]));
+            } else {
+                new elbv2.ApplicationListenerRule(this, ruleId, { listener, priority, conditions, action: appAction(appTargetGroups[index]) });
+            }
+        });
+
+        // requests no rule matches go to the app without path and host, if there is one
+        const hasUnroutedApp = !primaryApp.path && !primaryApp.host;
+        if (originVerifyHeader) {
+            if (hasUnroutedApp) {
+                originVerifyHeader.restrictListener(listener, appAction(fargateService.targetGroup), priority + 1);
+            } else {
+                originVerifyHeader.denyDirectAccess(listener);
+            }
+        } else if (!hasUnroutedApp) {
+            listener.addAction(`${props.appName}-${props.environment}-${props.platformString}-NotFound`, {
+                action: elbv2.ListenerAction.fixedResponse(404, { contentType: 'text/plain', messageBody: 'Not found' }),
+            });
+        } else if (authentication) {
+            listener.addAction(`${props.appName}-${props.environment}-${props.platformString}-AuthenticatedForward`, { action: appAction(fargateService.targetGroup) });
+        }
+
+        // request count scaling needs the target groups attached to the load balancer
+        apps.forEach((app, index) => this.addAutoScaling(props, app, services[index], appSizings[index], appTargetGroups[index]));
+
+        // the pages are never cached, the static assets, media and websocket of the apps get behaviors of their own
+        const defaultBehavior: BehaviorOptions = {
+            origin: domain
+                ? new HttpOrigin(domain.originDomainName, {
+                    protocolPolicy: OriginProtocolPolicy.HTTPS_ONLY,
+                    customHeaders: originVerifyHeader?.originCustomHeaders,
+                })
+                : new LoadBalancerV2Origin(loadBalancer, {
                     protocolPolicy: OriginProtocolPolicy.HTTP_ONLY,
+                    customHeaders: originVerifyHeader?.originCustomHeaders,
                 }),
-                originRequestPolicy: streamlitOriginRequestPolicy,
-                responseHeadersPolicy: ResponseHeadersPolicy.CORS_ALLOW_ALL_ORIGINS,
-                cachePolicy: CachePolicy.CACHING_DISABLED,
-                allowedMethods: AllowedMethods.ALLOW_ALL,
-                compress: true,
-                viewerProtocolPolicy: cdk.aws_cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
-                functionAssociations: [
-                    {
-                        function: corsFunction,
-                        eventType: FunctionEventType.VIEWER_REQUEST,
-                    },
-                ],
-            },
+            originRequestPolicy: streamlitOriginRequestPolicy,
+            responseHeadersPolicy: responseHeaders.policy,
+            cachePolicy: CachePolicy.CACHING_DISABLED,
+            allowedMethods: AllowedMethods.ALLOW_ALL,
+            compress: true,
+            viewerProtocolPolicy: cdk.aws_cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+            functionAssociations: [
+                {
+                    function: responseHeaders.preflightFunction,
+                    eventType: FunctionEventType.VIEWER_REQUEST,
+                },
+            ],
+        };
+        const streamlitDistribution = new Distribution(this, `${props.appName}-${props.environment}-${props.platformString}-StreamlitDistribution`, {
+            defaultBehavior,
+            additionalBehaviors: this.createStreamlitBehaviors(
+                props, policyNamePrefix, defaultBehavior, authentication !== undefined || props.config.sessions.stickiness !== 'none',
+            ),
+            domainNames: domain ? [domain.domainName, ...appHosts] : undefined,
+            certificate: props.edgeCertificate,
+            webAclId: props.webAclArn,
             minimumProtocolVersion: SecurityPolicyProtocol.TLS_V1_2_2021,
             comment: "CloudFront distribution for Streamlit frontend application.",
+            ...(accessLogs ? {
+                enableLogging: true,
+                logBucket: accessLogs.bucket,
+                logFilePrefix: accessLogs.distributionPrefix,
+            } : {}),
         });
+        originVerifyHeader?.addRotation(streamlitDistribution);
+
+        this.distribution = streamlitDistribution;
+        this.loadBalancer = loadBalancer;
+        this.targetGroups = blueGreenDeployment
+            ? [...appTargetGroups, blueGreenDeployment.greenTargetGroup]
+            : appTargetGroups;
+        this.services = services;
+        for (const targetGroup of this.targetGroups) {
+            configureSessions(targetGroup, props.config.sessions);
+        }
+
+        if (domain && hostedZone) {
+            const distributionTarget = route53.RecordTarget.fromAlias(new route53_targets.CloudFrontTarget(streamlitDistribution));
+            new route53.ARecord(this, `${props.appName}-${props.environment}-${props.platformString}-DistributionARecord`, {
+                zone: hostedZone,
+                recordName: domain.domainName,
+                target: distributionTarget,
+            });
+            new route53.AaaaRecord(this, `${props.appName}-${props.environment}-${props.platformString}-DistributionAaaaRecord`, {
+                zone: hostedZone,
+                recordName: domain.domainName,
+                target: distributionTarget,
+            });
+            for (const app of apps.filter(app => app.host)) {
+                const appPrefix = appIdPrefix(`${props.appName}-${props.environment}-${props.platformString}`, app);
+                const recordName = resolveDomainName(app.host!, deployRegion, props.platformString);
+                new route53.ARecord(this, `${appPrefix}-DistributionARecord`, { zone: hostedZone, recordName, target: distributionTarget });
+                new route53.AaaaRecord(this, `${appPrefix}-DistributionAaaaRecord`, { zone: hostedZone, recordName, target: distributionTarget });
+            }
+        }
+
+        if (blueGreenDeployment) {
+            new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-DeploymentGroupName`, {
+                value: blueGreenDeployment.deploymentGroup.deploymentGroupName,
+                description: "CodeDeploy deployment group rolling out new Streamlit task definitions.",
+            });
+        }
+
+        if (authentication?.userPool) {
+            new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-UserPoolId`, {
+                value: authentication.userPool.userPoolId,
+                description: "Cognito user pool of the Streamlit users.",
+            });
+        }
+
+        if (accessLogs) {
+            new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-AccessLogsBucketName`, {
+                value: accessLogs.bucket.bucketName,
+                description: "S3 bucket with the access logs of the load balancer and the distribution.",
+            });
+        }
+        if (accessLogs?.workGroup) {
+            new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-AccessLogsWorkGroup`, {
+                value: accessLogs.workGroup.ref,
+                description: "Athena workgroup querying the access logs.",
+            });
+        }
 
         new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-StreamlitURL`, {
-            value: `https://${streamlitDistribution.distributionDomainName}`,
+            value: `https://${domain ? domain.domainName : streamlitDistribution.distributionDomainName}`,
             description: "Streamlit CloudFront Distribution URL.",
             exportName: `${props.appName}-${props.environment}-${props.platformString}-StreamlitDistributionURL`,
         });
+        for (const app of apps.filter(app => app.id)) {
+            const host = app.host ? resolveDomainName(app.host, deployRegion, props.platformString) : domain?.domainName ?? streamlitDistribution.distributionDomainName;
+            new cdk.CfnOutput(this, `${appIdPrefix(`${props.appName}-${props.environment}-${props.platformString}`, app)}-AppURL`, {
+                value: `https://${host}${app.path ?? '/'}`,
+                description: `URL of the ${app.id} Streamlit app.`,
+            });
+        }
+    }
+
+    /**
+     * Creates the roles, the log group and the task definition of an app.
+     * The app deployed without a manifest keeps the construct ids and log group name it had before manifests existed.
+     */
+    private createAppTaskDefinition(
+        props: StreamlitEcsStackProps, app: StreamlitAppConfig, ecrRepository: cdk.aws_ecr.IRepository, imageReference: AppImageReference,
+    ): AppTaskDefinition {
+        const idPrefix = appIdPrefix(`${props.appName}-${props.environment}-${props.platformString}`, app);
+        const sizing = resolveSizingProfile(props.config, props.deployRegion ?? this.region, app);
+        console.log(`${idPrefix}: containerPort ${app.port}, cpu ${sizing.cpu}, memory ${sizing.memoryLimitMiB} MiB, tasks ${sizing.minCapacity}-${sizing.maxCapacity}`);
+
+        // the execution role pulls the image, writes the logs and injects the secrets, the task role is the app's own identity
+        const executionRole = new iam.Role(this, `${idPrefix}-ecsTaskExecutionRole`, {
+            assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+        });
+        ecrRepository.grantPull(executionRole);
+
+        const taskRole = new iam.Role(this, `${idPrefix}-ecsTaskRole`, {
+            assumedBy: new iam.ServicePrincipal("ecs-tasks.amazonaws.com"),
+        });
+        // app specific permissions from the taskRole configuration
+        for (const statement of props.config.taskRole.policyStatements) {
+            taskRole.addToPolicy(new iam.PolicyStatement({
+                sid: statement.sid,
+                effect: statement.effect === 'Deny' ? iam.Effect.DENY : iam.Effect.ALLOW,
+                actions: statement.actions,
+                resources: statement.resources,
+            }));
+        }
+
+        // create a task definition with CloudWatch Logs
+        const applicationLogs = new StreamlitLogGroup(this, `${idPrefix}-ApplicationLogs`, {
+            logging: props.config.logging,
+            logGroupName: app.id
+                ? `/streamlit/${props.appName}/${props.environment}/${props.platformString}/${app.id}/application`
+                : `/streamlit/${props.appName}/${props.environment}/${props.platformString}/application`,
+        });
+        const logDriver = new ecs.AwsLogDriver({
+            streamPrefix: idPrefix,
+            logGroup: applicationLogs.logGroup,
+        });
+        let errorLogMetric: cloudwatch.Metric | undefined;
+        if (props.config.logging.errorMetrics) {
+            // Python tracebacks and Streamlit's own error log lines, all apps count towards the same metric
+            const errorLogFilter = applicationLogs.logGroup.addMetricFilter(`${idPrefix}-ErrorLogLines`, {
+                filterPattern: logs.FilterPattern.anyTerm('Traceback', 'ERROR', 'Exception'),
+                metricNamespace: `Streamlit/${props.appName}-${props.environment}`,
+                metricName: `${props.platformString}-ErrorLogLines`,
+                metricValue: '1',
+                defaultValue: 0,
+            });
+            errorLogMetric = errorLogFilter.metric({ statistic: cloudwatch.Stats.SUM, period: cdk.Duration.minutes(1) });
+        }
+        const healthCheckConfig = props.config.healthCheck;
+
+        const taskDefinition = new ecs.FargateTaskDefinition(this, `${idPrefix}-TaskDefinition`, {
+            cpu: sizing.cpu,
+            memoryLimitMiB: sizing.memoryLimitMiB,
+            executionRole,
+            taskRole,
+            runtimePlatform: {
+                cpuArchitecture: props.platformString === `arm` ? ecs.CpuArchitecture.ARM64 : ecs.CpuArchitecture.X86_64,
+                operatingSystemFamily: ecs.OperatingSystemFamily.LINUX,
+            },
+        });
+        taskDefinition.addContainer('web', {
+            // fromEcrRepository treats a digest token as a tag, the execution role is granted the pull above
+            image: imageReference.isDigest
+                ? ecs.ContainerImage.fromRegistry(ecrRepository.repositoryUriForDigest(imageReference.tagOrDigest))
+                : ecs.ContainerImage.fromEcrRepository(ecrRepository, imageReference.tagOrDigest),
+            logging: logDriver,
+            portMappings: [{ containerPort: app.port }],
+            environment: {
+                ...props.config.container.environment,
+                // Streamlit serves a path routed app below the same path
+                ...(app.path ? { STREAMLIT_SERVER_BASE_URL_PATH: app.path.slice(1) } : {}),
+            },
+            secrets: createContainerSecrets(this, idPrefix, props.config.container, taskRole),
+            // the image must provide curl, as the official python images do
+            healthCheck: healthCheckConfig.container.enabled ? {
+                command: ['CMD-SHELL', `curl -fs http://localhost:${app.port}${app.path ?? ''}${healthCheckConfig.path} || exit 1`],
+                interval: cdk.Duration.seconds(healthCheckConfig.container.intervalSeconds),
+                timeout: cdk.Duration.seconds(healthCheckConfig.container.timeoutSeconds),
+                retries: healthCheckConfig.container.retries,
+                startPeriod: cdk.Duration.seconds(healthCheckConfig.container.startPeriodSeconds),
+            } : undefined,
+        });
+        return { taskDefinition, sizing, errorLogMetric };
+    }
+
+    /**
+     * The behaviors of the Streamlit static assets, media and websocket below the root and the path of every path routed app.
+     */
+    private createStreamlitBehaviors(
+        props: StreamlitEcsStackProps, policyNamePrefix: string, defaultBehavior: BehaviorOptions, forwardCookies: boolean,
+    ): Record<string, BehaviorOptions> {
+        const idPrefix = `${props.appName}-${props.environment}-${props.platformString}`;
+        const apps = props.config.apps;
+        // host routed apps share the paths, the Host header tells their assets apart
+        const hostRouted = apps.some(app => app.host);
+        const assetCachePolicy = (name: string, description: string, ttl: CacheTtlConfig) => new CachePolicy(this, `${idPrefix}-${name}CachePolicy`, {
+            cachePolicyName: `${policyNamePrefix}-${name}`,
+            comment: `Caches the ${description} of the Streamlit apps`,
+            defaultTtl: cdk.Duration.seconds(ttl.defaultTtlSeconds),
+            maxTtl: cdk.Duration.seconds(ttl.maxTtlSeconds),
+            minTtl: cdk.Duration.seconds(0),
+            headerBehavior: hostRouted ? CacheHeaderBehavior.allowList('Host') : CacheHeaderBehavior.none(),
+            queryStringBehavior: CacheQueryStringBehavior.all(),
+            cookieBehavior: CacheCookieBehavior.none(),
+            enableAcceptEncodingGzip: true,
+            enableAcceptEncodingBrotli: true,
+        });
+        // the ALB authenticates every request and sends the media of a session to its task, so the
+        // authentication and stickiness cookies are forwarded but are not part of the cache key
+        const assetOriginRequestPolicy = forwardCookies
+            ? new OriginRequestPolicy(this, `${idPrefix}-AssetOriginRequestPolicy`, {
+                originRequestPolicyName: `${policyNamePrefix}-Assets`,
+                comment: 'Forwards the ALB authentication and stickiness cookies with the Streamlit asset requests',
+                cookieBehavior: OriginRequestCookieBehavior.all(),
+            })
+            : undefined;
+        const assetBehavior = (cachePolicy: CachePolicy): BehaviorOptions => ({
+            ...defaultBehavior,
+            cachePolicy,
+            originRequestPolicy: assetOriginRequestPolicy,
+            allowedMethods: AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
+            cachedMethods: CachedMethods.CACHE_GET_HEAD,
+        });
+        const staticAssets = assetBehavior(assetCachePolicy('StaticAssets', 'static assets', props.config.cdn.staticAssets));
+        const media = assetBehavior(assetCachePolicy('Media', 'media', props.config.cdn.media));
+        // the websocket upgrade needs every viewer header, e.g. Sec-WebSocket-Key
+        const stream: BehaviorOptions = { ...defaultBehavior, allowedMethods: AllowedMethods.ALLOW_GET_HEAD, compress: false };
+
+        const behaviors: Record<string, BehaviorOptions> = {};
+        for (const prefix of new Set(apps.map(app => app.path ?? ''))) {
+            behaviors[`${prefix}/static/*`] = staticAssets;
+            behaviors[`${prefix}/media/*`] = media;
+            behaviors[`${prefix}/_stcore/stream`] = stream;
+        }
+        return behaviors;
+    }
+
+    private addAutoScaling(
+        props: StreamlitEcsStackProps, app: StreamlitAppConfig, service: ecs.FargateService, sizing: FargateSizingProfile,
+        targetGroup: elbv2.ApplicationTargetGroup,
+    ): void {
+        const idPrefix = appIdPrefix(`${props.appName}-${props.environment}-${props.platformString}`, app);
+        const cooldowns = {
+            scaleInCooldown: cdk.Duration.seconds(sizing.scaleInCooldownSeconds),
+            scaleOutCooldown: cdk.Duration.seconds(sizing.scaleOutCooldownSeconds),
+        };
+        // Setup AutoScaling policies, the service scales out as soon as one of them asks for more tasks
+        const scaling = service.autoScaleTaskCount({ maxCapacity: sizing.maxCapacity, minCapacity: sizing.minCapacity });
+        scaling.scaleOnCpuUtilization(`${idPrefix}-CpuScaling`, {
+            targetUtilizationPercent: sizing.cpuTargetUtilizationPercent,
+            ...cooldowns,
+        });
+        if (sizing.memoryTargetUtilizationPercent !== undefined) {
+            scaling.scaleOnMemoryUtilization(`${idPrefix}-MemoryScaling`, {
+                targetUtilizationPercent: sizing.memoryTargetUtilizationPercent,
+                ...cooldowns,
+            });
+        }
+        // Streamlit keeps a websocket per session open, so the request count follows the sessions more closely than the CPU
+        if (sizing.requestsPerTarget !== undefined) {
+            scaling.scaleOnRequestCount(`${idPrefix}-RequestCountScaling`, {
+                requestsPerTarget: sizing.requestsPerTarget,
+                targetGroup,
+                ...cooldowns,
+            });
+        }
+
+        const { timeZone, schedules } = props.config.scaling;
+        for (const schedule of schedules) {
+            scaling.scaleOnSchedule(`${idPrefix}-${schedule.name}-ScheduledScaling`, {
+                schedule: appscaling.Schedule.expression(schedule.expression),
+                minCapacity: schedule.minCapacity,
+                maxCapacity: schedule.maxCapacity,
+            });
+        }
+        // the scheduled actions are rendered in the order they were added, the construct library has no time zone setting yet
+        const scalableTarget = scaling.node.findChild('Target').node.defaultChild as appscaling.CfnScalableTarget;
+        schedules.forEach((schedule, index) => {
+            scalableTarget.addPropertyOverride(`ScheduledActions.${index}.Timezone`, timeZone);
+        });
+    }
+}
+
+/**
+ * The capacity provider strategy of the services, undefined to launch them on on-demand Fargate.
+ */
+function createCapacityProviderStrategies(capacity: CapacityConfig): ecs.CapacityProviderStrategy[] | undefined {
+    if (capacity.mode === 'on-demand') {
+        return undefined;
+    }
+    return [
+        { capacityProvider: 'FARGATE', base: capacity.onDemandBase, weight: capacity.onDemandWeight },
+        { capacityProvider: 'FARGATE_SPOT', weight: capacity.spotWeight },
+    ];
+}
+
+/**
+ * Binds the requests of a session to one task and lets the websockets of leaving tasks drain.
+ */
+function configureSessions(targetGroup: elbv2.ApplicationTargetGroup, sessions: SessionsConfig): void {
+    targetGroup.setAttribute('deregistration_delay.timeout_seconds', String(sessions.deregistrationDelaySeconds));
+    if (sessions.stickiness !== 'none') {
+        targetGroup.enableCookieStickiness(cdk.Duration.seconds(sessions.stickinessDurationSeconds), sessions.cookieName);
+    }
+}
+
+/**
+ * The target group health check of an app, path routed apps answer below their path.
+ */
+function createHealthCheck(healthCheckConfig: HealthCheckConfig, app: StreamlitAppConfig): elbv2.HealthCheck {
+    return {
+        path: `${app.path ?? ''}${healthCheckConfig.path}`,
+        healthyHttpCodes: healthCheckConfig.healthyHttpCodes,
+        interval: cdk.Duration.seconds(healthCheckConfig.intervalSeconds),
+        timeout: cdk.Duration.seconds(healthCheckConfig.timeoutSeconds),
+        healthyThresholdCount: healthCheckConfig.healthyThresholdCount,
+        unhealthyThresholdCount: healthCheckConfig.unhealthyThresholdCount,
+    };
+}
+
+/**
+ * Imports the secrets and parameters referenced by the `container.secrets` configuration.
+ *
+ * The execution role is granted read access by ECS to inject the values at task start, the task role
+ * is granted read access as well so the app can fetch the current value at runtime. Both grants
+ * cover the referenced ARNs only.
+ *
+ * @param {Construct} scope - The stack importing the references.
+ * @param {string} idPrefix - Prefix of the construct ids.
+ * @param {ContainerConfig} container - The container settings of the environment.
+ * @param {iam.IRole} taskRole - The role of the Streamlit task.
+ * @returns {Record<string, ecs.Secret>} The container secrets, keyed by variable name.
+ */
+function createContainerSecrets(scope: Construct, idPrefix: string, container: ContainerConfig, taskRole: iam.IRole): Record<string, ecs.Secret> {
+    const secrets: Record<string, ecs.Secret> = {};
+    for (const [name, reference] of Object.entries(container.secrets)) {
+        if (reference.secretName) {
+            const secret = secretsmanager.Secret.fromSecretNameV2(scope, `${idPrefix}-${name}-Secret`, reference.secretName);
+            secret.grantRead(taskRole);
+            secrets[name] = ecs.Secret.fromSecretsManager(secret, reference.field);
+        } else if (reference.parameterName) {
+            const parameter = ssm.StringParameter.fromStringParameterName(scope, `${idPrefix}-${name}-Parameter`, reference.parameterName);
+            parameter.grantRead(taskRole);
+            secrets[name] = ecs.Secret.fromSsmParameter(parameter);
+        }
     }
+    return secrets;
 }
@@ -0,0 +1,58 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import { Construct } from 'constructs';
+import { EcrConfig } from '../config/StreamlitDeploymentConfig';
+
+/**
+ * Creates a repository owned by the stack of `scope`, with the configured scanning, tag mutability,
+ * encryption and lifecycle rules for image retention.
+ *
+ * The repository is created directly in `scope` under `id`, so its logical ID does not depend on this helper.
+ */
+export function createStreamlitRepository(scope: Construct, id: string, repositoryName: string, ecrConfig: EcrConfig): ecr.Repository {
+    const encryptionKey = ecrConfig.kmsEncryption ? new kms.Key(scope, `${id}-EncryptionKey`, {
+        description: `Encrypts the images of the ${repositoryName} repository.`,
+        enableKeyRotation: true,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+    }) : undefined;
+
+    const ecrRepository = new ecr.Repository(scope, id, {
+        repositoryName,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+        emptyOnDelete: true,
+        imageScanOnPush: ecrConfig.imageScanning === 'scan-on-push',
+        imageTagMutability: ecrConfig.immutableTags ? ecr.TagMutability.IMMUTABLE : ecr.TagMutability.MUTABLE,
+        encryption: encryptionKey ? ecr.RepositoryEncryption.KMS : ecr.RepositoryEncryption.AES_256,
+        encryptionKey,
+    });
+
+    const { lifecycle } = ecrConfig;
+    ecrRepository.addLifecycleRule({
+        description: `Expire untagged images after ${lifecycle.untaggedExpirationDays} days`,
+        tagStatus: ecr.TagStatus.UNTAGGED,
+        maxImageAge: cdk.Duration.days(lifecycle.untaggedExpirationDays),
+    });
+    if (lifecycle.releaseTagPrefixes.length > 0) {
+        ecrRepository.addLifecycleRule({
+            description: `Keep the last ${lifecycle.keepReleaseImages} release images`,
+            tagStatus: ecr.TagStatus.TAGGED,
+            tagPrefixList: lifecycle.releaseTagPrefixes,
+            maxImageCount: lifecycle.keepReleaseImages,
+        });
+    }
+    if (lifecycle.devTagPrefixes.length > 0) {
+        ecrRepository.addLifecycleRule({
+            description: `Expire development images after ${lifecycle.devImageExpirationDays} days`,
+            tagStatus: ecr.TagStatus.TAGGED,
+            tagPrefixList: lifecycle.devTagPrefixes,
+            maxImageAge: cdk.Duration.days(lifecycle.devImageExpirationDays),
+        });
+    }
+    ecrRepository.addLifecycleRule({
+        description: `Keep the last ${lifecycle.maxImageCount} other images`,
+        tagStatus: ecr.TagStatus.ANY,
+        maxImageCount: lifecycle.maxImageCount,
+    });
+    return ecrRepository;
+}
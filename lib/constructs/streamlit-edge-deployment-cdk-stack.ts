@@ -0,0 +1,76 @@
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import { Construct } from 'constructs';
+import { StreamlitEdgeStackProps } from './StreamlitEdgeStackProps';
+import { StreamlitWebAcl } from './streamlit-web-acl';
+import { StreamlitDeploymentConfig } from '../config/StreamlitDeploymentConfig';
+import { lookupHostedZone } from '../../utils/lookup-hosted-zone';
+import { resolveAppHosts } from '../config/app-config';
+
+/**
+ * The region CloudFront reads certificates and web ACLs from.
+ */
+export const EDGE_REGION = 'us-east-1';
+
+/**
+ * Whether the deployment needs resources in the edge region.
+ *
+ * @param {StreamlitDeploymentConfig} config - The configuration of the environment.
+ * @returns {boolean} True when an edge stack has to be deployed.
+ */
+export function requiresEdgeStack(config: StreamlitDeploymentConfig): boolean {
+    return config.domain !== undefined || config.waf.enabled;
+}
+
+/**
+ * Represents a CDK stack, deployed to us-east-1, for the resources a CloudFront distribution
+ * can only use from that region, like the certificate of its custom domain and its web ACL.
+ * The resources are consumed by the regional stacks through cross region references.
+ */
+export class StreamlitEdgeDeploymentCdkStack extends cdk.Stack {
+    /**
+     * The certificate of the custom domain, if one is configured.
+     */
+    public readonly certificate?: acm.ICertificate;
+    /**
+     * The web ACL of the distribution, if WAF is enabled.
+     */
+    public readonly webAcl?: wafv2.CfnWebACL;
+
+    constructor(scope: Construct, id: string, props: StreamlitEdgeStackProps) {
+        super(scope, id, props);
+
+        if (props.domain) {
+            const hostedZone = lookupHostedZone(this, `${props.appName}-${props.environment}-${props.platformString}-HostedZone`, props.domain);
+            const appHosts = resolveAppHosts(props.config.apps, props.deployRegion ?? this.region, props.platformString);
+            this.certificate = new acm.Certificate(this, `${props.appName}-${props.environment}-${props.platformString}-DistributionCertificate`, {
+                domainName: props.domain.domainName,
+                subjectAlternativeNames: appHosts.length > 0 ? appHosts : undefined,
+                validation: acm.CertificateValidation.fromDns(hostedZone),
+            });
+
+            new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-DistributionCertificateArn`, {
+                value: this.certificate.certificateArn,
+                description: `Certificate of ${props.domain.domainName} used by CloudFront.`,
+            });
+        }
+
+        if (props.config.waf.enabled) {
+            const { webAcl } = new StreamlitWebAcl(this, `${props.appName}-${props.environment}-${props.platformString}-StreamlitWebAcl`, {
+                waf: props.config.waf,
+                namePrefix: `${props.appName}-${props.environment}-${props.deployRegion}-${props.platformString}`,
+            });
+            this.webAcl = webAcl;
+
+            new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-WebAclArn`, {
+                value: webAcl.attrArn,
+                description: `Web ACL of the CloudFront distribution (${props.config.waf.mode} mode).`,
+            });
+            new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-WebAclId`, {
+                value: webAcl.attrId,
+                description: 'Id of the web ACL of the CloudFront distribution.',
+            });
+        }
+    }
+}
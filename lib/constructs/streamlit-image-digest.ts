@@ -0,0 +1,56 @@
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import { Construct } from 'constructs';
+
+export interface StreamlitImageDigestProps {
+    /**
+     * The repository holding the image.
+     */
+    readonly repository: ecr.IRepository;
+    /**
+     * The tag whose digest is looked up.
+     */
+    readonly tag: string;
+    /**
+     * Changes whenever a new image is pushed to the tag, e.g. the hash of its Docker image asset, so the digest is looked up again.
+     */
+    readonly sourceHash: string;
+}
+
+/**
+ * Looks up the digest an image tag points to at deploy time, so that a task definition can pin the
+ * image instead of following a mutable tag. Add the constructs pushing the image as dependencies.
+ */
+export class StreamlitImageDigest extends Construct {
+    /**
+     * The digest of the image, e.g. `sha256:...`.
+     */
+    public readonly digest: string;
+
+    constructor(scope: Construct, id: string, props: StreamlitImageDigestProps) {
+        super(scope, id);
+
+        const lookup = new cr.AwsCustomResource(this, 'Resource', {
+            onUpdate: {
+                service: 'ECR',
+                action: 'describeImages',
+                parameters: {
+                    repositoryName: props.repository.repositoryName,
+                    imageIds: [{ imageTag: props.tag }],
+                },
+                physicalResourceId: cr.PhysicalResourceId.of(`${props.tag}:${props.sourceHash}`),
+                outputPaths: ['imageDetails.0.imageDigest'],
+            },
+            policy: cr.AwsCustomResourcePolicy.fromStatements([
+                new iam.PolicyStatement({
+                    effect: iam.Effect.ALLOW,
+                    actions: ['ecr:DescribeImages'],
+                    resources: [props.repository.repositoryArn],
+                }),
+            ]),
+            installLatestAwsSdk: false,
+        });
+        this.digest = lookup.getResponseField('imageDetails.0.imageDigest');
+    }
+}
@@ -0,0 +1,142 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import { Construct } from 'constructs';
+
+/**
+ * Custom resource handler publishing a manifest list that references the per architecture images.
+ *
+ * The per architecture tags may point to an image manifest or, when the builder added attestations,
+ * to an image index; in that case the entry of the matching architecture is referenced. The list uses
+ * the OCI index media type as soon as one referenced manifest is an OCI manifest.
+ */
+const MANIFEST_LIST_HANDLER_CODE = `
+const ECR = require('@aws-sdk/client-ecr');
+const ecr = new ECR.ECRClient({});
+
+const DOCKER_MANIFEST = 'application/vnd.docker.distribution.manifest.v2+json';
+const DOCKER_MANIFEST_LIST = 'application/vnd.docker.distribution.manifest.list.v2+json';
+const OCI_MANIFEST = 'application/vnd.oci.image.manifest.v1+json';
+const OCI_INDEX = 'application/vnd.oci.image.index.v1+json';
+
+async function platformManifest(repositoryName, imageTag, architecture) {
+  const { images, failures } = await ecr.send(new ECR.BatchGetImageCommand({
+    repositoryName,
+    imageIds: [{ imageTag }],
+    acceptedMediaTypes: [DOCKER_MANIFEST, DOCKER_MANIFEST_LIST, OCI_MANIFEST, OCI_INDEX],
+  }));
+  if (!images || images.length === 0) {
+    throw new Error('Image ' + repositoryName + ':' + imageTag + ' not found: ' + JSON.stringify(failures));
+  }
+  const [image] = images;
+  const manifest = JSON.parse(image.imageManifest);
+  const mediaType = image.imageManifestMediaType || manifest.mediaType;
+  if (mediaType === DOCKER_MANIFEST_LIST || mediaType === OCI_INDEX) {
+    const entry = manifest.manifests.find(m => m.platform && m.platform.os === 'linux' && m.platform.architecture === architecture);
+    if (!entry) {
+      throw new Error('Image ' + repositoryName + ':' + imageTag + ' contains no linux/' + architecture + ' manifest');
+    }
+    return { mediaType: entry.mediaType, size: entry.size, digest: entry.digest, platform: { architecture, os: 'linux' } };
+  }
+  return {
+    mediaType,
+    size: Buffer.byteLength(image.imageManifest, 'utf8'),
+    digest: image.imageId.imageDigest,
+    platform: { architecture, os: 'linux' },
+  };
+}
+
+exports.handler = async (event) => {
+  const { RepositoryName, Tags, Images } = event.ResourceProperties;
+  const physicalResourceId = RepositoryName + ':' + Tags.join(',');
+  if (event.RequestType === 'Delete') {
+    return { PhysicalResourceId: physicalResourceId };
+  }
+  const manifests = [];
+  for (const { Tag, Architecture } of Images) {
+    manifests.push(await platformManifest(RepositoryName, Tag, Architecture));
+  }
+  const mediaType = manifests.some(m => m.mediaType === OCI_MANIFEST) ? OCI_INDEX : DOCKER_MANIFEST_LIST;
+  const imageManifest = JSON.stringify({ schemaVersion: 2, mediaType, manifests });
+  for (const imageTag of Tags) {
+    try {
+      await ecr.send(new ECR.PutImageCommand({ repositoryName: RepositoryName, imageTag, imageManifest, imageManifestMediaType: mediaType }));
+    } catch (err) {
+      // the tag already points to this very list
+      if (err.name !== 'ImageAlreadyExistsException') {
+        throw err;
+      }
+    }
+  }
+  return { PhysicalResourceId: physicalResourceId };
+};
+`;
+
+/**
+ * An image of one architecture the manifest list refers to.
+ */
+export interface StreamlitPlatformImage {
+    /**
+     * The tag of the image in the repository.
+     */
+    readonly tag: string;
+    /**
+     * The architecture as named in image manifests, e.g. `arm64` or `amd64`.
+     */
+    readonly architecture: string;
+    /**
+     * Changes whenever the image is rebuilt, e.g. the hash of its Docker image asset, so the list is republished.
+     */
+    readonly sourceHash: string;
+}
+
+export interface StreamlitImageManifestListProps {
+    /**
+     * The repository holding the per architecture images and the manifest list.
+     */
+    readonly repository: ecr.IRepository;
+    /**
+     * The per architecture images, pushed before the list is published.
+     */
+    readonly images: StreamlitPlatformImage[];
+    /**
+     * The tags the manifest list is published under.
+     */
+    readonly tags: string[];
+}
+
+/**
+ * Publishes a multi-architecture manifest list to ECR, so that a single tag serves the images of
+ * several architectures and Fargate pulls the one matching the task's runtime platform.
+ */
+export class StreamlitImageManifestList extends Construct {
+    constructor(scope: Construct, id: string, props: StreamlitImageManifestListProps) {
+        super(scope, id);
+
+        const handler = new lambda.Function(this, 'Handler', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.handler',
+            code: lambda.Code.fromInline(MANIFEST_LIST_HANDLER_CODE),
+            timeout: cdk.Duration.minutes(1),
+            description: `Publishes the multi-architecture manifest list of ${props.repository.repositoryName}.`,
+        });
+        handler.addToRolePolicy(new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['ecr:BatchGetImage', 'ecr:PutImage'],
+            resources: [props.repository.repositoryArn],
+        }));
+
+        const provider = new cr.Provider(this, 'Provider', { onEventHandler: handler });
+        new cdk.CustomResource(this, 'Resource', {
+            serviceToken: provider.serviceToken,
+            resourceType: 'Custom::StreamlitImageManifestList',
+            properties: {
+                RepositoryName: props.repository.repositoryName,
+                Tags: props.tags,
+                Images: props.images.map(image => ({ Tag: image.tag, Architecture: image.architecture, SourceHash: image.sourceHash })),
+            },
+        });
+    }
+}
@@ -0,0 +1,131 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kinesisfirehose from 'aws-cdk-lib/aws-kinesisfirehose';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { LoggingConfig } from '../config/StreamlitDeploymentConfig';
+
+export interface StreamlitLogGroupProps {
+    /**
+     * The logging settings of the environment.
+     */
+    readonly logging: LoggingConfig;
+    /**
+     * The name of the log group.
+     */
+    readonly logGroupName: string;
+}
+
+/**
+ * A log group with the configured retention, optionally encrypted with its own KMS key and
+ * archived to S3 through a Kinesis Data Firehose subscription.
+ */
+export class StreamlitLogGroup extends Construct {
+    public readonly logGroup: logs.LogGroup;
+    public readonly encryptionKey?: kms.Key;
+    public readonly archiveBucket?: s3.Bucket;
+
+    constructor(scope: Construct, id: string, props: StreamlitLogGroupProps) {
+        super(scope, id);
+
+        const { logging } = props;
+        const stack = cdk.Stack.of(this);
+        const logsPrincipal = new iam.ServicePrincipal(`logs.${stack.region}.amazonaws.com`);
+
+        if (logging.kmsEncryption) {
+            this.encryptionKey = new kms.Key(this, 'EncryptionKey', {
+                description: `Encrypts the ${props.logGroupName} log group.`,
+                enableKeyRotation: true,
+                removalPolicy: cdk.RemovalPolicy.DESTROY,
+            });
+            this.encryptionKey.addToResourcePolicy(new iam.PolicyStatement({
+                effect: iam.Effect.ALLOW,
+                principals: [logsPrincipal],
+                actions: ['kms:Encrypt*', 'kms:Decrypt*', 'kms:ReEncrypt*', 'kms:GenerateDataKey*', 'kms:Describe*'],
+                resources: ['*'],
+                conditions: {
+                    ArnEquals: {
+                        'kms:EncryptionContext:aws:logs:arn': stack.formatArn({
+                            service: 'logs',
+                            resource: 'log-group',
+                            resourceName: props.logGroupName,
+                            arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+                        }),
+                    },
+                },
+            }));
+        }
+
+        this.logGroup = new logs.LogGroup(this, 'LogGroup', {
+            logGroupName: props.logGroupName,
+            retention: logging.retentionDays as logs.RetentionDays,
+            encryptionKey: this.encryptionKey,
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+
+        if (logging.archiveToS3) {
+            this.archiveBucket = this.addArchive(logging, logsPrincipal);
+        }
+    }
+
+    /**
+     * Subscribes a Firehose delivery stream to the log group that writes all log events to a new bucket.
+     */
+    private addArchive(logging: LoggingConfig, logsPrincipal: iam.ServicePrincipal): s3.Bucket {
+        // the archive outlives the deployment
+        const bucket = new s3.Bucket(this, 'ArchiveBucket', {
+            encryption: s3.BucketEncryption.S3_MANAGED,
+            blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+            enforceSSL: true,
+            lifecycleRules: [{
+                transitions: [{ storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL, transitionAfter: cdk.Duration.days(90) }],
+                expiration: logging.archiveExpirationDays !== undefined ? cdk.Duration.days(logging.archiveExpirationDays) : undefined,
+            }],
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        const deliveryRole = new iam.Role(this, 'ArchiveDeliveryRole', {
+            assumedBy: new iam.ServicePrincipal('firehose.amazonaws.com'),
+        });
+        deliveryRole.addToPolicy(new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['s3:AbortMultipartUpload', 's3:GetBucketLocation', 's3:GetObject', 's3:ListBucket', 's3:ListBucketMultipartUploads', 's3:PutObject'],
+            resources: [bucket.bucketArn, bucket.arnForObjects('*')],
+        }));
+
+        const deliveryStream = new kinesisfirehose.CfnDeliveryStream(this, 'ArchiveDeliveryStream', {
+            deliveryStreamType: 'DirectPut',
+            deliveryStreamEncryptionConfigurationInput: { keyType: 'AWS_OWNED_CMK' },
+            extendedS3DestinationConfiguration: {
+                bucketArn: bucket.bucketArn,
+                roleArn: deliveryRole.roleArn,
+                prefix: 'logs/!{timestamp:yyyy/MM/dd}/',
+                errorOutputPrefix: 'errors/!{firehose:error-output-type}/!{timestamp:yyyy/MM/dd}/',
+                // CloudWatch Logs delivers gzip compressed records already
+                compressionFormat: 'UNCOMPRESSED',
+                bufferingHints: { intervalInSeconds: 300, sizeInMBs: 5 },
+            },
+        });
+        deliveryStream.node.addDependency(deliveryRole);
+
+        const subscriptionRole = new iam.Role(this, 'ArchiveSubscriptionRole', {
+            assumedBy: logsPrincipal,
+        });
+        subscriptionRole.addToPolicy(new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['firehose:PutRecord', 'firehose:PutRecordBatch'],
+            resources: [deliveryStream.attrArn],
+        }));
+
+        const subscriptionFilter = new logs.CfnSubscriptionFilter(this, 'ArchiveSubscriptionFilter', {
+            logGroupName: this.logGroup.logGroupName,
+            filterPattern: '',
+            destinationArn: deliveryStream.attrArn,
+            roleArn: subscriptionRole.roleArn,
+        });
+        subscriptionFilter.node.addDependency(subscriptionRole);
+        return bucket;
+    }
+}
@@ -0,0 +1,372 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatch_actions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as events_targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as sns_subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import { Construct } from 'constructs';
+import { StreamlitObservabilityStackProps } from './StreamlitObservabilityStackProps';
+import { scalesToZero } from '../config/scaling-config';
+
+/**
+ * Posts CloudWatch alarm notifications from SNS to a Slack incoming webhook, and other messages of the
+ * alarm topic, e.g. critical image findings, as they are.
+ */
+const SLACK_NOTIFIER_HANDLER_CODE = `
+const SecretsManager = require('@aws-sdk/client-secrets-manager');
+const sm = new SecretsManager.SecretsManagerClient({});
+let webhookUrl;
+
+exports.handler = async (event) => {
+  if (!webhookUrl) {
+    const { SecretString } = await sm.send(new SecretsManager.GetSecretValueCommand({ SecretId: process.env.WEBHOOK_SECRET_NAME }));
+    webhookUrl = SecretString.trim();
+  }
+  for (const record of event.Records) {
+    let alarm;
+    try {
+      alarm = JSON.parse(record.Sns.Message);
+    } catch (err) {
+      // not a CloudWatch alarm
+    }
+    let text;
+    if (alarm && alarm.AlarmName) {
+      const icon = alarm.NewStateValue === 'ALARM' ? ':red_circle:' : ':large_green_circle:';
+      text = icon + ' *' + alarm.AlarmName + '* is ' + alarm.NewStateValue + '\\n' + alarm.NewStateReason;
+    } else {
+      text = ':warning: ' + record.Sns.Message;
+    }
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ text }),
+    });
+    if (!response.ok) {
+      throw new Error('Slack answered ' + response.status);
+    }
+  }
+};
+`;
+
+/**
+ * CloudFront publishes its metrics in us-east-1 only, with the Region dimension set to Global.
+ */
+const CLOUDFRONT_METRICS_REGION = 'us-east-1';
+
+/**
+ * Represents a CDK stack monitoring a Streamlit deployment.
+ *
+ * It creates a CloudWatch dashboard covering CloudFront, the load balancer, the ECS services and the application logs,
+ * alarms with the thresholds configured for the environment, and an SNS topic the alarms notify,
+ * optionally forwarded to email addresses and a Slack webhook. The alarm ARNs are exported.
+ *
+ * CloudWatch alarms cannot watch metrics of other regions, so CloudFront is on the dashboard only.
+ */
+export class StreamlitObservabilityDeploymentCdkStack extends cdk.NestedStack {
+    public readonly alarmTopic: sns.Topic;
+    public readonly alarms: cloudwatch.Alarm[] = [];
+
+    constructor(scope: Construct, id: string, props: StreamlitObservabilityStackProps) {
+        super(scope, id, props);
+
+        const observability = props.config.observability;
+        const thresholds = observability.alarms;
+        const namePrefix = `${props.appName}-${props.environment}-${props.deployRegion}-${props.platformString}`;
+        const exportPrefix = `${props.appName}-${props.environment}-${props.platformString}`;
+        const period = cdk.Duration.minutes(1);
+        const { loadBalancer, services } = props;
+
+        this.alarmTopic = new sns.Topic(this, `${props.appName}-${props.environment}-${props.platformString}-AlarmTopic`, {
+            displayName: `Alarms of ${namePrefix}`,
+        });
+        this.alarmTopic.addToResourcePolicy(new iam.PolicyStatement({
+            sid: 'EnforceSecureTransport',
+            effect: iam.Effect.DENY,
+            principals: [new iam.AnyPrincipal()],
+            actions: ['sns:Publish'],
+            resources: [this.alarmTopic.topicArn],
+            conditions: { Bool: { 'aws:SecureTransport': 'false' } },
+        }));
+        for (const email of observability.alarmEmails) {
+            this.alarmTopic.addSubscription(new sns_subscriptions.EmailSubscription(email));
+        }
+        if (observability.slackWebhookSecretName) {
+            const slackNotifier = new lambda.Function(this, `${props.appName}-${props.environment}-${props.platformString}-SlackNotifier`, {
+                runtime: lambda.Runtime.NODEJS_20_X,
+                handler: 'index.handler',
+                code: lambda.Code.fromInline(SLACK_NOTIFIER_HANDLER_CODE),
+                timeout: cdk.Duration.seconds(30),
+                description: `Posts the alarms of ${namePrefix} to Slack.`,
+                environment: {
+                    WEBHOOK_SECRET_NAME: observability.slackWebhookSecretName,
+                },
+            });
+            secretsmanager.Secret.fromSecretNameV2(this, `${props.appName}-${props.environment}-${props.platformString}-SlackWebhookSecret`, observability.slackWebhookSecretName)
+                .grantRead(slackNotifier);
+            this.alarmTopic.addSubscription(new sns_subscriptions.LambdaSubscription(slackNotifier));
+        }
+
+        if (props.config.ecr.imageScanning !== 'none') {
+            this.addCriticalImageFindingsRule(props, namePrefix);
+        }
+
+        // load balancer metrics
+        const requestCount = loadBalancer.metrics.requestCount({ period });
+        const http5xxRate = new cloudwatch.MathExpression({
+            expression: '100 * (FILL(elb5xx, 0) + FILL(target5xx, 0)) / FILL(requests, 1)',
+            usingMetrics: {
+                elb5xx: loadBalancer.metrics.httpCodeElb(elbv2.HttpCodeElb.ELB_5XX_COUNT, { period }),
+                target5xx: loadBalancer.metrics.httpCodeTarget(elbv2.HttpCodeTarget.TARGET_5XX_COUNT, { period }),
+                requests: requestCount,
+            },
+            label: '5xx rate (%)',
+            period,
+        });
+        const responseTimeP95 = loadBalancer.metrics.targetResponseTime({ statistic: cloudwatch.Stats.p(95), period, label: 'p95' });
+        const responseTimeP50 = loadBalancer.metrics.targetResponseTime({ statistic: cloudwatch.Stats.p(50), period, label: 'p50' });
+        const healthyHostMetrics: Record<string, cloudwatch.IMetric> = {};
+        props.targetGroups.forEach((targetGroup, index) => {
+            healthyHostMetrics[`healthy${index}`] = targetGroup.metrics.healthyHostCount({ statistic: cloudwatch.Stats.MINIMUM, period });
+        });
+        const healthyHosts = new cloudwatch.MathExpression({
+            expression: Object.keys(healthyHostMetrics).map(name => `FILL(${name}, 0)`).join(' + '),
+            usingMetrics: healthyHostMetrics,
+            label: 'Healthy targets',
+            period,
+        });
+
+        // service metrics, the alarms watch the busiest service, the task counts show the auto scaling activity
+        const cpuUtilization = maxOfServices(services, 'cpu', 'CPU utilization', service => service.metricCpuUtilization({ period }));
+        const memoryUtilization = maxOfServices(services, 'memory', 'Memory utilization', service => service.metricMemoryUtilization({ period }));
+        const taskCountMetrics = (metricName: string) => services.map(service => new cloudwatch.Metric({
+            namespace: 'ECS/ContainerInsights',
+            metricName,
+            dimensionsMap: { ClusterName: service.cluster.clusterName, ServiceName: service.serviceName },
+            statistic: cloudwatch.Stats.AVERAGE,
+            period,
+        }));
+
+        // while a schedule stops every task no target can be healthy, the alarm only counts them while tasks are desired
+        let healthyHostsAlarmMetric = healthyHosts;
+        if (scalesToZero(props.config.scaling)) {
+            const desiredTaskMetrics: Record<string, cloudwatch.IMetric> = {};
+            taskCountMetrics('DesiredTaskCount').forEach((metric, index) => {
+                desiredTaskMetrics[`desired${index}`] = metric;
+            });
+            healthyHostsAlarmMetric = new cloudwatch.MathExpression({
+                expression: `IF(${Object.keys(desiredTaskMetrics).map(name => `FILL(${name}, 0)`).join(' + ')} > 0, ${healthyHosts.expression}, ${thresholds.minHealthyHosts})`,
+                usingMetrics: { ...healthyHostMetrics, ...desiredTaskMetrics },
+                label: 'Healthy targets',
+                period,
+            });
+        }
+
+        // CloudFront metrics
+        const distributionMetric = (metricName: string, statistic: string) => new cloudwatch.Metric({
+            namespace: 'AWS/CloudFront',
+            metricName,
+            dimensionsMap: { DistributionId: props.distribution.distributionId, Region: 'Global' },
+            region: CLOUDFRONT_METRICS_REGION,
+            statistic,
+            period,
+        });
+
+        this.addAlarm(props, 'Http5xxRate', http5xxRate, {
+            alarmDescription: `More than ${thresholds.http5xxRatePercent}% of the requests fail with a 5xx response.`,
+            threshold: thresholds.http5xxRatePercent,
+            comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+            treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        });
+        this.addAlarm(props, 'TargetResponseTime', responseTimeP95, {
+            alarmDescription: `The p95 response time is above ${thresholds.targetResponseTimeSeconds} seconds.`,
+            threshold: thresholds.targetResponseTimeSeconds,
+            comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+            treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        });
+        this.addAlarm(props, 'HealthyHosts', healthyHostsAlarmMetric, {
+            alarmDescription: `Fewer than ${thresholds.minHealthyHosts} targets are healthy.`,
+            threshold: thresholds.minHealthyHosts,
+            comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+            treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+        });
+        this.addAlarm(props, 'CpuUtilization', cpuUtilization, {
+            alarmDescription: `The CPU utilization of a service is above ${thresholds.cpuUtilizationPercent}%.`,
+            threshold: thresholds.cpuUtilizationPercent,
+            comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+            treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        });
+        this.addAlarm(props, 'MemoryUtilization', memoryUtilization, {
+            alarmDescription: `The memory utilization of a service is above ${thresholds.memoryUtilizationPercent}%.`,
+            threshold: thresholds.memoryUtilizationPercent,
+            comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+            treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        });
+
+        if (props.errorLogMetric) {
+            this.addAlarm(props, 'ErrorLogLines', props.errorLogMetric, {
+                alarmDescription: `The app logs more than ${thresholds.errorLogLines} error or exception lines per minute.`,
+                threshold: thresholds.errorLogLines,
+                comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+                treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+            });
+        }
+
+        const dashboard = new cloudwatch.Dashboard(this, `${props.appName}-${props.environment}-${props.platformString}-Dashboard`, {
+            dashboardName: namePrefix,
+            defaultInterval: cdk.Duration.hours(3),
+        });
+        dashboard.addWidgets(
+            new cloudwatch.GraphWidget({
+                title: 'CloudFront requests',
+                left: [distributionMetric('Requests', cloudwatch.Stats.SUM)],
+                width: 12,
+            }),
+            new cloudwatch.GraphWidget({
+                title: 'CloudFront error rates (%)',
+                left: [
+                    distributionMetric('4xxErrorRate', cloudwatch.Stats.AVERAGE),
+                    distributionMetric('5xxErrorRate', cloudwatch.Stats.AVERAGE),
+                    distributionMetric('TotalErrorRate', cloudwatch.Stats.AVERAGE),
+                ],
+                width: 12,
+            }),
+        );
+        dashboard.addWidgets(
+            new cloudwatch.GraphWidget({
+                title: 'Load balancer response time (s)',
+                left: [responseTimeP50, responseTimeP95],
+                width: 8,
+            }),
+            new cloudwatch.GraphWidget({
+                title: 'Load balancer requests and 5xx rate',
+                left: [requestCount],
+                right: [http5xxRate],
+                width: 8,
+            }),
+            new cloudwatch.GraphWidget({
+                title: 'Healthy targets',
+                left: [healthyHosts],
+                width: 8,
+            }),
+        );
+        dashboard.addWidgets(
+            new cloudwatch.GraphWidget({
+                title: 'Service CPU and memory utilization (%)',
+                left: [cpuUtilization, memoryUtilization],
+                leftYAxis: { min: 0, max: 100 },
+                width: 8,
+            }),
+            new cloudwatch.GraphWidget({
+                title: 'Task count (auto scaling)',
+                left: [...taskCountMetrics('DesiredTaskCount'), ...taskCountMetrics('RunningTaskCount'), ...taskCountMetrics('PendingTaskCount')],
+                width: 8,
+            }),
+            new cloudwatch.AlarmStatusWidget({
+                title: 'Alarms',
+                alarms: this.alarms,
+                width: 8,
+            }),
+        );
+        if (props.errorLogMetric) {
+            dashboard.addWidgets(new cloudwatch.GraphWidget({
+                title: 'Application error log lines',
+                left: [props.errorLogMetric],
+                width: 24,
+            }));
+        }
+
+        new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-AlarmTopicArn`, {
+            value: this.alarmTopic.topicArn,
+            description: 'SNS topic notified by the Streamlit alarms.',
+            exportName: `${exportPrefix}-AlarmTopicArn`,
+        });
+    }
+
+    /**
+     * Notifies the alarm topic of critical vulnerabilities found in the images of the apps, reported by
+     * basic scanning when an image is pushed or by Amazon Inspector with enhanced scanning.
+     */
+    private addCriticalImageFindingsRule(props: StreamlitObservabilityStackProps, namePrefix: string): void {
+        const repositoryNames = props.ecrRepositories.map(repository => repository.repositoryName);
+        const enhanced = props.config.ecr.imageScanning === 'enhanced';
+        const rule = new events.Rule(this, `${props.appName}-${props.environment}-${props.platformString}-CriticalImageFindingsRule`, {
+            description: `Notifies critical vulnerabilities in the images of ${namePrefix}.`,
+            eventPattern: enhanced ? {
+                source: ['aws.inspector2'],
+                detailType: ['Inspector2 Finding'],
+                detail: {
+                    severity: ['CRITICAL'],
+                    status: ['ACTIVE'],
+                    resources: { details: { awsEcrContainerImage: { repositoryName: repositoryNames } } },
+                },
+            } : {
+                source: ['aws.ecr'],
+                detailType: ['ECR Image Scan'],
+                detail: {
+                    'scan-status': ['COMPLETE'],
+                    'repository-name': repositoryNames,
+                    'finding-severity-counts': { CRITICAL: events.Match.greaterThan(0) },
+                },
+            },
+        });
+        const message = enhanced
+            ? `Critical vulnerability ${events.EventField.fromPath('$.detail.title')} found in an image of `
+                + `${events.EventField.fromPath('$.detail.resources[0].details.awsEcrContainerImage.repositoryName')} (${namePrefix}).`
+            : `${events.EventField.fromPath('$.detail.finding-severity-counts.CRITICAL')} critical vulnerabilities found in `
+                + `${events.EventField.fromPath('$.detail.repository-name')}@${events.EventField.fromPath('$.detail.image-digest')} (${namePrefix}).`;
+        rule.addTarget(new events_targets.SnsTopic(this.alarmTopic, { message: events.RuleTargetInput.fromText(message) }));
+    }
+
+    /**
+     * Creates an alarm notifying the alarm topic and exports its ARN.
+     */
+    private addAlarm(
+        props: StreamlitObservabilityStackProps, name: string, metric: cloudwatch.Metric | cloudwatch.MathExpression,
+        options: Omit<cloudwatch.CreateAlarmOptions, 'evaluationPeriods'>,
+    ): cloudwatch.Alarm {
+        const alarm = metric.createAlarm(this, `${props.appName}-${props.environment}-${props.platformString}-${name}Alarm`, {
+            alarmName: `${props.appName}-${props.environment}-${props.deployRegion}-${props.platformString}-${name}`,
+            evaluationPeriods: props.config.observability.alarms.evaluationPeriods,
+            ...options,
+        });
+        const action = new cloudwatch_actions.SnsAction(this.alarmTopic);
+        alarm.addAlarmAction(action);
+        alarm.addOkAction(action);
+        this.alarms.push(alarm);
+
+        new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.platformString}-${name}AlarmArn`, {
+            value: alarm.alarmArn,
+            description: options.alarmDescription,
+            exportName: `${props.appName}-${props.environment}-${props.platformString}-${name}AlarmArn`,
+        });
+        return alarm;
+    }
+}
+
+/**
+ * The metric of a single service, or the maximum of the metric across several services.
+ * The metric id prefix must be unique within the graphs the expression is shown on.
+ */
+function maxOfServices(
+    services: ecs.FargateService[], metricId: string, label: string, metric: (service: ecs.FargateService) => cloudwatch.Metric,
+): cloudwatch.Metric | cloudwatch.MathExpression {
+    if (services.length === 1) {
+        return metric(services[0]);
+    }
+    const usingMetrics: Record<string, cloudwatch.IMetric> = {};
+    services.forEach((service, index) => {
+        usingMetrics[`${metricId}${index}`] = metric(service);
+    });
+    return new cloudwatch.MathExpression({
+        expression: `MAX([${Object.keys(usingMetrics).join(', ')}])`,
+        usingMetrics,
+        label,
+        period: cdk.Duration.minutes(1),
+    });
+}
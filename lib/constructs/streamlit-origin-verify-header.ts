@@ -0,0 +1,235 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { IDistribution } from 'aws-cdk-lib/aws-cloudfront';
+import { Construct } from 'constructs';
+
+/**
+ * JSON key of the header value inside the secret.
+ */
+const HEADER_VALUE_KEY = 'HEADERVALUE';
+
+/**
+ * Secrets Manager rotation handler for the origin verification header.
+ *
+ * setSecret first lets the ALB rules accept both the current and the pending value and only then
+ * switches CloudFront to the pending value, so edge locations still sending the old value keep
+ * working while the distribution update propagates. The previous value stays accepted until the
+ * next rotation replaces it. The other conditions of the rules, like the path of an app, are kept.
+ */
+const ROTATION_HANDLER_CODE = `
+const SecretsManager = require('@aws-sdk/client-secrets-manager');
+const CloudFront = require('@aws-sdk/client-cloudfront');
+const ElasticLoadBalancingV2 = require('@aws-sdk/client-elastic-load-balancing-v2');
+const sm = new SecretsManager.SecretsManagerClient({});
+const cf = new CloudFront.CloudFrontClient({});
+const elb = new ElasticLoadBalancingV2.ElasticLoadBalancingV2Client({});
+const { HEADER_NAME, HEADER_VALUE_KEY, DISTRIBUTION_ID, LISTENER_RULE_ARNS } = process.env;
+
+async function headerValue(SecretId, VersionStage, VersionId) {
+  const { SecretString } = await sm.send(new SecretsManager.GetSecretValueCommand({ SecretId, VersionStage, VersionId }));
+  return JSON.parse(SecretString)[HEADER_VALUE_KEY];
+}
+
+exports.handler = async ({ SecretId, ClientRequestToken, Step }) => {
+  const { VersionIdsToStages: versions } = await sm.send(new SecretsManager.DescribeSecretCommand({ SecretId }));
+  if ((versions[ClientRequestToken] || []).includes('AWSCURRENT')) {
+    return;
+  }
+  if (Step === 'createSecret') {
+    try {
+      await headerValue(SecretId, 'AWSPENDING', ClientRequestToken);
+    } catch (err) {
+      const { RandomPassword } = await sm.send(new SecretsManager.GetRandomPasswordCommand({ PasswordLength: 32, ExcludePunctuation: true }));
+      await sm.send(new SecretsManager.PutSecretValueCommand({
+        SecretId, ClientRequestToken, VersionStages: ['AWSPENDING'],
+        SecretString: JSON.stringify({ [HEADER_VALUE_KEY]: RandomPassword }),
+      }));
+    }
+  } else if (Step === 'setSecret') {
+    const current = await headerValue(SecretId, 'AWSCURRENT');
+    const pending = await headerValue(SecretId, 'AWSPENDING', ClientRequestToken);
+    const { Rules } = await elb.send(new ElasticLoadBalancingV2.DescribeRulesCommand({ RuleArns: LISTENER_RULE_ARNS.split(',') }));
+    for (const rule of Rules) {
+      // Values is the legacy form of the path and host conditions and may not be sent together with their config
+      const Conditions = rule.Conditions.map(({ Values, ...condition }) =>
+        condition.Field === 'http-header' && condition.HttpHeaderConfig.HttpHeaderName === HEADER_NAME
+          ? { Field: 'http-header', HttpHeaderConfig: { HttpHeaderName: HEADER_NAME, Values: [pending, current] } }
+          : condition);
+      await elb.send(new ElasticLoadBalancingV2.ModifyRuleCommand({ RuleArn: rule.RuleArn, Conditions }));
+    }
+    const { DistributionConfig, ETag } = await cf.send(new CloudFront.GetDistributionConfigCommand({ Id: DISTRIBUTION_ID }));
+    for (const origin of DistributionConfig.Origins.Items) {
+      for (const header of (origin.CustomHeaders && origin.CustomHeaders.Items) || []) {
+        if (header.HeaderName === HEADER_NAME) {
+          header.HeaderValue = pending;
+        }
+      }
+    }
+    await cf.send(new CloudFront.UpdateDistributionCommand({ Id: DISTRIBUTION_ID, IfMatch: ETag, DistributionConfig }));
+  } else if (Step === 'finishSecret') {
+    const currentVersion = Object.keys(versions).find(version => versions[version].includes('AWSCURRENT'));
+    await sm.send(new SecretsManager.UpdateSecretVersionStageCommand({
+      SecretId, VersionStage: 'AWSCURRENT', MoveToVersionId: ClientRequestToken, RemoveFromVersionId: currentVersion,
+    }));
+  }
+};
+`;
+
+export interface StreamlitOriginVerifyHeaderProps {
+    /**
+     * The name of the header CloudFront adds to every origin request.
+     */
+    readonly headerName: string;
+    /**
+     * Rotate the header value every given number of days. No rotation when undefined.
+     */
+    readonly rotationDays?: number;
+}
+
+/**
+ * A secret backed header that CloudFront adds to origin requests and the ALB requires.
+ *
+ * Requests reaching the ALB listener without the header, i.e. requests bypassing CloudFront,
+ * are answered with a fixed 403 response.
+ */
+export class StreamlitOriginVerifyHeader extends Construct {
+    /**
+     * The secret holding the header value.
+     */
+    public readonly secret: secretsmanager.Secret;
+    /**
+     * The name of the header.
+     */
+    public readonly headerName: string;
+
+    private readonly rotationDays?: number;
+    private readonly listenerRules: elbv2.ApplicationListenerRule[] = [];
+
+    constructor(scope: Construct, id: string, props: StreamlitOriginVerifyHeaderProps) {
+        super(scope, id);
+
+        this.headerName = props.headerName;
+        this.rotationDays = props.rotationDays;
+        this.secret = new secretsmanager.Secret(this, 'HeaderValueSecret', {
+            description: `Value of the ${props.headerName} header CloudFront sends to the Streamlit load balancer.`,
+            generateSecretString: {
+                secretStringTemplate: '{}',
+                generateStringKey: HEADER_VALUE_KEY,
+                passwordLength: 32,
+                excludePunctuation: true,
+            },
+            removalPolicy: cdk.RemovalPolicy.DESTROY,
+        });
+    }
+
+    /**
+     * The current header value as a CloudFormation dynamic reference.
+     */
+    public get headerValue(): string {
+        return this.secret.secretValueFromJson(HEADER_VALUE_KEY).unsafeUnwrap();
+    }
+
+    /**
+     * Custom headers to pass to the CloudFront origin.
+     */
+    public get originCustomHeaders(): Record<string, string> {
+        return { [this.headerName]: this.headerValue };
+    }
+
+    /**
+     * Makes the listener run the given action only for requests carrying the header and answer 403 to everything else.
+     * The rule gets the lowest priority when the listener has further rules, e.g. for the routes of several apps.
+     */
+    public restrictListener(listener: elbv2.ApplicationListener, action: elbv2.ListenerAction, priority: number = 1): elbv2.ApplicationListenerRule {
+        this.denyDirectAccess(listener);
+        return this.addListenerRule('VerifiedOriginListenerRule', listener, priority, [], action);
+    }
+
+    /**
+     * Answers requests no listener rule matches with a fixed 403.
+     */
+    public denyDirectAccess(listener: elbv2.ApplicationListener): void {
+        listener.addAction('DenyDirectAccess', {
+            action: elbv2.ListenerAction.fixedResponse(403, {
+                contentType: 'text/plain',
+                messageBody: 'Access denied',
+            }),
+        });
+    }
+
+    /**
+     * Adds a listener rule that runs the action for requests matching the conditions and carrying the header.
+     * The header value of the rule is rotated together with the one of the distribution.
+     */
+    public addListenerRule(
+        id: string, listener: elbv2.ApplicationListener, priority: number,
+        conditions: elbv2.ListenerCondition[], action: elbv2.ListenerAction,
+    ): elbv2.ApplicationListenerRule {
+        const listenerRule = new elbv2.ApplicationListenerRule(this, id, {
+            listener,
+            priority,
+            conditions: [...conditions, elbv2.ListenerCondition.httpHeader(this.headerName, [this.headerValue])],
+            action,
+        });
+        this.listenerRules.push(listenerRule);
+        return listenerRule;
+    }
+
+    /**
+     * Schedules the rotation of the header value, updating the distribution and the listener rules.
+     * Does nothing when no rotation interval is configured.
+     */
+    public addRotation(distribution: IDistribution): void {
+        if (this.rotationDays === undefined) {
+            return;
+        }
+        if (this.listenerRules.length === 0) {
+            throw new Error('restrictListener() or addListenerRule() must be called before addRotation().');
+        }
+        const listenerRuleArns = this.listenerRules.map(listenerRule => listenerRule.listenerRuleArn);
+
+        const rotationFunction = new lambda.Function(this, 'RotationFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.handler',
+            code: lambda.Code.fromInline(ROTATION_HANDLER_CODE),
+            timeout: cdk.Duration.minutes(1),
+            description: `Rotates the ${this.headerName} origin verification header.`,
+            environment: {
+                HEADER_NAME: this.headerName,
+                HEADER_VALUE_KEY,
+                DISTRIBUTION_ID: distribution.distributionId,
+                LISTENER_RULE_ARNS: listenerRuleArns.join(','),
+            },
+        });
+
+        rotationFunction.addToRolePolicy(new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['cloudfront:GetDistributionConfig', 'cloudfront:UpdateDistribution'],
+            resources: [cdk.Stack.of(this).formatArn({
+                service: 'cloudfront',
+                region: '',
+                resource: 'distribution',
+                resourceName: distribution.distributionId,
+            })],
+        }));
+        rotationFunction.addToRolePolicy(new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['elasticloadbalancing:ModifyRule'],
+            resources: listenerRuleArns,
+        }));
+        // DescribeRules does not support resource level permissions
+        rotationFunction.addToRolePolicy(new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['elasticloadbalancing:DescribeRules'],
+            resources: ['*'],
+        }));
+
+        this.secret.addRotationSchedule('RotationSchedule', {
+            rotationLambda: rotationFunction,
+            automaticallyAfter: cdk.Duration.days(this.rotationDays),
+        });
+    }
+}
@@ -0,0 +1,102 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import { Construct } from 'constructs';
+import { CorsConfig, SecurityHeadersConfig } from '../config/StreamlitDeploymentConfig';
+
+export interface StreamlitResponseHeadersProps {
+    /**
+     * The name of the response headers policy, unique within the account.
+     */
+    readonly policyName: string;
+    readonly cors: CorsConfig;
+    readonly securityHeaders: SecurityHeadersConfig;
+}
+
+/**
+ * The CORS and security headers of the distribution: a response headers policy adding them to the
+ * responses of the apps, and a viewer request function answering CORS preflight requests at the edge.
+ */
+export class StreamlitResponseHeaders extends Construct {
+    public readonly policy: cloudfront.ResponseHeadersPolicy;
+    /**
+     * Associate with every behavior as viewer request function.
+     */
+    public readonly preflightFunction: cloudfront.Function;
+
+    constructor(scope: Construct, id: string, props: StreamlitResponseHeadersProps) {
+        super(scope, id);
+
+        const { cors, securityHeaders } = props;
+        this.policy = new cloudfront.ResponseHeadersPolicy(this, 'Policy', {
+            responseHeadersPolicyName: props.policyName,
+            comment: 'CORS and security headers of the Streamlit apps',
+            corsBehavior: {
+                accessControlAllowOrigins: cors.allowedOrigins,
+                accessControlAllowMethods: cors.allowedMethods,
+                accessControlAllowHeaders: cors.allowedHeaders,
+                accessControlAllowCredentials: cors.allowCredentials,
+                accessControlMaxAge: cdk.Duration.seconds(cors.maxAgeSeconds),
+                originOverride: true,
+            },
+            securityHeadersBehavior: {
+                strictTransportSecurity: securityHeaders.hstsMaxAgeSeconds > 0 ? {
+                    accessControlMaxAge: cdk.Duration.seconds(securityHeaders.hstsMaxAgeSeconds),
+                    includeSubdomains: securityHeaders.hstsIncludeSubdomains,
+                    preload: securityHeaders.hstsPreload,
+                    override: true,
+                } : undefined,
+                contentSecurityPolicy: securityHeaders.contentSecurityPolicy !== undefined
+                    ? { contentSecurityPolicy: securityHeaders.contentSecurityPolicy, override: true }
+                    : undefined,
+                frameOptions: securityHeaders.frameOptions !== 'none'
+                    ? { frameOption: securityHeaders.frameOptions as cloudfront.HeadersFrameOption, override: true }
+                    : undefined,
+                referrerPolicy: { referrerPolicy: securityHeaders.referrerPolicy as cloudfront.HeadersReferrerPolicy, override: true },
+                contentTypeOptions: { override: true },
+            },
+        });
+
+        this.preflightFunction = new cloudfront.Function(this, 'PreflightFunction', {
+            code: cloudfront.FunctionCode.fromInline(corsPreflightFunctionCode(cors)),
+            comment: 'Answers the CORS preflight requests of the Streamlit apps',
+        });
+    }
+}
+
+/**
+ * The code of the CloudFront Function answering CORS preflight requests with 204. Requests from
+ * origins that are not allowed get no CORS headers, so the browser rejects the actual request.
+ * Other requests pass unchanged. The code targets the ES 5.1 runtime of CloudFront Functions.
+ */
+export function corsPreflightFunctionCode(cors: CorsConfig): string {
+    const preflightHeaders: Record<string, string> = {
+        'access-control-allow-methods': cors.allowedMethods.join(', '),
+        'access-control-allow-headers': cors.allowedHeaders.join(', '),
+        'access-control-max-age': String(cors.maxAgeSeconds),
+        ...(cors.allowCredentials ? { 'access-control-allow-credentials': 'true' } : {}),
+    };
+    return `
+var ALLOWED_ORIGINS = ${JSON.stringify(cors.allowedOrigins)};
+var PREFLIGHT_HEADERS = ${JSON.stringify(preflightHeaders)};
+
+function handler(event) {
+    var request = event.request;
+    if (request.method !== 'OPTIONS') {
+        return request;
+    }
+    var origin = request.headers.origin ? request.headers.origin.value : undefined;
+    var allowedOrigin = ALLOWED_ORIGINS.indexOf('*') >= 0 ? '*' : ALLOWED_ORIGINS.indexOf(origin) >= 0 ? origin : undefined;
+    var headers = {};
+    if (allowedOrigin !== undefined) {
+        headers['access-control-allow-origin'] = { value: allowedOrigin };
+        if (allowedOrigin !== '*') {
+            headers['vary'] = { value: 'Origin' };
+        }
+        for (var name in PREFLIGHT_HEADERS) {
+            headers[name] = { value: PREFLIGHT_HEADERS[name] };
+        }
+    }
+    return { statusCode: 204, statusDescription: 'No Content', headers: headers };
+}
+`;
+}
@@ -4,32 +4,47 @@ import * as iam from 'aws-cdk-lib/aws-iam';
 import * as logs from 'aws-cdk-lib/aws-logs';
 import { Construct } from 'constructs';
 import { FlowLogTrafficType } from 'aws-cdk-lib/aws-ec2';
-import { RetentionDays } from 'aws-cdk-lib/aws-logs';
 import { StreamlitEcrStackProps } from './StreamlitEcrStackProps';
+import { StreamlitLogGroup } from './streamlit-log-group';
+import { resolveVpcCidr } from '../config/vpc-config';
 
 /**
  * Represents a CDK stack for deploying a VPC suitable for ECS deployments.
  * This stack creates a VPC with public and private subnets, NAT gateways,
- * and VPC flow logs for monitoring network traffic.
+ * and VPC flow logs for monitoring network traffic, or looks up an existing VPC.
  */
 export class StreamlitVpcDeploymentCdkStack extends cdk.NestedStack {
-    public readonly vpc: ec2.Vpc;
+    public readonly vpc: ec2.IVpc;
+    /**
+     * Resources in this security group may connect to the VPC interface endpoints, if endpoints are enabled.
+     */
+    public readonly endpointClientSecurityGroup?: ec2.SecurityGroup;
 
     constructor(scope: Construct, id: string, props: StreamlitEcrStackProps) {
         super(scope, id, props);
-        this.vpc = createVPC(this, props);
+        const lookup = props.config.vpc.lookup;
+        this.vpc = lookup
+            ? ec2.Vpc.fromLookup(this, `${props.appName}-${props.environment}-${props.deployRegion}-ImportedVPC`, {
+                vpcId: lookup.vpcId,
+                tags: Object.keys(lookup.tags).length > 0 ? lookup.tags : undefined,
+            })
+            : createVPC(this, props);
+        if (props.config.vpc.endpoints) {
+            this.endpointClientSecurityGroup = addVpcEndpoints(this, this.vpc, props);
+        }
 
         // print out vpc id
         new cdk.CfnOutput(this, `${props.appName}-${props.environment}-${props.deployRegion}-vpc-id`, {
             value: this.vpc.vpcId,
-            exportName: `${props.appName}-${props.environment}-${props.deployRegion}-vpc-id`,
+            exportName: `${props.appName}-${props.environment}-${props.deployRegion}-${props.platformString}-vpc-id`,
             description: `${props.appName}-${props.environment}-${props.deployRegion}-VPC ID.`,
         });
     }
 }
 
 /**
- * Creates a VPC with public and private subnets, NAT gateways, and VPC flow logs.
+ * Creates a VPC with public, private and isolated subnets, NAT gateways, and VPC flow logs,
+ * sized according to the `vpc` configuration.
  *
  * @param {cdk.Stack} stack - The parent CDK stack.
  * @param {StreamlitEcrStackProps} props - Properties for VPC creation.
@@ -37,41 +52,44 @@ export class StreamlitVpcDeploymentCdkStack extends cdk.NestedStack {
  */
 export function createVPC(stack: cdk.Stack, props: StreamlitEcrStackProps): ec2.Vpc {
     const vpcName = `${props.appName}-${props.environment}-${props.deployRegion}-VPC`;
+    const vpcConfig = props.config.vpc;
+    const subnetConfiguration: ec2.SubnetConfiguration[] = [
+        {
+            name: `${props.appName}-${props.environment}-Public`,
+            subnetType: ec2.SubnetType.PUBLIC,
+            cidrMask: vpcConfig.subnetCidrMasks.public,
+        },
+        {
+            name: `${props.appName}-${props.environment}-Isolated`,
+            subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+            cidrMask: vpcConfig.subnetCidrMasks.isolated,
+        },
+    ];
+    // private subnets route through the NAT gateways, without any there are only isolated subnets
+    if (vpcConfig.natGateways > 0) {
+        subnetConfiguration.splice(1, 0, {
+            name: `${props.appName}-${props.environment}-Private`,
+            subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+            cidrMask: vpcConfig.subnetCidrMasks.private,
+        });
+    }
     const vpc = new ec2.Vpc(stack, vpcName, {
-        ipAddresses: ec2.IpAddresses.cidr('10.0.0.0/16'), //IPs in Range - 65,536
-        natGateways: 1,
-        maxAzs: 3, // for high availability
-        subnetConfiguration: [
-            {
-                name: `${props.appName}-${props.environment}-Public`,
-                subnetType: ec2.SubnetType.PUBLIC,
-                cidrMask: 24, //IPs in Range - 256
-            },
-            {
-                name: `${props.appName}-${props.environment}-Private`,
-                subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
-                cidrMask: 24, //IPs in Range - 256
-            },
-            {
-                name: `${props.appName}-${props.environment}-Isolated`,
-                subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
-                cidrMask: 24, //IPs in Range - 256
-            },
-        ],
+        ipAddresses: ec2.IpAddresses.cidr(resolveVpcCidr(props.config, props.deployRegion, props.platformString)),
+        natGateways: vpcConfig.natGateways,
+        maxAzs: vpcConfig.maxAzs,
+        subnetConfiguration,
         vpcName,
     });
     vpc.applyRemovalPolicy(cdk.RemovalPolicy.DESTROY);
 
+    // the flow log destination grants the role write access to its log group only
     const vpcFlowLogRole = new iam.Role(stack, `${props.appName}-${props.environment}-RoleVpcFlowLogs`, {
         assumedBy: new iam.ServicePrincipal('vpc-flow-logs.amazonaws.com'),
-        managedPolicies: [
-            iam.ManagedPolicy.fromAwsManagedPolicyName('CloudWatchFullAccess'),
-        ],
     });
 
-    const vpcFlowLogGroup = new logs.LogGroup(stack, `${props.appName}-${props.environment}-VpcFlowLogGroup`, {
-        retention: RetentionDays.ONE_MONTH,
-        removalPolicy: cdk.RemovalPolicy.DESTROY,
+    const { logGroup: vpcFlowLogGroup } = new StreamlitLogGroup(stack, `${props.appName}-${props.environment}-VpcFlowLogs`, {
+        logging: props.config.logging,
+        logGroupName: `/streamlit/${props.appName}/${props.environment}/${props.platformString}/vpc-flow-logs`,
     });
 
     new logs.LogStream(stack, `${props.appName}-${props.environment}-VpcFlowLogStream`, {
@@ -87,3 +105,59 @@ export function createVPC(stack: cdk.Stack, props: StreamlitEcrStackProps): ec2.
 
     return vpc;
 }
+
+/**
+ * Interface endpoints the Fargate tasks need to run without internet access:
+ * pulling images, writing logs and reading secrets and parameters.
+ */
+const INTERFACE_ENDPOINT_SERVICES: Record<string, ec2.InterfaceVpcEndpointAwsService> = {
+    EcrApi: ec2.InterfaceVpcEndpointAwsService.ECR,
+    EcrDocker: ec2.InterfaceVpcEndpointAwsService.ECR_DOCKER,
+    Logs: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
+    SecretsManager: ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+    Ssm: ec2.InterfaceVpcEndpointAwsService.SSM,
+};
+
+/**
+ * Adds the S3 gateway endpoint, which serves the ECR image layers, and the interface endpoints
+ * to the subnets of the Fargate tasks. The interface endpoints only accept HTTPS connections
+ * from the returned client security group.
+ *
+ * @param {cdk.Stack} stack - The parent CDK stack.
+ * @param {ec2.IVpc} vpc - The VPC to add the endpoints to.
+ * @param {StreamlitEcrStackProps} props - Properties of the deployment.
+ * @returns {ec2.SecurityGroup} The security group of the endpoint clients.
+ */
+export function addVpcEndpoints(stack: cdk.Stack, vpc: ec2.IVpc, props: StreamlitEcrStackProps): ec2.SecurityGroup {
+    const subnets: ec2.SubnetSelection = {
+        subnetType: props.config.vpc.taskSubnetType === 'isolated' ? ec2.SubnetType.PRIVATE_ISOLATED : ec2.SubnetType.PRIVATE_WITH_EGRESS,
+    };
+
+    vpc.addGatewayEndpoint(`${props.appName}-${props.environment}-S3Endpoint`, {
+        service: ec2.GatewayVpcEndpointAwsService.S3,
+        subnets: [subnets],
+    });
+
+    const clientSecurityGroup = new ec2.SecurityGroup(stack, `${props.appName}-${props.environment}-EndpointClientSecGrp`, {
+        vpc,
+        description: 'Resources allowed to connect to the VPC interface endpoints.',
+        allowAllOutbound: true,
+    });
+    const endpointSecurityGroup = new ec2.SecurityGroup(stack, `${props.appName}-${props.environment}-EndpointSecGrp`, {
+        vpc,
+        description: 'VPC interface endpoints, HTTPS from the endpoint clients only.',
+        allowAllOutbound: false,
+    });
+    endpointSecurityGroup.addIngressRule(clientSecurityGroup, ec2.Port.tcp(443), 'HTTPS from the endpoint clients');
+
+    for (const [name, service] of Object.entries(INTERFACE_ENDPOINT_SERVICES)) {
+        vpc.addInterfaceEndpoint(`${props.appName}-${props.environment}-${name}Endpoint`, {
+            service,
+            subnets,
+            securityGroups: [endpointSecurityGroup],
+            privateDnsEnabled: true,
+            open: false,
+        });
+    }
+    return clientSecurityGroup;
+}
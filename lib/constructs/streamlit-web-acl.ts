@@ -0,0 +1,167 @@
+import * as cdk from 'aws-cdk-lib';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import { Construct } from 'constructs';
+import { WafConfig } from '../config/StreamlitDeploymentConfig';
+
+export interface StreamlitWebAclProps {
+    /**
+     * The WAF settings of the environment.
+     */
+    readonly waf: WafConfig;
+    /**
+     * Prefix of the web ACL, rule and metric names.
+     */
+    readonly namePrefix: string;
+}
+
+/**
+ * A CLOUDFRONT scope web ACL protecting the Streamlit distribution, must be created in us-east-1.
+ *
+ * Rules are evaluated in this order: allowed IP ranges, denied IP ranges, geo restriction,
+ * rate limit and finally the AWS managed rule groups. In `count` mode every rule only counts
+ * the requests it matches, which allows tuning the rules before blocking anything.
+ */
+export class StreamlitWebAcl extends Construct {
+    public readonly webAcl: wafv2.CfnWebACL;
+
+    private readonly props: StreamlitWebAclProps;
+    private readonly rules: wafv2.CfnWebACL.RuleProperty[] = [];
+
+    constructor(scope: Construct, id: string, props: StreamlitWebAclProps) {
+        super(scope, id);
+
+        this.props = props;
+        const { waf } = props;
+
+        if (waf.allowedIpCidrs.length > 0) {
+            this.addRule('AllowedIps', { allow: {} }, this.ipSetStatement('AllowedIps', waf.allowedIpCidrs));
+        }
+        if (waf.deniedIpCidrs.length > 0) {
+            this.addRule('DeniedIps', this.blockAction(), this.ipSetStatement('DeniedIps', waf.deniedIpCidrs));
+        }
+        if (waf.allowedCountries.length > 0) {
+            this.addRule('GeoRestriction', this.blockAction(), {
+                notStatement: { statement: { geoMatchStatement: { countryCodes: waf.allowedCountries } } },
+            });
+        } else if (waf.blockedCountries.length > 0) {
+            this.addRule('GeoRestriction', this.blockAction(), {
+                geoMatchStatement: { countryCodes: waf.blockedCountries },
+            });
+        }
+        if (waf.rateLimit !== undefined) {
+            this.addRule('RateLimit', this.blockAction(), {
+                rateBasedStatement: { limit: waf.rateLimit, aggregateKeyType: 'IP' },
+            });
+        }
+        for (const ruleGroup of waf.managedRuleGroups) {
+            this.rules.push({
+                name: ruleGroup,
+                priority: this.rules.length,
+                overrideAction: waf.mode === 'count' ? { count: {} } : { none: {} },
+                statement: { managedRuleGroupStatement: { vendorName: 'AWS', name: ruleGroup } },
+                visibilityConfig: this.visibilityConfig(ruleGroup),
+            });
+        }
+
+        this.webAcl = new wafv2.CfnWebACL(this, 'WebAcl', {
+            name: `${props.namePrefix}-WebAcl`,
+            description: `Protects the ${props.namePrefix} CloudFront distribution (${waf.mode} mode).`,
+            scope: 'CLOUDFRONT',
+            defaultAction: { allow: {} },
+            rules: this.rules,
+            visibilityConfig: this.visibilityConfig('WebAcl'),
+        });
+
+        this.addLogging();
+    }
+
+    private addRule(name: string, action: wafv2.CfnWebACL.RuleActionProperty, statement: wafv2.CfnWebACL.StatementProperty): void {
+        this.rules.push({
+            name,
+            priority: this.rules.length,
+            action,
+            statement,
+            visibilityConfig: this.visibilityConfig(name),
+        });
+    }
+
+    /**
+     * The action of the blocking rules, which only count in `count` mode.
+     */
+    private blockAction(): wafv2.CfnWebACL.RuleActionProperty {
+        return this.props.waf.mode === 'count' ? { count: {} } : { block: {} };
+    }
+
+    /**
+     * Matches the given CIDR ranges, split into an IPv4 and an IPv6 IP set as WAF requires.
+     */
+    private ipSetStatement(name: string, cidrs: string[]): wafv2.CfnWebACL.StatementProperty {
+        const statements: wafv2.CfnWebACL.StatementProperty[] = [];
+        for (const [ipAddressVersion, addresses] of [
+            ['IPV4', cidrs.filter(cidr => !cidr.includes(':'))],
+            ['IPV6', cidrs.filter(cidr => cidr.includes(':'))],
+        ] as const) {
+            if (addresses.length === 0) {
+                continue;
+            }
+            const ipSet = new wafv2.CfnIPSet(this, `${name}${ipAddressVersion}`, {
+                name: `${this.props.namePrefix}-${name}-${ipAddressVersion}`,
+                scope: 'CLOUDFRONT',
+                ipAddressVersion,
+                addresses,
+            });
+            statements.push({ ipSetReferenceStatement: { arn: ipSet.attrArn } });
+        }
+        return statements.length === 1 ? statements[0] : { orStatement: { statements } };
+    }
+
+    private visibilityConfig(name: string): wafv2.CfnWebACL.VisibilityConfigProperty {
+        return {
+            cloudWatchMetricsEnabled: true,
+            metricName: `${this.props.namePrefix}-${name}`,
+            sampledRequestsEnabled: true,
+        };
+    }
+
+    /**
+     * Sends the web ACL logs to a log group or bucket, whose names have to start with `aws-waf-logs-`.
+     */
+    private addLogging(): void {
+        const { waf } = this.props;
+        let logDestinationArn: string;
+        if (waf.logDestination === 'cloudwatch') {
+            const logGroup = new logs.LogGroup(this, 'LogGroup', {
+                logGroupName: `aws-waf-logs-${this.props.namePrefix}`,
+                retention: waf.logRetentionDays as logs.RetentionDays,
+                removalPolicy: cdk.RemovalPolicy.DESTROY,
+            });
+            // WAF expects the log group ARN without the trailing ':*' of `logGroupArn`.
+            logDestinationArn = cdk.Stack.of(this).formatArn({
+                service: 'logs',
+                resource: 'log-group',
+                resourceName: logGroup.logGroupName,
+                arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+            });
+        } else if (waf.logDestination === 's3') {
+            const bucket = new s3.Bucket(this, 'LogBucket', {
+                bucketName: `aws-waf-logs-${cdk.Names.uniqueResourceName(this, { maxLength: 50, separator: '-' }).toLowerCase()}`,
+                encryption: s3.BucketEncryption.S3_MANAGED,
+                blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+                enforceSSL: true,
+                lifecycleRules: [{ expiration: cdk.Duration.days(waf.logRetentionDays) }],
+                removalPolicy: cdk.RemovalPolicy.DESTROY,
+                autoDeleteObjects: true,
+            });
+            logDestinationArn = bucket.bucketArn;
+        } else {
+            return;
+        }
+
+        new wafv2.CfnLoggingConfiguration(this, 'LoggingConfiguration', {
+            resourceArn: this.webAcl.attrArn,
+            logDestinationConfigs: [logDestinationArn],
+        });
+    }
+}
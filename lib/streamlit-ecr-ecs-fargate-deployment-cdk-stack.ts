@@ -1,11 +1,12 @@
 import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
-import { IEnvTypes } from '../process-env-typed';
-import { StreamlitBaseStackProps } from './constructs/StreamlitBaseStackProps';
+import { StreamlitDeploymentStackProps } from './constructs/StreamlitDeploymentStackProps';
 import { StreamlitEcrStackProps } from './constructs/StreamlitEcrStackProps';
 import { StreamlitEcrDeploymentCdkStack } from './constructs/streamlit-ecr-deployment-cdk-stack';
 import { StreamlitVpcDeploymentCdkStack } from './constructs/streamlit-vpc-deployment-cdk-stack';
 import { StreamlitEcsStackProps } from './constructs/StreamlitEcsStackProps';
+import { resolveDomainConfig } from './config/domain-config';
+import { StreamlitObservabilityDeploymentCdkStack } from './constructs/streamlit-observability-deployment-cdk-stack';
 import { CdkFargateFrontWithVpcDeploymentStack as CdkFargateCloudFrontWithVpcDeploymentStack } from './constructs/streamlit-ecr-fargate-cloudfront-deployment-cdk-stack';
 
 /**
@@ -19,48 +20,62 @@ import { CdkFargateFrontWithVpcDeploymentStack as CdkFargateCloudFrontWithVpcDep
  * @extends cdk.Stack
  */
 export class CdkStreamlitFargateDeploymentStack extends cdk.Stack {
-    constructor(scope: Construct, id: string, props: StreamlitBaseStackProps) {
+    constructor(scope: Construct, id: string, props: StreamlitDeploymentStackProps) {
         super(scope, id, props);
 
-        const envTyped: IEnvTypes = {
-            ECR_REPOSITORY_NAME: process.env.ECR_REPOSITORY_NAME!,
-            APP_NAME: process.env.APP_NAME!,
-            IMAGE_VERSION: process.env.IMAGE_VERSION!,
-            PORT: process.env.PORT!,
-        };
+        const { config } = props;
 
         const ecrStackProps: StreamlitEcrStackProps = {
-            repositoryName: envTyped.ECR_REPOSITORY_NAME,
-            appName: envTyped.APP_NAME,
-            imageVersion: envTyped.IMAGE_VERSION,
+            repositoryName: config.repositoryName,
+            appName: config.appName,
+            imageVersion: config.imageVersion,
             environment: props.environment,
             deployRegion: props.deployRegion,
             platformString: props.platformString,
+            config,
         };
 
-        const ecrStack = new StreamlitEcrDeploymentCdkStack(this, `${envTyped.APP_NAME}-${props.environment}-${props.deployRegion}-StreamlitEcrDeploymentCdkStack`, {
+        const ecrStack = new StreamlitEcrDeploymentCdkStack(this, `${config.appName}-${props.environment}-${props.deployRegion}-StreamlitEcrDeploymentCdkStack`, {
             ...ecrStackProps,
-            stackName: `${envTyped.APP_NAME}-${props.environment}-${props.deployRegion}-StreamlitEcrDeploymentCdkStack`,
+            stackName: `${config.appName}-${props.environment}-${props.deployRegion}-StreamlitEcrDeploymentCdkStack`,
             description: `Streamlit ECR deployment stack for ${props.environment} environment in ${props.deployRegion} region.`,
         });
 
-        const vpcStack = new StreamlitVpcDeploymentCdkStack(this, `${envTyped.APP_NAME}-${props.environment}-${props.deployRegion}-StreamlitVpcDeploymentCdkStack`, {
+        const vpcStack = new StreamlitVpcDeploymentCdkStack(this, `${config.appName}-${props.environment}-${props.deployRegion}-StreamlitVpcDeploymentCdkStack`, {
             ...ecrStackProps,
-            stackName: `${envTyped.APP_NAME}-${props.environment}-${props.deployRegion}-StreamlitVpcDeploymentCdkStack`,
+            stackName: `${config.appName}-${props.environment}-${props.deployRegion}-StreamlitVpcDeploymentCdkStack`,
             description: `Streamlit VPC deployment stack for ${props.environment} environment in ${props.deployRegion} region.`,
         });
 
         const ecsStackProps: StreamlitEcsStackProps = {
             ...ecrStackProps,
-            containerPort: parseInt(envTyped.PORT),
-            ecrRepository: ecrStack.ecrRepository,
+            ecrRepositories: ecrStack.ecrRepositories,
+            imageReferences: ecrStack.imageReferences,
             vpc: vpcStack.vpc,
+            endpointClientSecurityGroup: vpcStack.endpointClientSecurityGroup,
+            domain: config.domain && resolveDomainConfig(config.domain, props.deployRegion ?? this.region, props.platformString),
+            edgeCertificate: props.edgeStack?.certificate,
+            webAclArn: props.edgeStack?.webAcl?.attrArn,
         };
 
-        new CdkFargateCloudFrontWithVpcDeploymentStack(this, `${envTyped.APP_NAME}-${props.environment}-${props.deployRegion}-CdkFargateCloudFrontWithVpcDeploymentStack`, {
+        const fargateStack = new CdkFargateCloudFrontWithVpcDeploymentStack(this, `${config.appName}-${props.environment}-${props.deployRegion}-CdkFargateCloudFrontWithVpcDeploymentStack`, {
             ...ecsStackProps,
-            stackName: `${envTyped.APP_NAME}-${props.environment}-${props.deployRegion}-CdkFargateCloudFrontWithVpcDeploymentStack`,
+            stackName: `${config.appName}-${props.environment}-${props.deployRegion}-CdkFargateCloudFrontWithVpcDeploymentStack`,
             description: `Streamlit App Runner deployment stack for ${props.environment} environment in ${props.deployRegion} region.`,
         });
+
+        if (config.observability.enabled) {
+            new StreamlitObservabilityDeploymentCdkStack(this, `${config.appName}-${props.environment}-${props.deployRegion}-StreamlitObservabilityDeploymentCdkStack`, {
+                ...ecrStackProps,
+                distribution: fargateStack.distribution,
+                loadBalancer: fargateStack.loadBalancer,
+                targetGroups: fargateStack.targetGroups,
+                services: fargateStack.services,
+                ecrRepositories: ecrStack.ecrRepositories,
+                errorLogMetric: fargateStack.errorLogMetric,
+                stackName: `${config.appName}-${props.environment}-${props.deployRegion}-StreamlitObservabilityDeploymentCdkStack`,
+                description: `Streamlit dashboard and alarms for ${props.environment} environment in ${props.deployRegion} region.`,
+            });
+        }
     }
 }
@@ -29,5 +29,9 @@ declare module NodeJS {
          * Port number on which the application will run.
          */
         PORT: string;
+        /**
+         * Directory holding the optional per-environment config files (defaults to "config").
+         */
+        CONFIG_DIR?: string;
     }
 }
@@ -0,0 +1,61 @@
+import * as cdk from 'aws-cdk-lib';
+import { AwsSolutionsChecks } from 'cdk-nag';
+import { synthStacks, synthVpcStack } from './stack-test-utils';
+
+/**
+ * Accepted AwsSolutions findings. A finding matches when its rule and the path of the offending
+ * construct match an entry; every other error level finding fails the test.
+ */
+const ACCEPTED_FINDINGS: { rule: RegExp; path: RegExp; reason: string }[] = [
+  { rule: /^AwsSolutions-VPC7$/, path: /\/TestVpc\//, reason: 'the VPC of the test fixture' },
+  { rule: /^AwsSolutions-EC23$/, path: /-Streamlit-ALB-SecGrp\//, reason: 'CloudFront reaches the load balancer from its public edge addresses' },
+  { rule: /^AwsSolutions-S1$/, path: /(\/ArchiveBucket|\/LogBucket|-AccessLogs\/Bucket)\//, reason: 'log buckets do not log access to themselves' },
+  { rule: /^AwsSolutions-SNS2$/, path: /-AlarmTopic\//, reason: 'alarm notifications carry no sensitive data' },
+  { rule: /^AwsSolutions-IAM4\[Policy::.*(AWSLambdaBasicExecutionRole|AWSCodeDeployRoleForECS)\]$/, path: /./, reason: 'AWS managed service role policies' },
+  { rule: /^AwsSolutions-L1$/, path: /\/AWS679f53fac002430cb0da5b7982bd2287\//, reason: 'the CDK managed AwsCustomResource function' },
+  { rule: /^AwsSolutions-IAM5\[Resource::\*\]$/, path: /-ecsTaskExecutionRole\//, reason: 'ecr:GetAuthorizationToken supports no resource level permissions' },
+  { rule: /^AwsSolutions-IAM5\[Resource::\*\]$/, path: /\/RotationFunction\//, reason: 'secretsmanager:GetRandomPassword and elasticloadbalancing:DescribeRules support no resource level permissions' },
+  { rule: /^AwsSolutions-IAM5\[Resource::<.*ArchiveBucket.*\.Arn>\/\*\]$/, path: /\/ArchiveDeliveryRole\//, reason: 'Firehose writes objects with generated keys' },
+  { rule: /^AwsSolutions-IAM5\[Resource::arn:aws:s3:::streamlit-data\/\*\]$/, path: /-ecsTaskRole\//, reason: 'configured by the test' },
+  { rule: /^AwsSolutions-COG[13]$/, path: /\/UserPool\//, reason: 'the password policy and advanced security are left to the account owner' },
+];
+
+/**
+ * Accepted only without a custom domain. With a domain the distribution has to use the certificate and an HTTPS origin.
+ */
+const NO_DOMAIN_FINDINGS: typeof ACCEPTED_FINDINGS = [
+  { rule: /^AwsSolutions-CFR[45]$/, path: /-StreamlitDistribution\//, reason: 'without a custom domain the default certificate and an HTTP origin are used' },
+];
+
+function unacceptedFindings(build: (app: cdk.App) => void, accepted: typeof ACCEPTED_FINDINGS = ACCEPTED_FINDINGS): string[] {
+  const app = new cdk.App();
+  cdk.Aspects.of(app).add(new AwsSolutionsChecks());
+  build(app);
+  return app.synth().stacks
+    .flatMap(stack => stack.messages)
+    .filter(message => message.level === 'error')
+    .map(message => ({ rule: String(message.entry.data).split(': ')[0], path: `${message.id}/` }))
+    .filter(({ rule, path }) => !accepted.some(finding => finding.rule.test(rule) && finding.path.test(path)))
+    .map(({ rule, path }) => `${rule} ${path}`);
+}
+
+test('the default deployment passes the AwsSolutions checks', () => {
+  expect(unacceptedFindings(app => synthStacks({}, app), [...ACCEPTED_FINDINGS, ...NO_DOMAIN_FINDINGS])).toEqual([]);
+  expect(unacceptedFindings(app => synthVpcStack({}, {}, app))).toEqual([]);
+});
+
+test('a deployment with every optional feature passes the AwsSolutions checks', () => {
+  expect(unacceptedFindings(app => synthStacks({
+    domain: { hostedZoneName: 'example.com', hostedZoneId: 'Z0123456789ABCDEFGHIJ', domainName: 'app.example.com' },
+    authentication: { mode: 'cognito' },
+    originProtection: { mode: 'custom-header', rotationDays: 30 },
+    waf: { enabled: true, logDestination: 's3' },
+    deployment: { strategy: 'blue-green', trafficShifting: 'canary' },
+    observability: { alarmEmails: ['ops@example.com'], slackWebhookSecretName: 'streamlit/slack-webhook' },
+    logging: { archiveToS3: true },
+    accessLogs: { athena: true, expirationDays: 365 },
+    container: { secrets: { API_KEY: { secretName: 'streamlit/api-key' }, DATABASE_URL: { parameterName: '/streamlit/database-url' } } },
+    taskRole: { policyStatements: { ReadData: { actions: ['s3:GetObject'], resources: ['arn:aws:s3:::streamlit-data/*'] } } },
+  }, app))).toEqual([]);
+  expect(unacceptedFindings(app => synthVpcStack({ vpc: { natGateways: 0, endpoints: true }, logging: { archiveToS3: true } }, {}, app))).toEqual([]);
+});
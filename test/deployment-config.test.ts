@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { DeploymentConfigError } from '../lib/config/config-reader';
+import { loadDeploymentConfigs } from '../lib/config/load-deployment-config';
+import { resolveSizingProfile } from '../lib/config/sizing-config';
+
+const baseEnv = {
+  APP_NAME: 'streamlit-app',
+  ECR_REPOSITORY_NAME: 'streamlit-repository',
+  PLATFORMS: 'LINUX_ARM64',
+  PORT: '8501',
+  CDK_DEPLOY_REGIONS: 'ap-southeast-1',
+};
+
+function load(env: Record<string, string>, context: Record<string, unknown> = {}, files: Record<string, string> = {}) {
+  const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'streamlit-config-'));
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(configDir, name), content);
+  }
+  return loadDeploymentConfigs(new cdk.App({ context }), {
+    env: { CONFIG_DIR: configDir, ...env },
+    dotenvPath: path.join(configDir, '.env'),
+  });
+}
+
+test('loads typed values from environment variables', () => {
+  const [config] = load(baseEnv);
+
+  expect(config).toMatchObject({
+    environment: 'dev',
+    account: undefined,
+    appName: 'streamlit-app',
+    regions: ['ap-southeast-1'],
+    platforms: ['LINUX_ARM64'],
+    repositoryName: 'streamlit-repository',
+    imageVersion: 'latest',
+    port: 8501,
+    sizing: { profile: 'medium', regionProfiles: {} },
+  });
+});
+
+test('merges environment file, process environment and context by precedence', () => {
+  const configs = load(
+    { ...baseEnv, ENVIRONMENTS: 'dev,prod' },
+    { port: '8080' },
+    { 'prod.yaml': 'regions: [us-east-1, eu-west-1]\nimageVersion: "1.2.0"\nport: 9000\n' },
+  );
+
+  expect(configs.map(c => [c.environment, c.regions, c.imageVersion, c.port])).toEqual([
+    ['dev', ['ap-southeast-1'], 'latest', 8080],
+    ['prod', ['ap-southeast-1'], '1.2.0', 8080],
+  ]);
+});
+
+test('prefers the environment file over the .env file', () => {
+  const configs = load(
+    { APP_NAME: 'streamlit-app', ENVIRONMENTS: 'dev,prod' },
+    {},
+    {
+      '.env': 'ECR_REPOSITORY_NAME=streamlit-repository\nPLATFORMS=LINUX_ARM64\nPORT=8501\nCDK_DEPLOY_REGIONS=ap-southeast-1\n',
+      'prod.yaml': 'regions: [us-east-1]\nport: 9000\n',
+    },
+  );
+
+  expect(configs.map(c => [c.environment, c.regions, c.port])).toEqual([
+    ['dev', ['ap-southeast-1'], 8501],
+    ['prod', ['us-east-1'], 9000],
+  ]);
+});
+
+test('reports every problem at once with its source', () => {
+  expect.assertions(4);
+  try {
+    load(
+      { ...baseEnv, PORT: 'abc', PLATFORMS: 'LINUX_ARM64,WINDOWS', ENVIRONMENTS: 'prod' },
+      { regions: 'app-south-east-1' },
+      { 'prod.json': '{ "imageVersion": "bad tag", "unknownSetting": true }' },
+    );
+  } catch (err) {
+    const issues = (err as DeploymentConfigError).issues.map(issue => `${issue.path} (${issue.source})`);
+    expect(err).toBeInstanceOf(DeploymentConfigError);
+    expect(issues).toEqual(expect.arrayContaining([
+      'port (process.env PORT)',
+      'platforms (process.env PLATFORMS)',
+      'regions (context regions)',
+      expect.stringMatching(/^imageVersion \(.*prod\.json imageVersion\)$/),
+      expect.stringMatching(/^unknownSetting \(.*prod\.json unknownSetting\)$/),
+    ]));
+    expect(issues).toHaveLength(5);
+    expect((err as Error).message).toContain(`must be a number but got "abc"`);
+  }
+});
+
+test('requires the mandatory settings', () => {
+  expect(() => load({})).toThrow(/appName \(not set\): is required/);
+});
+
+test('resolves sizing profiles per environment and region', () => {
+  const [dev, prod] = load(
+    { ...baseEnv, ENVIRONMENTS: 'dev,prod', CDK_DEPLOY_REGIONS: 'ap-southeast-1,us-east-1' },
+    {},
+    {
+      'dev.yaml': 'sizing:\n  profile: small\n',
+      'prod.yaml': [
+        'sizing:',
+        '  profile: large',
+        '  regionProfiles:',
+        '    us-east-1: xlarge',
+        '  profiles:',
+        '    xlarge: { cpu: 4096, memoryLimitMiB: 16384, minCapacity: 2, maxCapacity: 10 }',
+      ].join('\n'),
+    },
+  );
+
+  expect(resolveSizingProfile(dev, 'us-east-1')).toMatchObject({ cpu: 512, memoryLimitMiB: 1024 });
+  expect(resolveSizingProfile(prod, 'ap-southeast-1')).toMatchObject({ cpu: 2048, memoryLimitMiB: 4096, desiredCount: 2 });
+  expect(resolveSizingProfile(prod, 'us-east-1')).toEqual(expect.objectContaining({
+    cpu: 4096,
+    memoryLimitMiB: 16384,
+    desiredCount: 2,
+    minCapacity: 2,
+    maxCapacity: 10,
+  }));
+});
+
+test('rejects illegal Fargate cpu/memory combinations', () => {
+  expect(() => load(
+    { ...baseEnv, SIZING_PROFILE: 'tiny' },
+    { sizing: { profiles: { tiny: { cpu: 256, memoryLimitMiB: 4096 } } } },
+  )).toThrow(/sizing\.profiles\.tiny \(context sizing\.profiles\.tiny\): memory 4096 MiB is not valid with cpu 256 on LINUX_ARM64/);
+  expect(() => load(
+    { ...baseEnv, SIZING_PROFILE: 'tiny' },
+    { sizing: { profiles: { tiny: { cpu: 256, memoryLimitMiB: 1536 } } } },
+  )).toThrow(/sizing\.profiles\.tiny \(context sizing\.profiles\.tiny\): memory 1536 MiB is not valid with cpu 256 on LINUX_ARM64, use one of 512, 1024, 2048 MiB/);
+});
+
+test('requires region placeholders in domain names deployed to several regions', () => {
+  expect(() => load(
+    { ...baseEnv, CDK_DEPLOY_REGIONS: 'ap-southeast-1,us-east-1', HOSTED_ZONE_NAME: 'example.com', DOMAIN_NAME: 'app.dev.example.com' },
+  )).toThrow(/domain\.domainName \(process\.env DOMAIN_NAME\): must contain \{region\}/);
+});
@@ -0,0 +1,93 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { createStreamlitRepository } from '../lib/constructs/streamlit-ecr-repository';
+import { synthStacks, testConfig } from './stack-test-utils';
+
+function repositoryTemplate(context: Record<string, unknown>): Template {
+  const stack = new cdk.Stack(new cdk.App(), 'TestStack', { env: { account: '123456789012', region: 'ap-southeast-1' } });
+  createStreamlitRepository(stack, 'Repository', 'streamlit', testConfig(context).ecr);
+  return Template.fromStack(stack);
+}
+
+function lifecycleRules(template: Template): unknown[] {
+  const [repository] = Object.values(template.findResources('AWS::ECR::Repository'));
+  return JSON.parse(repository.Properties.LifecyclePolicy.LifecyclePolicyText).rules;
+}
+
+test('scans on push and keeps the previous lifecycle rules by default', () => {
+  const template = repositoryTemplate({});
+
+  template.hasResourceProperties('AWS::ECR::Repository', {
+    ImageScanningConfiguration: { ScanOnPush: true },
+    ImageTagMutability: 'MUTABLE',
+    EncryptionConfiguration: Match.absent(),
+  });
+  expect(lifecycleRules(template)).toEqual([
+    expect.objectContaining({ rulePriority: 1, selection: expect.objectContaining({ tagStatus: 'untagged', countType: 'sinceImagePushed', countNumber: 7 }) }),
+    expect.objectContaining({ rulePriority: 2, selection: expect.objectContaining({ tagStatus: 'any', countType: 'imageCountMoreThan', countNumber: 4 }) }),
+  ]);
+});
+
+test('keeps release images by tag prefix and expires development images', () => {
+  const template = repositoryTemplate({
+    ecr: { lifecycle: { releaseTagPrefixes: ['v', 'release-'], keepReleaseImages: 20, devTagPrefixes: 'dev-,pr-', devImageExpirationDays: 3, maxImageCount: 2 } },
+  });
+
+  expect(lifecycleRules(template)).toEqual([
+    expect.objectContaining({ rulePriority: 1, selection: expect.objectContaining({ tagStatus: 'untagged' }) }),
+    expect.objectContaining({
+      rulePriority: 2,
+      selection: { tagStatus: 'tagged', tagPrefixList: ['v', 'release-'], countType: 'imageCountMoreThan', countNumber: 20 },
+    }),
+    expect.objectContaining({
+      rulePriority: 3,
+      selection: { tagStatus: 'tagged', tagPrefixList: ['dev-', 'pr-'], countType: 'sinceImagePushed', countNumber: 3, countUnit: 'days' },
+    }),
+    expect.objectContaining({ rulePriority: 4, selection: expect.objectContaining({ tagStatus: 'any', countNumber: 2 }) }),
+  ]);
+});
+
+test('makes tags immutable and encrypts with a rotated KMS key', () => {
+  const template = repositoryTemplate({ ecr: { immutableTags: true, kmsEncryption: true, imageScanning: 'enhanced' }, imageVersion: '1.2.0' });
+
+  template.hasResourceProperties('AWS::ECR::Repository', {
+    ImageScanningConfiguration: { ScanOnPush: false },
+    ImageTagMutability: 'IMMUTABLE',
+    EncryptionConfiguration: { EncryptionType: 'KMS', KmsKey: { 'Fn::GetAtt': [Match.stringLikeRegexp('EncryptionKey'), 'Arn'] } },
+  });
+  template.hasResourceProperties('AWS::KMS::Key', { EnableKeyRotation: true });
+});
+
+test('rejects inconsistent image policies', () => {
+  expect(() => testConfig({ ecr: { immutableTags: true } }))
+    .toThrow(/imageVersion \(default imageVersion\): must be a version other than 'latest' because ecr\.immutableTags is true/);
+  expect(() => testConfig({ ecr: { lifecycle: { keepReleaseImages: 5 } } }))
+    .toThrow(/ecr\.lifecycle\.keepReleaseImages \(context ecr\.lifecycle\.keepReleaseImages\): requires releaseTagPrefixes/);
+  expect(() => testConfig({ ecr: { lifecycle: { releaseTagPrefixes: ['v'], devTagPrefixes: ['v-dev'] } } }))
+    .toThrow(/ecr\.lifecycle\.devTagPrefixes \(context ecr\.lifecycle\.devTagPrefixes\): 'v-dev' overlaps with the release tag prefixes v/);
+  expect(() => testConfig({ ecr: { repositoryMode: 'import', kmsEncryption: true } }))
+    .toThrow(/ecr\.kmsEncryption \(context ecr\.kmsEncryption\): only applies to created repositories but the repository mode is 'import'/);
+});
+
+test('notifies the alarm topic of critical image findings', () => {
+  const basic = synthStacks({}).observability!;
+  basic.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'source': ['aws.ecr'],
+      'detail-type': ['ECR Image Scan'],
+      'detail': {
+        'scan-status': ['COMPLETE'],
+        'repository-name': [Match.anyValue()],
+        'finding-severity-counts': { CRITICAL: [{ numeric: ['>', 0] }] },
+      },
+    },
+    Targets: [Match.objectLike({ Arn: { Ref: Match.stringLikeRegexp('AlarmTopic') } })],
+  });
+
+  const enhanced = synthStacks({ ecr: { imageScanning: 'enhanced' } }).observability!;
+  enhanced.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: Match.objectLike({ 'source': ['aws.inspector2'], 'detail-type': ['Inspector2 Finding'] }),
+  });
+
+  synthStacks({ ecr: { imageScanning: 'none' } }).observability!.resourceCountIs('AWS::Events::Rule', 0);
+});
@@ -0,0 +1,93 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import { Annotations, Match } from 'aws-cdk-lib/assertions';
+import { resolveRepositoryName } from '../lib/config/ecr-config';
+import { UniquePhysicalNamesCheck } from '../utils/unique-physical-names';
+import { testConfig } from './stack-test-utils';
+
+test('resolves the placeholders of the repository name per stack', () => {
+  const config = testConfig({ repositoryName: '{app}/{env}-{platform}-{region}' }, { APP_NAME: 'Streamlit-App' });
+
+  expect(resolveRepositoryName(config.repositoryName, {
+    appName: config.appName,
+    environment: config.environment,
+    platformString: 'arm',
+    region: 'ap-southeast-1',
+  })).toEqual('streamlit-app/dev-arm-ap-southeast-1');
+});
+
+test('requires the platform placeholder when deploying several platforms', () => {
+  expect(() => testConfig({}, { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' }))
+    .toThrow(/repositoryName \(process\.env ECR_REPOSITORY_NAME\): must contain \{platform\} because the environment is deployed for 2 platforms, each creating its repository/);
+  expect(() => testConfig({ ecr: { repositoryMode: 'import' } }, { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' }))
+    .toThrow(/must contain \{platform\} .* overwrite each other's image tags/);
+  expect(testConfig({ repositoryName: 'streamlit-{platform}' }, { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' }).repositoryName)
+    .toEqual('streamlit-{platform}');
+});
+
+test('rejects unknown placeholders and invalid names', () => {
+  expect(() => testConfig({ repositoryName: 'streamlit-{stage}' }))
+    .toThrow(/repositoryName \(context repositoryName\): only the placeholders \{app\}, \{env\}, \{platform\}, \{region\} are supported/);
+  expect(() => testConfig({ repositoryName: 'Streamlit_{env}' }))
+    .toThrow(/repositoryName \(context repositoryName\): 'Streamlit_\{env\}' is not a valid ECR repository name/);
+});
+
+describe('UniquePhysicalNamesCheck', () => {
+  function synthApp(...stacks: { region: string, repositoryName?: string, exportName?: string, cachePolicyName?: string, clusterName?: string }[]): cdk.Stack[] {
+    const app = new cdk.App();
+    cdk.Aspects.of(app).add(new UniquePhysicalNamesCheck());
+    return stacks.map((props, index) => {
+      const stack = new cdk.Stack(app, `Stack${index}`, { env: { account: '123456789012', region: props.region } });
+      if (props.repositoryName) {
+        new ecr.Repository(stack, 'Repository', { repositoryName: props.repositoryName });
+      }
+      if (props.exportName) {
+        new cdk.CfnOutput(stack, 'Output', { value: 'value', exportName: props.exportName });
+      }
+      if (props.cachePolicyName) {
+        new cloudfront.CachePolicy(stack, 'CachePolicy', { cachePolicyName: props.cachePolicyName });
+      }
+      if (props.clusterName) {
+        new ecs.CfnCluster(stack, 'Cluster', { clusterName: props.clusterName });
+      }
+      return stack;
+    });
+  }
+
+  test('rejects a repository name created by two stacks in the same region', () => {
+    const [, second] = synthApp({ region: 'ap-southeast-1', repositoryName: 'streamlit' }, { region: 'ap-southeast-1', repositoryName: 'streamlit' });
+
+    Annotations.fromStack(second).hasError('/Stack1/Repository/Resource', Match.stringLikeRegexp("ECR repository name 'streamlit' is already used by Stack0/Repository/Resource"));
+  });
+
+  test('rejects an export name used by two stacks in the same region', () => {
+    const [, second] = synthApp({ region: 'ap-southeast-1', exportName: 'streamlit-vpc-id' }, { region: 'ap-southeast-1', exportName: 'streamlit-vpc-id' });
+
+    Annotations.fromStack(second).hasError('/Stack1/Output', Match.stringLikeRegexp("export name 'streamlit-vpc-id' is already used"));
+  });
+
+  test('rejects an ECS cluster name created by two stacks in the same region', () => {
+    const [, second] = synthApp({ region: 'ap-southeast-1', clusterName: 'streamlit-app-dev-Cluster' }, { region: 'ap-southeast-1', clusterName: 'streamlit-app-dev-Cluster' });
+
+    Annotations.fromStack(second).hasError('/Stack1/Cluster', Match.stringLikeRegexp("ECS cluster name 'streamlit-app-dev-Cluster' is already used by Stack0/Cluster"));
+  });
+
+  test('rejects a CloudFront policy name used by two stacks in different regions', () => {
+    const [, second] = synthApp({ region: 'ap-southeast-1', cachePolicyName: 'streamlit' }, { region: 'ap-northeast-2', cachePolicyName: 'streamlit' });
+
+    Annotations.fromStack(second).hasError('/Stack1/CachePolicy/Resource', Match.stringLikeRegexp("CloudFront cache policy name 'streamlit' is already used by Stack0/CachePolicy/Resource in the same account\\.$"));
+  });
+
+  test('accepts the same names in different regions', () => {
+    const stacks = synthApp(
+      { region: 'ap-southeast-1', repositoryName: 'streamlit', exportName: 'streamlit-vpc-id', clusterName: 'streamlit' },
+      { region: 'ap-northeast-2', repositoryName: 'streamlit', exportName: 'streamlit-vpc-id', clusterName: 'streamlit' },
+    );
+
+    for (const stack of stacks) {
+      Annotations.fromStack(stack).hasNoError('*', Match.anyValue());
+    }
+  });
+});
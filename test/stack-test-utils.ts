@@ -0,0 +1,210 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { Template } from 'aws-cdk-lib/assertions';
+import { loadDeploymentConfigs } from '../lib/config/load-deployment-config';
+import { StreamlitDeploymentConfig } from '../lib/config/StreamlitDeploymentConfig';
+import { resolveDomainConfig } from '../lib/config/domain-config';
+import { CdkFargateFrontWithVpcDeploymentStack } from '../lib/constructs/streamlit-ecr-fargate-cloudfront-deployment-cdk-stack';
+import { StreamlitObservabilityDeploymentCdkStack } from '../lib/constructs/streamlit-observability-deployment-cdk-stack';
+import { StreamlitVpcDeploymentCdkStack } from '../lib/constructs/streamlit-vpc-deployment-cdk-stack';
+import { StreamlitEcrDeploymentCdkStack } from '../lib/constructs/streamlit-ecr-deployment-cdk-stack';
+import { AppImageReference } from '../lib/constructs/StreamlitEcsStackProps';
+import { EDGE_REGION, requiresEdgeStack, StreamlitEdgeDeploymentCdkStack } from '../lib/constructs/streamlit-edge-deployment-cdk-stack';
+
+export const TEST_REGION = 'ap-southeast-1';
+
+/**
+ * Resolves a deployment config for tests, `context` takes the same keys as `cdk.json` and `env` adds environment variables.
+ */
+export function testConfig(context: Record<string, unknown> = {}, env: Record<string, string> = {}): StreamlitDeploymentConfig {
+  const [config] = loadDeploymentConfigs(new cdk.App({ context }), {
+    env: {
+      APP_NAME: 'streamlit-app',
+      ECR_REPOSITORY_NAME: 'streamlit-repository',
+      PLATFORMS: 'LINUX_ARM64',
+      PORT: '8501',
+      CDK_DEPLOY_REGIONS: TEST_REGION,
+      CONFIG_DIR: path.join(__dirname, 'no-config-files'),
+      ...env,
+    },
+    dotenvPath: path.join(__dirname, 'no-config-files', '.env'),
+  });
+  return config;
+}
+
+export interface SynthesizedStacks {
+  readonly fargate: Template;
+  readonly edge?: Template;
+  readonly observability?: Template;
+}
+
+/**
+ * Synthesizes the Fargate/CloudFront nested stack inside a parent stack holding the VPC and repository,
+ * together with the us-east-1 edge stack and the observability stack when the configuration needs them.
+ * Pass `app` to add aspects before synthesis.
+ */
+export function synthStacks(context: Record<string, unknown> = {}, app: cdk.App = new cdk.App()): SynthesizedStacks {
+  const config = testConfig(context);
+  const account = '123456789012';
+  const domain = config.domain && resolveDomainConfig(config.domain, TEST_REGION, 'arm');
+  const baseProps = {
+    appName: config.appName,
+    environment: config.environment,
+    deployRegion: TEST_REGION,
+    platformString: 'arm',
+    config,
+  };
+
+  const edgeStack = requiresEdgeStack(config)
+    ? new StreamlitEdgeDeploymentCdkStack(app, 'TestEdgeStack', { ...baseProps, domain, env: { account, region: EDGE_REGION }, crossRegionReferences: true })
+    : undefined;
+  const parent = new cdk.Stack(app, 'TestParentStack', { env: { account, region: TEST_REGION }, crossRegionReferences: edgeStack !== undefined });
+  const vpc = testVpc(parent);
+  const endpointClientSecurityGroup = config.vpc.endpoints ? new ec2.SecurityGroup(parent, 'TestEndpointClientSecGrp', { vpc }) : undefined;
+  const ecrRepositories = config.apps.map((app, index) => new ecr.Repository(parent, index === 0 ? 'TestRepository' : `TestRepository${index}`));
+  // the images of the ECR stack are covered by `synthImageStacks`, the tasks here run the deployed tag
+  const imageReferences = config.apps.map((): AppImageReference => ({ tagOrDigest: config.imageVersion, isDigest: false }));
+
+  const stack = new CdkFargateFrontWithVpcDeploymentStack(parent, 'TestFargateStack', {
+    ...baseProps,
+    repositoryName: config.repositoryName,
+    imageVersion: config.imageVersion,
+    ecrRepositories,
+    imageReferences,
+    vpc,
+    endpointClientSecurityGroup,
+    domain,
+    edgeCertificate: edgeStack?.certificate,
+    webAclArn: edgeStack?.webAcl?.attrArn,
+  });
+  const observabilityStack = config.observability.enabled
+    ? new StreamlitObservabilityDeploymentCdkStack(parent, 'TestObservabilityStack', {
+      ...baseProps,
+      distribution: stack.distribution,
+      loadBalancer: stack.loadBalancer,
+      targetGroups: stack.targetGroups,
+      services: stack.services,
+      ecrRepositories,
+      errorLogMetric: stack.errorLogMetric,
+    })
+    : undefined;
+  return {
+    fargate: Template.fromStack(stack),
+    edge: edgeStack && Template.fromStack(edgeStack),
+    observability: observabilityStack && Template.fromStack(observabilityStack),
+  };
+}
+
+export interface SynthesizedImageStacks {
+  readonly ecr: Template;
+  readonly fargate: Template;
+}
+
+/**
+ * Synthesizes the ECR nested stack of `platformString` together with the Fargate/CloudFront nested stack
+ * running the images it references. The handler of cdk-ecr-deployment is built with Docker, so the
+ * tests package its sources unbuilt instead.
+ */
+export function synthImageStacks(
+  context: Record<string, unknown> = {}, env: Record<string, string> = {}, platformString = 'arm',
+): SynthesizedImageStacks {
+  const config = testConfig(context, env);
+  const noPrebuiltLambda = process.env.NO_PREBUILT_LAMBDA;
+  const dockerBuild = jest.spyOn(lambda.Code, 'fromDockerBuild').mockImplementation(sources => lambda.Code.fromAsset(sources));
+  process.env.NO_PREBUILT_LAMBDA = 'true';
+  try {
+    const parent = new cdk.Stack(new cdk.App(), 'TestParentStack', { env: { account: '123456789012', region: TEST_REGION } });
+    const baseProps = {
+      appName: config.appName,
+      environment: config.environment,
+      deployRegion: TEST_REGION,
+      platformString,
+      repositoryName: config.repositoryName,
+      imageVersion: config.imageVersion,
+      config,
+    };
+    const ecrStack = new StreamlitEcrDeploymentCdkStack(parent, 'TestEcrStack', baseProps);
+    const fargateStack = new CdkFargateFrontWithVpcDeploymentStack(parent, 'TestFargateStack', {
+      ...baseProps,
+      ecrRepositories: ecrStack.ecrRepositories,
+      imageReferences: ecrStack.imageReferences,
+      vpc: testVpc(parent),
+    });
+    return { ecr: Template.fromStack(ecrStack), fargate: Template.fromStack(fargateStack) };
+  } finally {
+    dockerBuild.mockRestore();
+    if (noPrebuiltLambda === undefined) {
+      delete process.env.NO_PREBUILT_LAMBDA;
+    } else {
+      process.env.NO_PREBUILT_LAMBDA = noPrebuiltLambda;
+    }
+  }
+}
+
+/**
+ * The parts of the image the first container of a synthesized Fargate stack runs, ending with its tag or digest.
+ */
+export function taskImageParts(template: Template): unknown[] {
+  const [taskDefinition] = Object.values(template.findResources('AWS::ECS::TaskDefinition'));
+  return taskDefinition.Properties.ContainerDefinitions[0].Image['Fn::Join'][1];
+}
+
+/**
+ * A VPC with the subnets of the VPC stack.
+ */
+function testVpc(parent: cdk.Stack): ec2.Vpc {
+  return new ec2.Vpc(parent, 'TestVpc', {
+    subnetConfiguration: [
+      { name: 'Public', subnetType: ec2.SubnetType.PUBLIC },
+      { name: 'Private', subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+      { name: 'Isolated', subnetType: ec2.SubnetType.PRIVATE_ISOLATED },
+    ],
+  });
+}
+
+/**
+ * Synthesizes the Fargate/CloudFront nested stack, see `synthStacks`.
+ */
+export function synthFargateStack(context: Record<string, unknown> = {}): Template {
+  return synthStacks(context).fargate;
+}
+
+/**
+ * A cache behavior of the synthesized distribution, with the properties the tests read by name.
+ */
+export interface CacheBehavior {
+  readonly PathPattern?: string;
+  readonly CachePolicyId?: unknown;
+  readonly OriginRequestPolicyId?: unknown;
+  readonly [property: string]: unknown;
+}
+
+/**
+ * The cache behaviors of the distribution in a synthesized Fargate stack, the default behavior first.
+ */
+export function cacheBehaviors(template: Template): CacheBehavior[] {
+  const [distribution] = Object.values(template.findResources('AWS::CloudFront::Distribution'));
+  const { DefaultCacheBehavior, CacheBehaviors } = distribution.Properties.DistributionConfig;
+  return [DefaultCacheBehavior, ...CacheBehaviors];
+}
+
+/**
+ * Synthesizes the VPC nested stack.
+ */
+export function synthVpcStack(context: Record<string, unknown> = {}, env: Record<string, string> = {}, app: cdk.App = new cdk.App()): Template {
+  const config = testConfig(context, env);
+  const parent = new cdk.Stack(app, 'TestParentStack', { env: { account: '123456789012', region: TEST_REGION } });
+  const stack = new StreamlitVpcDeploymentCdkStack(parent, 'TestVpcStack', {
+    appName: config.appName,
+    environment: config.environment,
+    deployRegion: TEST_REGION,
+    platformString: 'arm',
+    repositoryName: config.repositoryName,
+    imageVersion: config.imageVersion,
+    config,
+  });
+  return Template.fromStack(stack);
+}
@@ -0,0 +1,80 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, testConfig } from './stack-test-utils';
+
+const ALB_LOG_LINE = 'https 2024-03-01T10:00:00.123456Z app/streamlit/50dc6c495c0c9188 192.168.131.39:2817 10.0.0.1:8501 0.001 0.048 0.000 200 200 34 366 '
+  + '"GET https://app.example.com:443/_stcore/health HTTP/1.1" "Mozilla/5.0 (Windows NT 10.0)" ECDHE-RSA-AES128-GCM-SHA256 TLSv1.2 '
+  + 'arn:aws:elasticloadbalancing:ap-southeast-1:123456789012:targetgroup/streamlit/73e2d6bc24d8a067 "Root=1-58337262-36d228ad5d99923122bbe354" '
+  + '"app.example.com" "arn:aws:acm:ap-southeast-1:123456789012:certificate/12345678-1234-1234-1234-123456789012" 1 2024-03-01T10:00:00.075000Z '
+  + '"forward" "-" "-" "10.0.0.1:8501" "200" "-" "-" TID_1234abcd';
+
+test('writes the load balancer and distribution logs to a versioned, encrypted bucket by default', () => {
+  const template = synthFargateStack();
+
+  template.hasResource('AWS::S3::Bucket', {
+    DeletionPolicy: 'Retain',
+    Properties: Match.objectLike({
+      VersioningConfiguration: { Status: 'Enabled' },
+      BucketEncryption: { ServerSideEncryptionConfiguration: [{ ServerSideEncryptionByDefault: { SSEAlgorithm: 'AES256' } }] },
+      OwnershipControls: { Rules: [{ ObjectOwnership: 'BucketOwnerPreferred' }] },
+      LifecycleConfiguration: {
+        Rules: [Match.objectLike({
+          Transitions: [{ StorageClass: 'GLACIER_IR', TransitionInDays: 90 }],
+          ExpirationInDays: Match.absent(),
+          NoncurrentVersionExpiration: { NoncurrentDays: 30 },
+        })],
+      },
+    }),
+  });
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::LoadBalancer', {
+    LoadBalancerAttributes: Match.arrayWith([
+      { Key: 'access_logs.s3.enabled', Value: 'true' },
+      { Key: 'access_logs.s3.prefix', Value: 'dev/alb' },
+    ]),
+  });
+  template.hasResourceProperties('AWS::CloudFront::Distribution', {
+    DistributionConfig: Match.objectLike({ Logging: Match.objectLike({ Prefix: 'dev/cloudfront/' }) }),
+  });
+  template.resourceCountIs('AWS::Glue::Table', 0);
+});
+
+test('defines Athena tables over the logs', () => {
+  const template = synthFargateStack({ accessLogs: { athena: true, transitionDays: 30, expirationDays: 400 } });
+
+  template.hasResourceProperties('AWS::Glue::Database', { DatabaseInput: { Name: 'streamlit_app_dev_arm_access_logs' } });
+  template.hasResourceProperties('AWS::Athena::WorkGroup', {
+    Name: 'streamlit-app-dev-arm-access-logs',
+    WorkGroupConfiguration: Match.objectLike({
+      EnforceWorkGroupConfiguration: true,
+      ResultConfiguration: Match.objectLike({ EncryptionConfiguration: { EncryptionOption: 'SSE_S3' } }),
+    }),
+  });
+  template.hasResourceProperties('AWS::S3::Bucket', {
+    LifecycleConfiguration: { Rules: [Match.objectLike({ Transitions: [{ StorageClass: 'GLACIER_IR', TransitionInDays: 30 }], ExpirationInDays: 400 })] },
+  });
+
+  const [albTable] = Object.values(template.findResources('AWS::Glue::Table', {
+    Properties: { TableInput: Match.objectLike({ Name: 'alb_logs' }) },
+  }));
+  const { Columns, SerdeInfo } = albTable.Properties.TableInput.StorageDescriptor;
+  const match = new RegExp(`^${SerdeInfo.Parameters['input.regex']}$`).exec(ALB_LOG_LINE);
+  expect(match).not.toBeNull();
+  expect(match!.length - 1).toEqual(Columns.length);
+  const row = Object.fromEntries(Columns.map((column: { Name: string }, index: number) => [column.Name, match![index + 1]]));
+  expect(row).toMatchObject({ client_ip: '192.168.131.39', elb_status_code: '200', request_url: 'https://app.example.com:443/_stcore/health', conn_trace_id: 'TID_1234abcd' });
+});
+
+test('leaves logging off when disabled', () => {
+  const template = synthFargateStack({ accessLogs: { enabled: false } });
+
+  template.resourceCountIs('AWS::S3::Bucket', 0);
+  template.hasResourceProperties('AWS::CloudFront::Distribution', {
+    DistributionConfig: Match.objectLike({ Logging: Match.absent() }),
+  });
+});
+
+test('rejects inconsistent access log settings', () => {
+  expect(() => testConfig({ accessLogs: { enabled: false, athena: true } }))
+    .toThrow(/accessLogs\.athena \(context accessLogs\.athena\): requires accessLogs\.enabled to be true/);
+  expect(() => testConfig({ accessLogs: { transitionDays: 90, expirationDays: 30 } }))
+    .toThrow(/accessLogs\.expirationDays \(context accessLogs\.expirationDays\): must be greater than accessLogs\.transitionDays \(90\)/);
+});
@@ -0,0 +1,65 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, testConfig } from './stack-test-utils';
+
+const domain = {
+  hostedZoneName: 'example.com',
+  hostedZoneId: 'Z0123456789ABCDEFGHIJ',
+  domainName: 'app.dev.example.com',
+};
+
+test('authenticates with Cognito ahead of the forward action', () => {
+  const template = synthFargateStack({
+    domain,
+    authentication: { mode: 'cognito', allowedEmailDomains: ['example.com'], allowedGroups: ['analysts'] },
+  });
+
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    Protocol: 'HTTPS',
+    DefaultActions: [
+      Match.objectLike({ Type: 'authenticate-cognito', Order: 1 }),
+      Match.objectLike({ Type: 'forward', Order: 2 }),
+    ],
+  });
+  template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+    CallbackURLs: ['https://app.dev.example.com/oauth2/idpresponse'],
+    GenerateSecret: true,
+  });
+  template.hasResourceProperties('AWS::Cognito::UserPool', {
+    LambdaConfig: Match.objectLike({ PreSignUp: Match.anyValue(), PreTokenGeneration: Match.anyValue() }),
+  });
+  template.hasResourceProperties('AWS::Lambda::Function', {
+    Environment: { Variables: { ALLOWED_EMAIL_DOMAINS: '["example.com"]', ALLOWED_GROUPS: '["analysts"]' } },
+  });
+  template.hasResourceProperties('AWS::Cognito::UserPoolGroup', { GroupName: 'analysts' });
+});
+
+test('authenticates with an external OIDC provider behind the origin verification header', () => {
+  const template = synthFargateStack({
+    domain,
+    originProtection: { mode: 'custom-header' },
+    authentication: {
+      mode: 'oidc',
+      oidc: {
+        issuer: 'https://idp.example.com',
+        authorizationEndpoint: 'https://idp.example.com/authorize',
+        tokenEndpoint: 'https://idp.example.com/token',
+        userInfoEndpoint: 'https://idp.example.com/userinfo',
+        clientId: 'streamlit',
+        clientSecretName: 'streamlit/oidc-client-secret',
+      },
+    },
+  });
+
+  template.resourceCountIs('AWS::Cognito::UserPool', 0);
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+    Conditions: [Match.objectLike({ Field: 'http-header' })],
+    Actions: [
+      Match.objectLike({ Type: 'authenticate-oidc', AuthenticateOidcConfig: Match.objectLike({ Issuer: 'https://idp.example.com' }) }),
+      Match.objectLike({ Type: 'forward' }),
+    ],
+  });
+});
+
+test('requires a custom domain for authentication', () => {
+  expect(() => testConfig({ authentication: { mode: 'cognito' } })).toThrow(/authentication\.mode \(context authentication\.mode\): 'cognito' requires a custom domain/);
+});
@@ -0,0 +1,134 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, synthStacks, testConfig } from './stack-test-utils';
+
+const domain = {
+  hostedZoneName: 'example.com',
+  hostedZoneId: 'Z0123456789ABCDEFGHIJ',
+  domainName: 'app.dev.example.com',
+};
+
+const apps = {
+  home: {},
+  sales: { path: '/sales', port: 8502 },
+};
+
+test('deploys a task definition and service per app', () => {
+  const template = synthFargateStack({ apps });
+
+  template.resourceCountIs('AWS::ECS::Service', 2);
+  template.resourceCountIs('AWS::ECS::TaskDefinition', 2);
+  template.resourceCountIs('AWS::ElasticLoadBalancingV2::LoadBalancer', 1);
+  template.resourceCountIs('AWS::CloudFront::Distribution', 1);
+  template.hasResourceProperties('AWS::Logs::LogGroup', { LogGroupName: '/streamlit/streamlit-app/dev/arm/sales/application' });
+  template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ContainerDefinitions: [Match.objectLike({ PortMappings: [Match.objectLike({ ContainerPort: 8502 })] })],
+  });
+});
+
+test('routes path apps with a listener rule and sets their Streamlit base URL path', () => {
+  const template = synthFargateStack({ apps });
+
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+    Priority: 1,
+    Conditions: [{ Field: 'path-pattern', PathPatternConfig: { Values: ['/sales', '/sales/*'] } }],
+    Actions: [Match.objectLike({ Type: 'forward' })],
+  });
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+    Port: 8502,
+    HealthCheckPath: '/sales/_stcore/health',
+  });
+  template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ContainerDefinitions: [Match.objectLike({
+      Environment: Match.arrayWith([{ Name: 'STREAMLIT_SERVER_BASE_URL_PATH', Value: 'sales' }]),
+    })],
+  });
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    DefaultActions: [Match.objectLike({ Type: 'forward' })],
+  });
+});
+
+test('routes host apps and adds their host to the certificates and the distribution', () => {
+  const { fargate, edge } = synthStacks({ domain, apps: { home: {}, admin: { host: 'admin.dev.example.com' } } });
+
+  fargate.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+    Conditions: [{ Field: 'host-header', HostHeaderConfig: { Values: ['admin.dev.example.com'] } }],
+  });
+  edge!.hasResourceProperties('AWS::CertificateManager::Certificate', {
+    DomainName: 'app.dev.example.com',
+    SubjectAlternativeNames: ['admin.dev.example.com'],
+  });
+  fargate.hasResourceProperties('AWS::CloudFront::Distribution', {
+    DistributionConfig: Match.objectLike({ Aliases: ['app.dev.example.com', 'admin.dev.example.com'] }),
+  });
+  fargate.resourcePropertiesCountIs('AWS::Route53::RecordSet', { Name: 'admin.dev.example.com.' }, 2);
+});
+
+test('keeps the header condition on the app rules with origin protection', () => {
+  const template = synthFargateStack({ apps, originProtection: { mode: 'custom-header', headerName: 'X-Origin-Verify' } });
+
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+    Priority: 1,
+    Conditions: [
+      { Field: 'path-pattern', PathPatternConfig: { Values: ['/sales', '/sales/*'] } },
+      Match.objectLike({ Field: 'http-header', HttpHeaderConfig: Match.objectLike({ HttpHeaderName: 'X-Origin-Verify' }) }),
+    ],
+  });
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+    Priority: 2,
+    Conditions: [Match.objectLike({ Field: 'http-header' })],
+  });
+});
+
+test('answers 404 when every app is routed', () => {
+  const template = synthFargateStack({ apps: { sales: { path: '/sales' }, hr: { path: '/hr' } } });
+
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    DefaultActions: [{ Type: 'fixed-response', FixedResponseConfig: Match.objectLike({ StatusCode: '404' }) }],
+  });
+  template.resourceCountIs('AWS::ElasticLoadBalancingV2::ListenerRule', 2);
+});
+
+test('defaults the repository of manifest apps to the environment repository with the app id', () => {
+  const config = testConfig({ apps });
+
+  expect(config.apps.map(app => app.repositoryName)).toEqual(['streamlit-repository-home', 'streamlit-repository-sales']);
+  expect(config.apps.map(app => app.sourceDirectory)).toEqual(['coreservices', 'coreservices']);
+});
+
+test('deploys the app without a manifest with its previous settings', () => {
+  const config = testConfig();
+
+  expect(config.apps).toEqual([{
+    repositoryName: 'streamlit-repository',
+    sourceDirectory: 'coreservices',
+    dockerfile: 'Dockerfile',
+    port: 8501,
+    image: expect.objectContaining({ source: 'build', cache: false }),
+  }]);
+});
+
+test('rejects invalid app manifests', () => {
+  expect(() => testConfig({
+    apps: {
+      Home: {},
+      one: { sourceDirectory: 'missing' },
+      two: { path: 'sales/' },
+      three: { host: 'three.example.com' },
+      four: { path: '/four', host: 'four.example.com' },
+      five: { path: '/five' },
+      six: { path: '/five' },
+    },
+  })).toThrow(new RegExp([
+    /apps\.Home \(context apps\.Home\): 'Home' is not a valid app id/,
+    /apps\.one\.sourceDirectory \(context apps\.one\.sourceDirectory\): 'missing' does not contain the Dockerfile 'Dockerfile'/,
+    /apps\.two\.path \(context apps\.two\.path\): .*a URL path like '\/sales'/,
+    /apps\.three\.host \(context apps\.three\.host\): requires a custom domain/,
+    /apps\.four\.path \(context apps\.four\.path\): cannot be combined with host/,
+    /apps\.six \(context apps\.six\): routes \/five like apps\.five already does/,
+  ].map(pattern => pattern.source).join('[\\s\\S]*')));
+});
+
+test('rejects blue/green deployments of several apps', () => {
+  expect(() => testConfig({ apps, deployment: { strategy: 'blue-green' } }))
+    .toThrow(/deployment\.strategy .*: 'blue-green' is only supported with a single app/);
+});
@@ -0,0 +1,43 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, testConfig } from './stack-test-utils';
+
+test('enables the deployment circuit breaker with rollback in rolling mode', () => {
+  const template = synthFargateStack();
+
+  template.hasResourceProperties('AWS::ECS::Service', {
+    DeploymentController: { Type: 'ECS' },
+    DeploymentConfiguration: Match.objectLike({ DeploymentCircuitBreaker: { Enable: true, Rollback: true } }),
+  });
+  template.resourceCountIs('AWS::CodeDeploy::DeploymentGroup', 0);
+});
+
+test('deploys blue/green with CodeDeploy, a test listener and alarm based rollback', () => {
+  const template = synthFargateStack({
+    deployment: { strategy: 'blue-green', trafficShifting: 'canary', trafficShiftPercentage: 20, trafficShiftIntervalMinutes: 10 },
+  });
+
+  template.hasResourceProperties('AWS::ECS::Service', { DeploymentController: { Type: 'CODE_DEPLOY' } });
+  template.resourceCountIs('AWS::ElasticLoadBalancingV2::TargetGroup', 2);
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', { Port: 9000, Protocol: 'HTTP' });
+  template.hasResourceProperties('AWS::CodeDeploy::DeploymentConfig', {
+    ComputePlatform: 'ECS',
+    TrafficRoutingConfig: {
+      Type: 'TimeBasedCanary',
+      TimeBasedCanary: { CanaryInterval: 10, CanaryPercentage: 20 },
+    },
+  });
+  template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+    DeploymentStyle: { DeploymentOption: 'WITH_TRAFFIC_CONTROL', DeploymentType: 'BLUE_GREEN' },
+    AlarmConfiguration: Match.objectLike({ Enabled: true, Alarms: [Match.anyValue(), Match.anyValue()] }),
+    AutoRollbackConfiguration: {
+      Enabled: true,
+      Events: Match.arrayWith(['DEPLOYMENT_FAILURE', 'DEPLOYMENT_STOP_ON_REQUEST', 'DEPLOYMENT_STOP_ON_ALARM']),
+    },
+  });
+  template.resourceCountIs('Custom::AWS', 1);
+});
+
+test('rejects a test listener on a production port', () => {
+  expect(() => testConfig({ deployment: { strategy: 'blue-green', testListenerPort: 443 } }))
+    .toThrow(/deployment\.testListenerPort \(context deployment\.testListenerPort\): must not be one of the production listener ports/);
+});
@@ -0,0 +1,39 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, testConfig } from './stack-test-utils';
+
+test('runs the services on on-demand Fargate by default', () => {
+  const template = synthFargateStack();
+
+  template.hasResourceProperties('AWS::ECS::Cluster', { ClusterName: 'streamlit-app-dev-arm-Cluster' });
+  template.resourceCountIs('AWS::ECS::ClusterCapacityProviderAssociations', 0);
+  template.hasResourceProperties('AWS::ECS::Service', { LaunchType: 'FARGATE', CapacityProviderStrategy: Match.absent() });
+});
+
+test('mixes Fargate Spot into the capacity provider strategy of every service', () => {
+  const template = synthFargateStack({
+    capacity: { mode: 'spot-mix', onDemandBase: 2, spotWeight: 4 },
+    apps: { home: {}, sales: { path: '/sales' } },
+  });
+
+  template.hasResourceProperties('AWS::ECS::ClusterCapacityProviderAssociations', {
+    CapacityProviders: ['FARGATE', 'FARGATE_SPOT'],
+  });
+  const services = Object.values(template.findResources('AWS::ECS::Service'));
+  expect(services).toHaveLength(2);
+  for (const service of services) {
+    expect(service.Properties.LaunchType).toBeUndefined();
+    expect(service.Properties.CapacityProviderStrategy).toEqual([
+      { CapacityProvider: 'FARGATE', Base: 2, Weight: 1 },
+      { CapacityProvider: 'FARGATE_SPOT', Weight: 4 },
+    ]);
+  }
+});
+
+test('rejects spot settings that cannot apply', () => {
+  expect(() => testConfig({ capacity: { spotWeight: 2 } }))
+    .toThrow(/capacity\.spotWeight \(context capacity\.spotWeight\): only applies with mode 'spot-mix' but the mode is 'on-demand'/);
+  expect(() => testConfig({ capacity: { mode: 'spot-mix', onDemandWeight: 0, spotWeight: 0 } }))
+    .toThrow(/capacity\.spotWeight \(context capacity\.spotWeight\): must be greater than 0 when capacity\.onDemandWeight is 0/);
+  expect(() => testConfig({ capacity: { mode: 'spot-mix' }, deployment: { strategy: 'blue-green' } }))
+    .toThrow(/capacity\.mode \(context capacity\.mode\): 'spot-mix' is not supported with the deployment strategy 'blue-green'/);
+});
@@ -0,0 +1,41 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { cacheBehaviors, synthFargateStack, testConfig } from './stack-test-utils';
+
+const CACHING_DISABLED_POLICY_ID = '4135ea2d-6df8-44a3-9df3-4b5a84be39ad';
+
+test('caches the static assets and media but neither the pages nor the websocket', () => {
+  const template = synthFargateStack();
+
+  expect(cacheBehaviors(template)).toEqual([
+    expect.objectContaining({ CachePolicyId: CACHING_DISABLED_POLICY_ID }),
+    expect.objectContaining({ PathPattern: '/static/*', AllowedMethods: ['GET', 'HEAD', 'OPTIONS'], CachePolicyId: { Ref: expect.stringMatching(/StaticAssetsCachePolicy/) } }),
+    expect.objectContaining({ PathPattern: '/media/*', CachePolicyId: { Ref: expect.stringMatching(/MediaCachePolicy/) } }),
+    expect.objectContaining({ PathPattern: '/_stcore/stream', CachePolicyId: CACHING_DISABLED_POLICY_ID, OriginRequestPolicyId: { Ref: expect.stringMatching(/OriginRequestPolicy/) } }),
+  ]);
+  template.hasResourceProperties('AWS::CloudFront::CachePolicy', {
+    CachePolicyConfig: Match.objectLike({ Name: 'streamlit-app-dev-ap-southeast-1-arm-StaticAssets', DefaultTTL: 86400, MaxTTL: 31536000, MinTTL: 0 }),
+  });
+  template.hasResourceProperties('AWS::CloudFront::OriginRequestPolicy', {
+    OriginRequestPolicyConfig: Match.objectLike({ Name: 'streamlit-app-dev-ap-southeast-1-arm-Streamlit' }),
+  });
+});
+
+test('adds the behaviors below the path of every path routed app', () => {
+  const template = synthFargateStack({
+    cdn: { media: { defaultTtlSeconds: 60, maxTtlSeconds: 600 } },
+    apps: { home: {}, sales: { path: '/sales' } },
+  });
+
+  expect(cacheBehaviors(template).map(behavior => behavior.PathPattern)).toEqual([
+    undefined, '/static/*', '/media/*', '/_stcore/stream', '/sales/static/*', '/sales/media/*', '/sales/_stcore/stream',
+  ]);
+  template.resourceCountIs('AWS::CloudFront::CachePolicy', 2);
+  template.hasResourceProperties('AWS::CloudFront::CachePolicy', {
+    CachePolicyConfig: Match.objectLike({ Name: Match.stringLikeRegexp('-Media$'), DefaultTTL: 60, MaxTTL: 600 }),
+  });
+});
+
+test('rejects a default TTL above the maximum', () => {
+  expect(() => testConfig({ cdn: { staticAssets: { defaultTtlSeconds: 7200, maxTtlSeconds: 3600 } } }))
+    .toThrow(/cdn\.staticAssets\.defaultTtlSeconds \(context cdn\.staticAssets\.defaultTtlSeconds\): must not be greater than maxTtlSeconds \(3600\)/);
+});
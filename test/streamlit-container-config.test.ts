@@ -0,0 +1,70 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, testConfig } from './stack-test-utils';
+
+const container = {
+  environment: { STREAMLIT_THEME_BASE: 'dark', MAX_ROWS: 1000 },
+  secrets: {
+    OPENAI_API_KEY: { secretName: 'streamlit/openai', field: 'apiKey' },
+    DATABASE_URL: { parameterName: '/streamlit/dev/database-url' },
+  },
+};
+
+test('passes environment variables and secrets to the container', () => {
+  const template = synthFargateStack({ container });
+
+  template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ContainerDefinitions: [Match.objectLike({
+      Environment: Match.arrayWith([{ Name: 'STREAMLIT_THEME_BASE', Value: 'dark' }, { Name: 'MAX_ROWS', Value: '1000' }]),
+      Secrets: Match.arrayWith([
+        {
+          Name: 'OPENAI_API_KEY',
+          ValueFrom: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(':secret:streamlit/openai:apiKey::')])] },
+        },
+        {
+          Name: 'DATABASE_URL',
+          ValueFrom: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(':parameter/streamlit/dev/database-url')])] },
+        },
+      ]),
+    })],
+  });
+});
+
+test('grants the task role read access to the referenced secrets only', () => {
+  const template = synthFargateStack({ container });
+
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    Roles: [{ Ref: Match.stringLikeRegexp('ecsTaskRole') }],
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+          Resource: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(':secret:streamlit/openai-\\?\\?\\?\\?\\?\\?')])] },
+        }),
+        Match.objectLike({
+          Action: Match.arrayWith(['ssm:GetParameter']),
+          Resource: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp(':parameter/streamlit/dev/database-url')])] },
+        }),
+      ]),
+    },
+  });
+});
+
+test('rejects malformed secret references and duplicate variables', () => {
+  expect(() => testConfig({
+    container: {
+      environment: { API_KEY: 'plain', 'NOT-VALID': 'x' },
+      secrets: {
+        API_KEY: { secretName: 'streamlit/api-key' },
+        TOKEN: { secretName: 'bad name!' },
+        BOTH: { secretName: 'a', parameterName: '/b' },
+        FIELD: { parameterName: '/c', field: 'key' },
+      },
+    },
+  })).toThrow(new RegExp([
+    /container\.environment\.NOT-VALID \(context container\.environment\.NOT-VALID\): 'NOT-VALID' is not a valid environment variable name/,
+    /container\.secrets\.API_KEY \(context container\.secrets\.API_KEY\): cannot be combined with container\.environment\.API_KEY/,
+    /container\.secrets\.TOKEN\.secretName \(context container\.secrets\.TOKEN\.secretName\): 'bad name!' is not a valid Secrets Manager secret name/,
+    /container\.secrets\.BOTH \(context container\.secrets\.BOTH\): must reference exactly one of secretName or parameterName/,
+    /container\.secrets\.FIELD\.field \(context container\.secrets\.FIELD\.field\): is only supported for Secrets Manager secrets/,
+  ].map(pattern => pattern.source).join('[\\s\\S]*')));
+});
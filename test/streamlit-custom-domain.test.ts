@@ -0,0 +1,49 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthStacks } from './stack-test-utils';
+
+const domain = {
+  hostedZoneName: 'example.com',
+  hostedZoneId: 'Z0123456789ABCDEFGHIJ',
+  domainName: 'app.dev.example.com',
+};
+
+test('serves the distribution at the custom domain with a us-east-1 certificate', () => {
+  const { fargate, edge } = synthStacks({ domain });
+
+  edge!.hasResourceProperties('AWS::CertificateManager::Certificate', { DomainName: 'app.dev.example.com' });
+  fargate.hasResourceProperties('AWS::CloudFront::Distribution', {
+    DistributionConfig: Match.objectLike({
+      Aliases: ['app.dev.example.com'],
+      ViewerCertificate: Match.objectLike({ SslSupportMethod: 'sni-only' }),
+      Origins: [Match.objectLike({
+        DomainName: 'origin.app.dev.example.com',
+        CustomOriginConfig: Match.objectLike({ OriginProtocolPolicy: 'https-only' }),
+      })],
+    }),
+  });
+  fargate.resourcePropertiesCountIs('AWS::Route53::RecordSet', { Name: 'app.dev.example.com.' }, 2);
+});
+
+test('terminates HTTPS on the load balancer with a regional certificate', () => {
+  const { fargate } = synthStacks({ domain });
+
+  fargate.hasResourceProperties('AWS::CertificateManager::Certificate', {
+    DomainName: 'origin.app.dev.example.com',
+    SubjectAlternativeNames: ['app.dev.example.com'],
+  });
+  fargate.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', { Port: 443, Protocol: 'HTTPS' });
+  fargate.hasResourceProperties('AWS::Route53::RecordSet', { Name: 'origin.app.dev.example.com.', Type: 'A' });
+});
+
+test('keeps the CloudFront domain and HTTP origin without a custom domain', () => {
+  const { fargate, edge } = synthStacks();
+
+  expect(edge).toBeUndefined();
+  fargate.resourceCountIs('AWS::CertificateManager::Certificate', 0);
+  fargate.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', { Port: 80, Protocol: 'HTTP' });
+  fargate.hasResourceProperties('AWS::CloudFront::Distribution', {
+    DistributionConfig: Match.objectLike({
+      Origins: [Match.objectLike({ CustomOriginConfig: Match.objectLike({ OriginProtocolPolicy: 'http-only' }) })],
+    }),
+  });
+});
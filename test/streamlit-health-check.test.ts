@@ -0,0 +1,58 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, testConfig } from './stack-test-utils';
+
+test('checks the Streamlit health endpoint by default', () => {
+  const template = synthFargateStack();
+
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+    HealthCheckPath: '/_stcore/health',
+    Matcher: { HttpCode: '200' },
+    HealthCheckIntervalSeconds: 15,
+    HealthCheckTimeoutSeconds: 5,
+    HealthyThresholdCount: 2,
+    UnhealthyThresholdCount: 3,
+  });
+  template.hasResourceProperties('AWS::ECS::Service', { HealthCheckGracePeriodSeconds: 60 });
+  template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ContainerDefinitions: [Match.objectLike({
+      HealthCheck: {
+        Command: ['CMD-SHELL', 'curl -fs http://localhost:8501/_stcore/health || exit 1'],
+        Interval: 30,
+        Timeout: 5,
+        Retries: 3,
+        StartPeriod: 30,
+      },
+    })],
+  });
+});
+
+test('applies the configured health check settings', () => {
+  const template = synthFargateStack({
+    healthCheck: {
+      path: '/healthz',
+      healthyHttpCodes: '200-299',
+      intervalSeconds: 30,
+      timeoutSeconds: 10,
+      unhealthyThresholdCount: 5,
+      gracePeriodSeconds: 120,
+      container: { enabled: false },
+    },
+  });
+
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+    HealthCheckPath: '/healthz',
+    Matcher: { HttpCode: '200-299' },
+    HealthCheckIntervalSeconds: 30,
+    HealthCheckTimeoutSeconds: 10,
+    UnhealthyThresholdCount: 5,
+  });
+  template.hasResourceProperties('AWS::ECS::Service', { HealthCheckGracePeriodSeconds: 120 });
+  template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ContainerDefinitions: [Match.objectLike({ HealthCheck: Match.absent() })],
+  });
+});
+
+test('rejects a timeout that is not shorter than the interval', () => {
+  expect(() => testConfig({ healthCheck: { intervalSeconds: 10, timeoutSeconds: 10 } }))
+    .toThrow(/healthCheck\.timeoutSeconds \(context healthCheck\.timeoutSeconds\): must be less than healthCheck\.intervalSeconds/);
+});
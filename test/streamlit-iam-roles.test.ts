@@ -0,0 +1,71 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, synthVpcStack, testConfig } from './stack-test-utils';
+
+test('separates the execution role from the task role', () => {
+  const template = synthFargateStack();
+
+  template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ExecutionRoleArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('ecsTaskExecutionRole'), 'Arn'] },
+    TaskRoleArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('ecsTaskRole'), 'Arn'] },
+  });
+  template.resourcePropertiesCountIs('AWS::IAM::Role', { ManagedPolicyArns: Match.anyValue() }, 0);
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    Roles: [{ Ref: Match.stringLikeRegexp('ecsTaskExecutionRole') }],
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: ['ecr:BatchCheckLayerAvailability', 'ecr:GetDownloadUrlForLayer', 'ecr:BatchGetImage'],
+          Resource: { Ref: Match.stringLikeRegexp('TestRepository') },
+        }),
+        Match.objectLike({
+          Action: ['logs:CreateLogStream', 'logs:PutLogEvents'],
+          Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('ApplicationLogs'), 'Arn'] },
+        }),
+      ]),
+    },
+  });
+  // without configured statements or secrets the task role has no permissions at all
+  template.resourcePropertiesCountIs('AWS::IAM::Policy', { Roles: [{ Ref: Match.stringLikeRegexp('ecsTaskRole') }] }, 0);
+});
+
+test('adds the configured statements to the task role', () => {
+  const template = synthFargateStack({
+    taskRole: { policyStatements: { ReadData: { actions: ['s3:GetObject', 's3:ListBucket'], resources: ['arn:aws:s3:::streamlit-data', 'arn:aws:s3:::streamlit-data/*'] } } },
+  });
+
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    Roles: [{ Ref: Match.stringLikeRegexp('ecsTaskRole') }],
+    PolicyDocument: {
+      Statement: [{
+        Sid: 'ReadData',
+        Effect: 'Allow',
+        Action: ['s3:GetObject', 's3:ListBucket'],
+        Resource: ['arn:aws:s3:::streamlit-data', 'arn:aws:s3:::streamlit-data/*'],
+      }],
+    },
+  });
+});
+
+test('limits the flow log role to its log group', () => {
+  const template = synthVpcStack();
+
+  template.resourcePropertiesCountIs('AWS::IAM::Role', { ManagedPolicyArns: Match.anyValue() }, 0);
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    Roles: [{ Ref: Match.stringLikeRegexp('RoleVpcFlowLogs') }],
+    PolicyDocument: {
+      Statement: Match.arrayWith([Match.objectLike({
+        Action: ['logs:CreateLogStream', 'logs:PutLogEvents', 'logs:DescribeLogStreams'],
+        Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('VpcFlowLogs'), 'Arn'] },
+      })]),
+    },
+  });
+});
+
+test('rejects task role statements with wildcard resources or invalid actions', () => {
+  expect(() => testConfig({
+    taskRole: { policyStatements: { Everything: { actions: ['s3:*', 'not an action'], resources: ['*'] } } },
+  })).toThrow(new RegExp([
+    /taskRole\.policyStatements\.Everything\.actions \(context taskRole\.policyStatements\.Everything\.actions\): 'not an action' is not a valid IAM action/,
+    /taskRole\.policyStatements\.Everything\.resources \(context taskRole\.policyStatements\.Everything\.resources\): '\*' is not an ARN, wildcard resources are not allowed/,
+  ].map(pattern => pattern.source).join('[\\s\\S]*')));
+});
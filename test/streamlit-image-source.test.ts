@@ -0,0 +1,153 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { resolveImageUri } from '../lib/config/image-config';
+import { PushedImageConfig } from '../lib/config/StreamlitDeploymentConfig';
+import { StreamlitImageDigest } from '../lib/constructs/streamlit-image-digest';
+import { synthImageStacks, taskImageParts, testConfig } from './stack-test-utils';
+
+const DIGEST = `sha256:${'a'.repeat(64)}`;
+const AMD64_DIGEST = `sha256:${'b'.repeat(64)}`;
+
+test('builds the image from scratch by default', () => {
+  const [app] = testConfig().apps;
+
+  expect(app.image).toEqual({ source: 'build', cache: false, buildArgs: {}, pinDigest: false });
+});
+
+test('passes the build settings of the environment on to the apps of a manifest', () => {
+  const config = testConfig({
+    image: { cache: true, buildArgs: { PYTHON_VERSION: 3.11 }, pinDigest: true },
+    apps: {
+      home: {},
+      sales: { path: '/sales', image: { buildArgs: { EXTRA: 'sales' }, pinDigest: false } },
+    },
+  });
+
+  expect(config.apps.map(app => app.image)).toEqual([
+    { source: 'build', cache: true, buildArgs: { PYTHON_VERSION: '3.11' }, pinDigest: true },
+    { source: 'build', cache: true, buildArgs: { PYTHON_VERSION: '3.11', EXTRA: 'sales' }, pinDigest: false },
+  ]);
+  expect(() => testConfig({ image: { source: 'ecr', digest: DIGEST }, apps: { home: {} } }))
+    .toThrow(/image\.source \(context image\.source\): only applies without an apps manifest, set apps\.<id>\.image\.source instead/);
+});
+
+test('copies an image of the stack platform from another registry', () => {
+  const config = testConfig({ image: { source: 'registry', uri: 'ghcr.io/example/streamlit:1.4.0-{platform}', credentialsSecretName: 'ghcr/credentials' } });
+
+  expect(config.apps[0].image).toMatchObject({ source: 'registry', credentialsSecretName: 'ghcr/credentials' });
+  expect(resolveImageUri((config.apps[0].image as PushedImageConfig).uri!, 'amd64')).toEqual('ghcr.io/example/streamlit:1.4.0-amd64');
+});
+
+test('rejects incomplete or inconsistent image sources', () => {
+  expect(() => testConfig({ image: { source: 'registry' } }))
+    .toThrow(/image\.uri \(not set\): is required/);
+  expect(() => testConfig({ image: { source: 'registry', uri: 'ghcr.io/Example/streamlit' } }))
+    .toThrow(/image\.uri \(context image\.uri\): 'ghcr\.io\/Example\/streamlit' is not a valid image reference/);
+  expect(() => testConfig({ repositoryName: 'streamlit-{platform}', image: { source: 'registry', uri: 'ghcr.io/example/streamlit:1.4.0' } }, { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' }))
+    .toThrow(/image\.uri \(context image\.uri\): must contain \{platform\} because the environment is deployed for 2 platforms/);
+  expect(() => testConfig({ platformMode: 'multi-arch', image: { source: 'registry', uri: 'ghcr.io/example/streamlit:1.4.0' } }))
+    .toThrow(/image\.source \(context image\.source\): 'registry' is not supported with platformMode 'multi-arch'/);
+  expect(() => testConfig({ ecr: { repositoryMode: 'import' }, image: { source: 'ecr', digest: 'sha256:abc', cache: true } }))
+    .toThrow(/image\.cache \(context image\.cache\): only applies to the image source 'build' but the source is 'ecr'[\s\S]*image\.digest \(context image\.digest\): 'sha256:abc' is not an image digest/);
+  expect(() => testConfig({ image: { source: 'ecr', digest: DIGEST } }))
+    .toThrow(/image\.source \(context image\.source\): 'ecr' requires ecr\.repositoryMode 'import' because the repositories the stacks create are empty/);
+});
+
+test('requires the digest of every platform for images of the ecr source', () => {
+  const context = { repositoryName: 'streamlit-{platform}', ecr: { repositoryMode: 'import' } };
+  const platforms = { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' };
+
+  expect(testConfig({ ...context, image: { source: 'ecr', digest: DIGEST } }).apps[0].image)
+    .toEqual({ source: 'ecr', cache: false, buildArgs: {}, pinDigest: false, digests: { arm: DIGEST } });
+  expect(() => testConfig({ ...context, image: { source: 'ecr', digest: DIGEST } }, platforms))
+    .toThrow(/image\.digest \(context image\.digest\): one digest cannot serve the 2 platforms the environment is deployed for, set digests\.arm and digests\.amd64 instead/);
+  expect(() => testConfig({ ...context, image: { source: 'ecr', digests: { arm: DIGEST, x86: AMD64_DIGEST } } }, platforms))
+    .toThrow(/image\.digests\.x86 \(context image\.digests\.x86\): 'x86' is not one of the platforms arm, amd64[\s\S]*image\.digests\.amd64 \(not set\): is required/);
+  // a multi-arch stack runs the image of its runtime platform, or a manifest list
+  expect(testConfig({ ...context, platformMode: 'multi-arch', image: { source: 'ecr', digest: DIGEST } }, platforms).apps[0].image)
+    .toMatchObject({ digests: { arm: DIGEST } });
+});
+
+test('pushes the built image and runs it by tag', () => {
+  const { ecr: ecrStack, fargate } = synthImageStacks({ imageVersion: '1.4.0' });
+
+  for (const tag of ['1.4.0', 'latest']) {
+    ecrStack.hasResourceProperties('Custom::CDKBucketDeployment', {
+      SrcImage: { 'Fn::Join': ['', ['docker://', { 'Fn::Sub': Match.stringLikeRegexp('/cdk-hnb659fds-container-assets-') }]] },
+      DestImage: { 'Fn::Join': ['', Match.arrayWith([`:${tag}`])] },
+    });
+  }
+  expect(taskImageParts(fargate)).toContainEqual({ Ref: expect.stringMatching(/TestEcrStack.*DockerImageEcrRepository.*Ref$/) });
+  expect(taskImageParts(fargate).slice(-1)).toEqual([':1.4.0']);
+});
+
+test('copies the registry image of the stack platform with the credentials of the secret', () => {
+  const { ecr: ecrStack, fargate } = synthImageStacks({
+    imageVersion: '1.4.0',
+    repositoryName: 'streamlit-{platform}',
+    image: { source: 'registry', uri: 'ghcr.io/example/streamlit:1.4.0-{platform}', credentialsSecretName: 'ghcr/credentials' },
+  }, { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' }, 'amd64');
+
+  ecrStack.hasResourceProperties('Custom::CDKBucketDeployment', {
+    SrcImage: 'docker://ghcr.io/example/streamlit:1.4.0-amd64',
+    SrcCreds: 'ghcr/credentials',
+  });
+  ecrStack.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([{
+        Action: 'secretsmanager:GetSecretValue',
+        Effect: 'Allow',
+        Resource: { 'Fn::Join': ['', Match.arrayWith([':secretsmanager:ap-southeast-1:123456789012:secret:ghcr/credentials-??????'])] },
+      }]),
+    },
+  });
+  expect(taskImageParts(fargate).slice(-1)).toEqual([':1.4.0']);
+});
+
+test('runs an image of the imported repository by the digest of the stack platform', () => {
+  const context = {
+    repositoryName: 'streamlit-{platform}',
+    ecr: { repositoryMode: 'import' },
+    image: { source: 'ecr', digests: { arm: DIGEST, amd64: AMD64_DIGEST } },
+  };
+  const platforms = { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' };
+
+  for (const [platformString, digest] of [['arm', DIGEST], ['amd64', AMD64_DIGEST]]) {
+    const { ecr: ecrStack, fargate } = synthImageStacks(context, platforms, platformString);
+
+    ecrStack.resourceCountIs('AWS::ECR::Repository', 0);
+    ecrStack.resourceCountIs('Custom::CDKBucketDeployment', 0);
+    expect(taskImageParts(fargate).slice(-1)).toEqual([`/streamlit-${platformString}@${digest}`]);
+  }
+});
+
+test('runs a pushed image by the digest looked up at deploy time', () => {
+  const { ecr: ecrStack, fargate } = synthImageStacks({ imageVersion: '1.4.0', image: { pinDigest: true } });
+
+  ecrStack.resourceCountIs('Custom::AWS', 1);
+  expect(taskImageParts(fargate).slice(-2)).toEqual(['@', { Ref: expect.stringMatching(/TestEcrStack.*ImageDigest.*imageDetails0imageDigest/) }]);
+});
+
+test('looks up the digest of the pushed tag at deploy time', () => {
+  const stack = new cdk.Stack(new cdk.App(), 'TestStack', { env: { account: '123456789012', region: 'ap-southeast-1' } });
+  const repository = ecr.Repository.fromRepositoryName(stack, 'Repository', 'streamlit');
+  new StreamlitImageDigest(stack, 'ImageDigest', { repository, tag: '1.4.0', sourceHash: 'abc' });
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('Custom::AWS', {
+    Create: Match.serializedJson(Match.objectLike({
+      action: 'describeImages',
+      parameters: { repositoryName: 'streamlit', imageIds: [{ imageTag: '1.4.0' }] },
+      physicalResourceId: { id: '1.4.0:abc' },
+    })),
+  });
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: [Match.objectLike({
+        Action: 'ecr:DescribeImages',
+        Resource: { 'Fn::Join': ['', Match.arrayWith([':ecr:ap-southeast-1:123456789012:repository/streamlit'])] },
+      })],
+    },
+  });
+});
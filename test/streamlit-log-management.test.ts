@@ -0,0 +1,47 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthStacks, synthVpcStack, testConfig } from './stack-test-utils';
+
+test('writes the application logs to an encrypted log group with retention and error metrics', () => {
+  const { fargate, observability } = synthStacks({ logging: { retentionDays: 90 } });
+
+  fargate.hasResourceProperties('AWS::Logs::LogGroup', {
+    LogGroupName: '/streamlit/streamlit-app/dev/arm/application',
+    RetentionInDays: 90,
+    KmsKeyId: { 'Fn::GetAtt': [Match.stringLikeRegexp('EncryptionKey'), 'Arn'] },
+  });
+  fargate.hasResourceProperties('AWS::KMS::Key', { EnableKeyRotation: true });
+  fargate.hasResourceProperties('AWS::Logs::MetricFilter', {
+    FilterPattern: '?"Traceback" ?"ERROR" ?"Exception"',
+    MetricTransformations: [Match.objectLike({ MetricName: 'arm-ErrorLogLines', MetricNamespace: 'Streamlit/streamlit-app-dev' })],
+  });
+  observability!.hasResourceProperties('AWS::CloudWatch::Alarm', { MetricName: 'arm-ErrorLogLines', Threshold: 0 });
+  fargate.resourceCountIs('AWS::KinesisFirehose::DeliveryStream', 0);
+});
+
+test('archives the application logs to S3 through Firehose', () => {
+  const { fargate } = synthStacks({ logging: { kmsEncryption: false, archiveToS3: true, archiveExpirationDays: 3650 } });
+
+  fargate.resourceCountIs('AWS::KMS::Key', 0);
+  fargate.hasResourceProperties('AWS::KinesisFirehose::DeliveryStream', {
+    ExtendedS3DestinationConfiguration: Match.objectLike({ CompressionFormat: 'UNCOMPRESSED' }),
+  });
+  fargate.hasResourceProperties('AWS::Logs::SubscriptionFilter', {
+    DestinationArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('ArchiveDeliveryStream'), 'Arn'] },
+  });
+  fargate.hasResourceProperties('AWS::S3::Bucket', {
+    LifecycleConfiguration: { Rules: [Match.objectLike({ ExpirationInDays: 3650 })] },
+  });
+});
+
+test('applies the logging settings to the VPC flow log group', () => {
+  synthVpcStack({ logging: { retentionDays: 7 } }).hasResourceProperties('AWS::Logs::LogGroup', {
+    LogGroupName: '/streamlit/streamlit-app/dev/arm/vpc-flow-logs',
+    RetentionInDays: 7,
+    KmsKeyId: Match.anyValue(),
+  });
+});
+
+test('rejects retention periods CloudWatch Logs does not support', () => {
+  expect(() => testConfig({ logging: { retentionDays: 45 } }))
+    .toThrow(/logging\.retentionDays \(context logging\.retentionDays\): 45 is not a CloudWatch Logs retention period/);
+});
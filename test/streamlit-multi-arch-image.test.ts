@@ -0,0 +1,75 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { stackPlatforms } from '../lib/config/platform-config';
+import { StreamlitImageManifestList } from '../lib/constructs/streamlit-image-manifest-list';
+import { synthImageStacks, taskImageParts, testConfig } from './stack-test-utils';
+
+const BOTH_PLATFORMS = { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64' };
+
+test('deploys a single stack per region on the runtime platform in multi-arch mode', () => {
+  const config = testConfig({ platformMode: 'multi-arch', runtimePlatform: 'LINUX_AMD64' }, BOTH_PLATFORMS);
+
+  expect(config.platforms).toEqual(['LINUX_ARM64', 'LINUX_AMD64']);
+  expect(stackPlatforms(config)).toEqual(['LINUX_AMD64']);
+  expect(stackPlatforms(testConfig({}, { ...BOTH_PLATFORMS, ECR_REPOSITORY_NAME: 'streamlit-{platform}' }))).toEqual(['LINUX_ARM64', 'LINUX_AMD64']);
+});
+
+test('shares one repository between the platforms in multi-arch mode', () => {
+  const config = testConfig({ platformMode: 'multi-arch' }, BOTH_PLATFORMS);
+
+  expect(config.repositoryName).toEqual('streamlit-repository');
+  expect(config.runtimePlatform).toEqual('LINUX_ARM64');
+});
+
+test('rejects a runtime platform the image is not built for or without multi-arch mode', () => {
+  expect(() => testConfig({ platformMode: 'multi-arch', runtimePlatform: 'LINUX_AMD64' }))
+    .toThrow(/runtimePlatform \(context runtimePlatform\): 'LINUX_AMD64' is not one of the platforms LINUX_ARM64 the image is built for/);
+  expect(() => testConfig({ runtimePlatform: 'LINUX_ARM64' }))
+    .toThrow(/runtimePlatform \(context runtimePlatform\): requires platformMode 'multi-arch' but the mode is 'per-platform'/);
+});
+
+test('publishes the manifest list of the per architecture images', () => {
+  const stack = new cdk.Stack(new cdk.App(), 'TestStack', { env: { account: '123456789012', region: 'ap-southeast-1' } });
+  const repository = new ecr.Repository(stack, 'Repository', { repositoryName: 'streamlit' });
+  new StreamlitImageManifestList(stack, 'ManifestList', {
+    repository,
+    images: [
+      { tag: '1.0.0-arm64', architecture: 'arm64', sourceHash: 'a' },
+      { tag: '1.0.0-amd64', architecture: 'amd64', sourceHash: 'b' },
+    ],
+    tags: ['1.0.0', 'latest'],
+  });
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('Custom::StreamlitImageManifestList', {
+    Tags: ['1.0.0', 'latest'],
+    Images: [
+      { Tag: '1.0.0-arm64', Architecture: 'arm64', SourceHash: 'a' },
+      { Tag: '1.0.0-amd64', Architecture: 'amd64', SourceHash: 'b' },
+    ],
+  });
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([Match.objectLike({
+        Action: ['ecr:BatchGetImage', 'ecr:PutImage'],
+        Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('^Repository'), 'Arn'] },
+      })]),
+    },
+  });
+});
+
+test('pushes the image of every platform and runs the manifest list by tag in multi-arch mode', () => {
+  const { ecr: ecrStack, fargate } = synthImageStacks({ platformMode: 'multi-arch', imageVersion: '1.4.0' }, BOTH_PLATFORMS);
+
+  for (const tag of ['1.4.0-arm64', '1.4.0-amd64']) {
+    ecrStack.hasResourceProperties('Custom::CDKBucketDeployment', {
+      DestImage: { 'Fn::Join': ['', Match.arrayWith([`:${tag}`])] },
+    });
+  }
+  ecrStack.hasResourceProperties('Custom::StreamlitImageManifestList', {
+    Tags: ['1.4.0', 'latest'],
+    Images: [Match.objectLike({ Tag: '1.4.0-arm64', Architecture: 'arm64' }), Match.objectLike({ Tag: '1.4.0-amd64', Architecture: 'amd64' })],
+  });
+  expect(taskImageParts(fargate).slice(-1)).toEqual([':1.4.0']);
+});
@@ -0,0 +1,38 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthStacks } from './stack-test-utils';
+
+test('builds a dashboard and exported alarms notifying an SNS topic', () => {
+  const { observability } = synthStacks({ observability: { alarmEmails: ['ops@example.com'], alarms: { cpuUtilizationPercent: 70 } } });
+
+  observability!.resourceCountIs('AWS::CloudWatch::Dashboard', 1);
+  observability!.resourceCountIs('AWS::CloudWatch::Alarm', 6);
+  observability!.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    MetricName: 'CPUUtilization',
+    Namespace: 'AWS/ECS',
+    Threshold: 70,
+    EvaluationPeriods: 3,
+    AlarmActions: [{ Ref: Match.stringLikeRegexp('AlarmTopic') }],
+    OKActions: [{ Ref: Match.stringLikeRegexp('AlarmTopic') }],
+  });
+  observability!.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'ops@example.com' });
+
+  const exportNames = Object.values(observability!.findOutputs('*')).map(output => output.Export?.Name);
+  expect(exportNames).toEqual(expect.arrayContaining([
+    'streamlit-app-dev-arm-Http5xxRateAlarmArn',
+    'streamlit-app-dev-arm-HealthyHostsAlarmArn',
+    'streamlit-app-dev-arm-AlarmTopicArn',
+  ]));
+});
+
+test('forwards alarms to Slack through a webhook secret', () => {
+  const { observability } = synthStacks({ observability: { slackWebhookSecretName: 'streamlit/slack-webhook' } });
+
+  observability!.hasResourceProperties('AWS::Lambda::Function', {
+    Environment: { Variables: { WEBHOOK_SECRET_NAME: 'streamlit/slack-webhook' } },
+  });
+  observability!.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'lambda' });
+});
+
+test('can be disabled per environment', () => {
+  expect(synthStacks({ observability: { enabled: false } }).observability).toBeUndefined();
+});
@@ -0,0 +1,56 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack } from './stack-test-utils';
+
+const secretReference = Match.objectLike({
+  'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('^\\{\\{resolve:secretsmanager:'), ':SecretString:HEADERVALUE::}}'])],
+});
+
+test('pairs the CloudFront origin header with the ALB listener rule', () => {
+  const template = synthFargateStack({ originProtection: { mode: 'custom-header', headerName: 'X-Origin-Verify' } });
+
+  template.resourceCountIs('AWS::SecretsManager::Secret', 1);
+  template.hasResourceProperties('AWS::CloudFront::Distribution', {
+    DistributionConfig: {
+      Origins: [Match.objectLike({
+        OriginCustomHeaders: [{ HeaderName: 'X-Origin-Verify', HeaderValue: secretReference }],
+      })],
+    },
+  });
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+    Priority: 1,
+    Conditions: [{ Field: 'http-header', HttpHeaderConfig: { HttpHeaderName: 'X-Origin-Verify', Values: [secretReference] } }],
+    Actions: [Match.objectLike({ Type: 'forward' })],
+  });
+});
+
+test('answers direct ALB requests with a fixed 403', () => {
+  const template = synthFargateStack({ originProtection: { mode: 'custom-header' } });
+
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    DefaultActions: [{ Type: 'fixed-response', FixedResponseConfig: Match.objectLike({ StatusCode: '403' }) }],
+  });
+  template.resourcePropertiesCountIs('AWS::ElasticLoadBalancingV2::ListenerRule', {
+    Actions: [Match.objectLike({ Type: 'redirect' })],
+  }, 0);
+});
+
+test('rotates the header value on a schedule', () => {
+  const template = synthFargateStack({ originProtection: { mode: 'custom-header', rotationDays: 30 } });
+
+  template.hasResourceProperties('AWS::SecretsManager::RotationSchedule', {
+    RotationRules: { ScheduleExpression: 'rate(30 days)' },
+  });
+  template.hasResourceProperties('AWS::Lambda::Function', {
+    Environment: { Variables: Match.objectLike({ HEADER_NAME: 'X-Verify-Origin', HEADER_VALUE_KEY: 'HEADERVALUE' }) },
+  });
+});
+
+test('leaves the listener open without origin protection', () => {
+  const template = synthFargateStack();
+
+  template.resourceCountIs('AWS::SecretsManager::Secret', 0);
+  template.resourceCountIs('AWS::ElasticLoadBalancingV2::ListenerRule', 0);
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+    DefaultActions: [Match.objectLike({ Type: 'forward' })],
+  });
+});
@@ -0,0 +1,96 @@
+import * as vm from 'vm';
+import { Match } from 'aws-cdk-lib/assertions';
+import { CorsConfig } from '../lib/config/StreamlitDeploymentConfig';
+import { corsPreflightFunctionCode } from '../lib/constructs/streamlit-response-headers';
+import { cacheBehaviors, synthFargateStack, testConfig } from './stack-test-utils';
+
+type FunctionHeaders = Record<string, { value: string }>;
+
+/**
+ * The response to a preflight request, or the request passed on unchanged.
+ */
+type PreflightFunctionResult =
+  | { statusCode: number; statusDescription: string; headers: FunctionHeaders }
+  | { method: string; uri: string; headers: FunctionHeaders };
+
+/**
+ * Runs the generated CloudFront Function like the viewer request trigger does.
+ */
+function runPreflightFunction(cors: CorsConfig, method: string, origin?: string): PreflightFunctionResult {
+  const handler = vm.runInNewContext(`${corsPreflightFunctionCode(cors)}\nhandler;`);
+  const request = { method, uri: '/', headers: origin ? { origin: { value: origin } } : {} };
+  return handler({ version: '1.0', context: { eventType: 'viewer-request' }, viewer: { ip: '192.0.2.1' }, request });
+}
+
+test('answers preflight requests from any origin by default', () => {
+  const { cors } = testConfig();
+
+  expect(runPreflightFunction(cors, 'OPTIONS', 'https://portal.example.com')).toEqual({
+    statusCode: 204,
+    statusDescription: 'No Content',
+    headers: {
+      'access-control-allow-origin': { value: '*' },
+      'access-control-allow-methods': { value: 'GET, HEAD, OPTIONS, PUT, PATCH, POST, DELETE' },
+      'access-control-allow-headers': { value: '*' },
+      'access-control-max-age': { value: '600' },
+    },
+  });
+  expect(runPreflightFunction(cors, 'GET')).toEqual({ method: 'GET', uri: '/', headers: {} });
+});
+
+test('answers preflight requests of the allowed origins only', () => {
+  const { cors } = testConfig({
+    cors: { allowedOrigins: ['https://portal.example.com'], allowedMethods: 'GET,POST', allowedHeaders: ['Content-Type'], allowCredentials: true, maxAgeSeconds: 60 },
+  });
+
+  expect(runPreflightFunction(cors, 'OPTIONS', 'https://portal.example.com').headers).toEqual({
+    'access-control-allow-origin': { value: 'https://portal.example.com' },
+    'vary': { value: 'Origin' },
+    'access-control-allow-methods': { value: 'GET, POST' },
+    'access-control-allow-headers': { value: 'Content-Type' },
+    'access-control-max-age': { value: '60' },
+    'access-control-allow-credentials': { value: 'true' },
+  });
+  expect(runPreflightFunction(cors, 'OPTIONS', 'https://evil.example.org')).toEqual({ statusCode: 204, statusDescription: 'No Content', headers: {} });
+  expect(runPreflightFunction(cors, 'OPTIONS')).toEqual({ statusCode: 204, statusDescription: 'No Content', headers: {} });
+});
+
+test('adds the CORS and security headers to every response', () => {
+  const template = synthFargateStack({
+    cors: { allowedOrigins: 'https://portal.example.com', allowedMethods: ['GET'] },
+    securityHeaders: { contentSecurityPolicy: "default-src 'self'", frameOptions: 'DENY', referrerPolicy: 'no-referrer' },
+  });
+
+  template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+    ResponseHeadersPolicyConfig: Match.objectLike({
+      Name: 'streamlit-app-dev-ap-southeast-1-arm-Headers',
+      CorsConfig: Match.objectLike({
+        AccessControlAllowOrigins: { Items: ['https://portal.example.com'] },
+        AccessControlAllowMethods: { Items: ['GET'] },
+        OriginOverride: true,
+      }),
+      SecurityHeadersConfig: {
+        StrictTransportSecurity: { AccessControlMaxAgeSec: 31536000, IncludeSubdomains: false, Preload: false, Override: true },
+        ContentSecurityPolicy: { ContentSecurityPolicy: "default-src 'self'", Override: true },
+        FrameOptions: { FrameOption: 'DENY', Override: true },
+        ReferrerPolicy: { ReferrerPolicy: 'no-referrer', Override: true },
+        ContentTypeOptions: { Override: true },
+      },
+    }),
+  });
+  for (const behavior of cacheBehaviors(template)) {
+    expect(behavior.ResponseHeadersPolicyId).toEqual({ Ref: expect.stringMatching(/ResponseHeadersPolicy/) });
+    expect(behavior.FunctionAssociations).toEqual([{ EventType: 'viewer-request', FunctionARN: { 'Fn::GetAtt': [expect.stringMatching(/PreflightFunction/), 'FunctionARN'] } }]);
+  }
+});
+
+test('rejects CORS and security headers browsers would not accept', () => {
+  expect(() => testConfig({ cors: { allowCredentials: true } }))
+    .toThrow(/cors\.allowCredentials \(context cors\.allowCredentials\): is not supported with the allowed origin '\*'/);
+  expect(() => testConfig({ cors: { allowedOrigins: ['*', 'https://portal.example.com'] } }))
+    .toThrow(/cors\.allowedOrigins \(context cors\.allowedOrigins\): '\*' already allows every origin/);
+  expect(() => testConfig({ cors: { allowedOrigins: ['portal.example.com'] } }))
+    .toThrow(/cors\.allowedOrigins \(context cors\.allowedOrigins\): 'portal\.example\.com' is not an origin/);
+  expect(() => testConfig({ securityHeaders: { hstsPreload: true } }))
+    .toThrow(/securityHeaders\.hstsPreload \(context securityHeaders\.hstsPreload\): requires hstsIncludeSubdomains/);
+});
@@ -0,0 +1,93 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, synthStacks, testConfig } from './stack-test-utils';
+
+test('scales on CPU utilization only by default', () => {
+  const template = synthFargateStack();
+
+  template.resourceCountIs('AWS::ApplicationAutoScaling::ScalingPolicy', 1);
+  template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+    TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+      PredefinedMetricSpecification: { PredefinedMetricType: 'ECSServiceAverageCPUUtilization' },
+    }),
+  });
+  template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalableTarget', { ScheduledActions: Match.absent() });
+});
+
+test('scales every service on memory utilization and the requests of its target group', () => {
+  const template = synthFargateStack({
+    sizing: { profile: 'sessions', profiles: { sessions: { cpu: 1024, memoryLimitMiB: 2048, memoryTargetUtilizationPercent: 75, requestsPerTarget: 300 } } },
+    apps: { home: {}, sales: { path: '/sales' } },
+  });
+
+  template.resourceCountIs('AWS::ApplicationAutoScaling::ScalingPolicy', 6);
+  template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+    TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+      PredefinedMetricSpecification: { PredefinedMetricType: 'ECSServiceAverageMemoryUtilization' },
+      TargetValue: 75,
+    }),
+  });
+  const requestPolicies = Object.values(template.findResources('AWS::ApplicationAutoScaling::ScalingPolicy', {
+    Properties: {
+      TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+        PredefinedMetricSpecification: Match.objectLike({ PredefinedMetricType: 'ALBRequestCountPerTarget' }),
+        TargetValue: 300,
+      }),
+    },
+  }));
+  const targetGroups = requestPolicies.map(policy => JSON.stringify(
+    policy.Properties.TargetTrackingScalingPolicyConfiguration.PredefinedMetricSpecification.ResourceLabel,
+  ).match(/"([^"]*TargetGroup[^"]*)"/)?.[1]);
+  expect(new Set(targetGroups).size).toBe(2);
+});
+
+test('changes the scaling bounds on schedule in the time zone of the environment', () => {
+  const template = synthFargateStack({
+    scaling: {
+      timeZone: 'Europe/Berlin',
+      schedules: {
+        night: { expression: 'cron(0 20 ? * MON-FRI *)', minCapacity: 0, maxCapacity: 0 },
+        morning: { expression: 'cron(0 8 ? * MON-FRI *)', minCapacity: 1, maxCapacity: 2 },
+      },
+    },
+  });
+
+  template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalableTarget', {
+    MinCapacity: 1,
+    MaxCapacity: 2,
+    ScheduledActions: [
+      Match.objectLike({
+        Schedule: 'cron(0 20 ? * MON-FRI *)',
+        ScalableTargetAction: { MinCapacity: 0, MaxCapacity: 0 },
+        Timezone: 'Europe/Berlin',
+      }),
+      Match.objectLike({
+        Schedule: 'cron(0 8 ? * MON-FRI *)',
+        ScalableTargetAction: { MinCapacity: 1, MaxCapacity: 2 },
+        Timezone: 'Europe/Berlin',
+      }),
+    ],
+  });
+});
+
+test('keeps the healthy hosts alarm quiet while a schedule stops every task', () => {
+  const alarmExpression = (context: Record<string, unknown>) => {
+    const alarms = synthStacks(context).observability!.findResources('AWS::CloudWatch::Alarm', {
+      Properties: { AlarmName: Match.stringLikeRegexp('HealthyHosts') },
+    });
+    const [alarm] = Object.values(alarms);
+    return alarm.Properties.Metrics.find((metric: { ReturnData?: boolean }) => metric.ReturnData !== false).Expression;
+  };
+
+  expect(alarmExpression({})).toEqual('FILL(healthy0, 0)');
+  expect(alarmExpression({ scaling: { schedules: { night: { expression: 'cron(0 20 * * ? *)', minCapacity: 0, maxCapacity: 0 } } } }))
+    .toEqual('IF(FILL(desired0, 0) > 0, FILL(healthy0, 0), 1)');
+});
+
+test('rejects invalid schedules and request scaling with blue/green deployments', () => {
+  expect(() => testConfig({ scaling: { timeZone: 'Europe/Atlantis' } }))
+    .toThrow(/scaling\.timeZone \(context scaling\.timeZone\): 'Europe\/Atlantis' is not an IANA time zone/);
+  expect(() => testConfig({ scaling: { schedules: { night: { expression: 'cron(0 20 * * *)', minCapacity: 2, maxCapacity: 1 } } } }))
+    .toThrow(/scaling\.schedules\.night\.expression \(context scaling\.schedules\.night\.expression\): 'cron\(0 20 \* \* \*\)' is not a schedule expression[\s\S]*scaling\.schedules\.night\.minCapacity \(context scaling\.schedules\.night\.minCapacity\): must not be greater than maxCapacity \(1\)/);
+  expect(() => testConfig({ sizing: { profiles: { medium: { requestsPerTarget: 100 } } }, deployment: { strategy: 'blue-green' } }))
+    .toThrow(/sizing\.profiles\.medium \(context sizing\.profiles\.medium\): requestsPerTarget is not supported with the deployment strategy 'blue-green'/);
+});
@@ -0,0 +1,66 @@
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { cacheBehaviors, synthFargateStack, testConfig } from './stack-test-utils';
+
+function targetGroupAttributes(template: Template): Record<string, string>[] {
+  return Object.values(template.findResources('AWS::ElasticLoadBalancingV2::TargetGroup')).map(targetGroup =>
+    Object.fromEntries(targetGroup.Properties.TargetGroupAttributes.map(({ Key, Value }: { Key: string, Value: string }) => [Key, Value])));
+}
+
+test('sticks the requests of a browser to one task and forwards the cookie from CloudFront', () => {
+  const template = synthFargateStack();
+
+  expect(targetGroupAttributes(template)).toEqual([expect.objectContaining({
+    'stickiness.enabled': 'true',
+    'stickiness.type': 'lb_cookie',
+    'stickiness.lb_cookie.duration_seconds': '86400',
+    'deregistration_delay.timeout_seconds': '300',
+  })]);
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::LoadBalancer', {
+    LoadBalancerAttributes: Match.arrayWith([{ Key: 'idle_timeout.timeout_seconds', Value: '60' }]),
+  });
+  template.hasResourceProperties('AWS::CloudFront::OriginRequestPolicy', {
+    OriginRequestPolicyConfig: Match.objectLike({ Name: Match.stringLikeRegexp('-Assets$'), CookiesConfig: { CookieBehavior: 'all' } }),
+  });
+  for (const behavior of cacheBehaviors(template)) {
+    expect(behavior.OriginRequestPolicyId).toEqual({ Ref: expect.stringMatching(/OriginRequestPolicy/) });
+  }
+});
+
+test('follows the cookie of the app on every target group', () => {
+  const template = synthFargateStack({
+    sessions: { stickiness: 'application', cookieName: '_streamlit_xsrf', stickinessDurationSeconds: 3600, idleTimeoutSeconds: 3600, deregistrationDelaySeconds: 60 },
+    apps: { home: {}, sales: { path: '/sales' } },
+  });
+
+  const attributes = targetGroupAttributes(template);
+  expect(attributes).toHaveLength(2);
+  for (const targetGroup of attributes) {
+    expect(targetGroup).toMatchObject({
+      'stickiness.type': 'app_cookie',
+      'stickiness.app_cookie.cookie_name': '_streamlit_xsrf',
+      'stickiness.app_cookie.duration_seconds': '3600',
+      'deregistration_delay.timeout_seconds': '60',
+    });
+  }
+  template.hasResourceProperties('AWS::ElasticLoadBalancingV2::LoadBalancer', {
+    LoadBalancerAttributes: Match.arrayWith([{ Key: 'idle_timeout.timeout_seconds', Value: '3600' }]),
+  });
+});
+
+test('forwards no cookies with the assets without stickiness and authentication', () => {
+  const template = synthFargateStack({ sessions: { stickiness: 'none' } });
+
+  expect(targetGroupAttributes(template)[0]['stickiness.enabled']).toEqual('false');
+  template.resourceCountIs('AWS::CloudFront::OriginRequestPolicy', 1);
+  expect(cacheBehaviors(template).filter(behavior => behavior.OriginRequestPolicyId === undefined).map(behavior => behavior.PathPattern))
+    .toEqual(['/static/*', '/media/*']);
+});
+
+test('rejects stickiness settings that cannot apply', () => {
+  expect(() => testConfig({ sessions: { stickiness: 'application' } }))
+    .toThrow(/sessions\.cookieName \(not set\): is required/);
+  expect(() => testConfig({ sessions: { stickiness: 'application', cookieName: 'AWSALBAPP-0' } }))
+    .toThrow(/sessions\.cookieName \(context sessions\.cookieName\): must not start with AWSALB, AWSALBAPP, AWSALBTG/);
+  expect(() => testConfig({ sessions: { cookieName: 'session' } }))
+    .toThrow(/sessions\.cookieName \(context sessions\.cookieName\): only applies with the stickiness 'application' but the stickiness is 'load-balancer'/);
+});
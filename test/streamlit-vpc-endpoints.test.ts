@@ -0,0 +1,53 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthFargateStack, synthVpcStack, testConfig } from './stack-test-utils';
+
+test('adds the S3 gateway endpoint and HTTPS only interface endpoints', () => {
+  const template = synthVpcStack({ vpc: { natGateways: 0, endpoints: true } });
+
+  template.resourceCountIs('AWS::EC2::VPCEndpoint', 6);
+  template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+    ServiceName: { 'Fn::Join': ['', ['com.amazonaws.', { Ref: 'AWS::Region' }, '.s3']] },
+    VpcEndpointType: 'Gateway',
+  });
+  for (const service of ['ecr.api', 'ecr.dkr', 'logs', 'secretsmanager', 'ssm']) {
+    template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+      ServiceName: `com.amazonaws.ap-southeast-1.${service}`,
+      VpcEndpointType: 'Interface',
+      PrivateDnsEnabled: true,
+    });
+  }
+  template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+    GroupDescription: 'VPC interface endpoints, HTTPS from the endpoint clients only.',
+    SecurityGroupEgress: [Match.objectLike({ CidrIp: '255.255.255.255/32' })],
+  });
+  template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+    IpProtocol: 'tcp',
+    FromPort: 443,
+    ToPort: 443,
+    GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('EndpointSecGrp'), 'GroupId'] },
+    SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('EndpointClientSecGrp'), 'GroupId'] },
+  });
+});
+
+test('runs the service in isolated subnets reaching the endpoints', () => {
+  const template = synthFargateStack({ vpc: { endpoints: true, taskSubnetType: 'isolated' } });
+
+  template.hasResourceProperties('AWS::ECS::Service', {
+    NetworkConfiguration: {
+      AwsvpcConfiguration: {
+        AssignPublicIp: 'DISABLED',
+        SecurityGroups: Match.arrayWith([{ Ref: Match.stringLikeRegexp('EndpointClientSecGrp') }]),
+        Subnets: Match.arrayWith([{ Ref: Match.stringLikeRegexp('IsolatedSubnet1') }]),
+      },
+    },
+  });
+});
+
+test('defaults the task subnets to the NAT gateway setting and requires endpoints for isolated tasks', () => {
+  expect(testConfig().vpc.taskSubnetType).toBe('private');
+  expect(testConfig({ vpc: { natGateways: 0, endpoints: true } }).vpc.taskSubnetType).toBe('isolated');
+  expect(() => testConfig({ vpc: { natGateways: 0 } }))
+    .toThrow(/vpc\.endpoints \(not set\): must be true for tasks in isolated subnets/);
+  expect(() => testConfig({ vpc: { natGateways: 0, endpoints: true, taskSubnetType: 'private' } }))
+    .toThrow(/vpc\.taskSubnetType \(context vpc\.taskSubnetType\)/);
+});
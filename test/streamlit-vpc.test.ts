@@ -0,0 +1,68 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthVpcStack, testConfig } from './stack-test-utils';
+
+test('creates the VPC with the configured CIDR, zones, NAT gateways and subnet masks', () => {
+  const template = synthVpcStack({
+    vpc: { cidr: '10.20.0.0/20', maxAzs: 2, natGateways: 2, subnetCidrMasks: { public: 26, private: 23, isolated: 26 } },
+  });
+
+  template.hasResourceProperties('AWS::EC2::VPC', { CidrBlock: '10.20.0.0/20' });
+  template.resourceCountIs('AWS::EC2::NatGateway', 2);
+  template.resourceCountIs('AWS::EC2::Subnet', 6);
+  template.hasResourceProperties('AWS::EC2::Subnet', { CidrBlock: Match.stringLikeRegexp('/23$') });
+});
+
+test('uses region specific CIDR ranges and only isolated private subnets without NAT gateways', () => {
+  const template = synthVpcStack({ vpc: { natGateways: 0, endpoints: true, regionCidrs: { 'ap-southeast-1': '10.1.0.0/16' } } });
+
+  template.hasResourceProperties('AWS::EC2::VPC', { CidrBlock: '10.1.0.0/16' });
+  template.resourceCountIs('AWS::EC2::NatGateway', 0);
+  template.resourceCountIs('AWS::EC2::Subnet', 6);
+});
+
+test('gives the VPC of every region and platform a range of its own', () => {
+  const platforms = { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64', ECR_REPOSITORY_NAME: 'streamlit-{platform}', CDK_DEPLOY_REGIONS: 'ap-southeast-1,us-east-1' };
+
+  expect(testConfig({}, platforms).vpc.stackCidrs).toEqual({
+    'ap-southeast-1/arm': '10.0.0.0/16',
+    'ap-southeast-1/amd64': '10.1.0.0/16',
+    'us-east-1/arm': '10.2.0.0/16',
+    'us-east-1/amd64': '10.3.0.0/16',
+  });
+  expect(testConfig({
+    vpc: {
+      regionCidrs: { 'ap-southeast-1': '10.10.0.0/16', 'us-east-1': '10.20.0.0/16' },
+      platformCidrs: { 'ap-southeast-1/amd64': '10.11.0.0/16', 'us-east-1/amd64': '10.21.0.0/16' },
+    },
+  }, platforms).vpc.stackCidrs).toEqual({
+    'ap-southeast-1/arm': '10.10.0.0/16',
+    'ap-southeast-1/amd64': '10.11.0.0/16',
+    'us-east-1/arm': '10.20.0.0/16',
+    'us-east-1/amd64': '10.21.0.0/16',
+  });
+});
+
+test('rejects overlapping VPC ranges within an environment', () => {
+  const platforms = { PLATFORMS: 'LINUX_ARM64,LINUX_AMD64', ECR_REPOSITORY_NAME: 'streamlit-{platform}' };
+
+  expect(() => testConfig({ vpc: { cidr: '10.20.0.0/16' } }, platforms))
+    .toThrow(/vpc\.cidr \(context vpc\.cidr\): 10\.20\.0\.0\/16 of ap-southeast-1\/amd64 overlaps 10\.20\.0\.0\/16 of ap-southeast-1\/arm/);
+  expect(() => testConfig({ vpc: { regionCidrs: { 'ap-southeast-1': '10.0.0.0/16' }, platformCidrs: { 'ap-southeast-1/amd64': '10.0.128.0/20' } } }, platforms))
+    .toThrow(/vpc\.platformCidrs\.ap-southeast-1\/amd64 \(context vpc\.platformCidrs\.ap-southeast-1\/amd64\): 10\.0\.128\.0\/20 of ap-southeast-1\/amd64 overlaps 10\.0\.0\.0\/16 of ap-southeast-1\/arm/);
+  expect(() => testConfig({ vpc: { platformCidrs: { 'ap-southeast-1/x86': '10.5.0.0/16' } } }))
+    .toThrow(/vpc\.platformCidrs\.ap-southeast-1\/x86 \(context vpc\.platformCidrs\.ap-southeast-1\/x86\): is not one of the deployed <region>\/<platform> pairs ap-southeast-1\/arm/);
+});
+
+test('looks up an existing VPC instead of creating one', () => {
+  const template = synthVpcStack({ vpc: { lookup: { tags: { Name: 'shared-vpc' } } } }, { CDK_DEFAULT_ACCOUNT: '123456789012' });
+
+  template.resourceCountIs('AWS::EC2::VPC', 0);
+  template.resourceCountIs('AWS::EC2::FlowLog', 0);
+});
+
+test('rejects VPC settings that cannot work', () => {
+  expect(() => testConfig({ vpc: { cidr: '10.0.0.0/24', subnetCidrMasks: { public: 26, private: 26, isolated: 26 } } }))
+    .toThrow(/vpc\.cidr \(context vpc\.cidr\): 3 availability zones of \/26, \/26, \/26 subnets need 576 addresses/);
+  expect(() => testConfig({ vpc: { lookup: { vpcId: 'vpc-0123456789abcdef0' }, cidr: '10.1.0.0/16' } }))
+    .toThrow(/vpc\.lookup \(context vpc\.lookup\): cannot be combined with vpc\.cidr[\s\S]*vpc\.lookup \(context vpc\.lookup\): requires the account/);
+});
@@ -0,0 +1,55 @@
+import { Match } from 'aws-cdk-lib/assertions';
+import { synthStacks, testConfig } from './stack-test-utils';
+
+test('attaches a blocking web ACL with managed rules and a rate limit to the distribution', () => {
+  const { fargate, edge } = synthStacks({ waf: { enabled: true, mode: 'block', rateLimit: 1000 } });
+
+  edge!.hasResourceProperties('AWS::WAFv2::WebACL', {
+    Scope: 'CLOUDFRONT',
+    DefaultAction: { Allow: {} },
+    Rules: [
+      Match.objectLike({ Name: 'RateLimit', Action: { Block: {} }, Statement: { RateBasedStatement: { Limit: 1000, AggregateKeyType: 'IP' } } }),
+      Match.objectLike({ Name: 'AWSManagedRulesCommonRuleSet', OverrideAction: { None: {} } }),
+      Match.objectLike({ Name: 'AWSManagedRulesKnownBadInputsRuleSet' }),
+      Match.objectLike({ Name: 'AWSManagedRulesAmazonIpReputationList' }),
+    ],
+  });
+  edge!.hasResourceProperties('AWS::Logs::LogGroup', { LogGroupName: Match.stringLikeRegexp('^aws-waf-logs-'), RetentionInDays: 90 });
+  edge!.resourceCountIs('AWS::WAFv2::LoggingConfiguration', 1);
+  expect(Object.keys(edge!.findOutputs('*')).some(name => name.includes('WebAclArn'))).toBe(true);
+  fargate.hasResourceProperties('AWS::CloudFront::Distribution', {
+    DistributionConfig: Match.objectLike({ WebACLId: Match.anyValue() }),
+  });
+});
+
+test('only counts matches in count mode and adds IP and geo rules', () => {
+  const { edge } = synthStacks({
+    waf: {
+      enabled: true,
+      mode: 'count',
+      allowedIpCidrs: ['203.0.113.0/24', '2001:db8::/32'],
+      deniedIpCidrs: ['198.51.100.7/32'],
+      blockedCountries: ['KP'],
+      managedRuleGroups: ['AWSManagedRulesCommonRuleSet'],
+      logDestination: 's3',
+    },
+  });
+
+  edge!.hasResourceProperties('AWS::WAFv2::WebACL', {
+    Rules: [
+      Match.objectLike({ Name: 'AllowedIps', Action: { Allow: {} }, Statement: { OrStatement: Match.anyValue() } }),
+      Match.objectLike({ Name: 'DeniedIps', Action: { Count: {} }, Statement: { IPSetReferenceStatement: Match.anyValue() } }),
+      Match.objectLike({ Name: 'GeoRestriction', Action: { Count: {} }, Statement: { GeoMatchStatement: { CountryCodes: ['KP'] } } }),
+      Match.objectLike({ Name: 'AWSManagedRulesCommonRuleSet', OverrideAction: { Count: {} } }),
+    ],
+  });
+  edge!.resourceCountIs('AWS::WAFv2::IPSet', 3);
+  edge!.hasResourceProperties('AWS::S3::Bucket', { BucketName: Match.stringLikeRegexp('^aws-waf-logs-[a-z0-9-]+$') });
+});
+
+test('rejects invalid WAF settings', () => {
+  expect(() => testConfig({ waf: { enabled: true, allowedIpCidrs: ['10.0.0.0/33'], allowedCountries: ['de'], logRetentionDays: 10 } }))
+    .toThrow(/waf\.allowedIpCidrs[\s\S]*waf\.allowedCountries[\s\S]*waf\.logRetentionDays/);
+  expect(() => testConfig({ waf: { enabled: true, allowedCountries: ['DE'], blockedCountries: ['KP'] } }))
+    .toThrow(/waf\.blockedCountries \(context waf\.blockedCountries\): cannot be combined/);
+});
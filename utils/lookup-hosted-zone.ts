@@ -0,0 +1,21 @@
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Construct } from 'constructs';
+import { DomainConfig } from '../lib/config/StreamlitDeploymentConfig';
+
+/**
+ * Imports the hosted zone of the custom domain, by id when configured and by name lookup otherwise.
+ *
+ * @param {Construct} scope - The scope in which to define the imported zone.
+ * @param {string} id - The scoped construct ID.
+ * @param {DomainConfig} domain - The domain configuration.
+ * @returns {route53.IHostedZone} The imported hosted zone.
+ */
+export function lookupHostedZone(scope: Construct, id: string, domain: DomainConfig): route53.IHostedZone {
+    if (domain.hostedZoneId) {
+        return route53.HostedZone.fromHostedZoneAttributes(scope, id, {
+            hostedZoneId: domain.hostedZoneId,
+            zoneName: domain.hostedZoneName,
+        });
+    }
+    return route53.HostedZone.fromLookup(scope, id, { domainName: domain.hostedZoneName });
+}
@@ -0,0 +1,88 @@
+import * as cdk from 'aws-cdk-lib';
+import * as athena from 'aws-cdk-lib/aws-athena';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as glue from 'aws-cdk-lib/aws-glue';
+import * as kinesisfirehose from 'aws-cdk-lib/aws-kinesisfirehose';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import { IConstruct } from 'constructs';
+
+/**
+ * Rejects physical names that several stacks of the app would create in the same account and region,
+ * which CloudFormation only reports once the second stack is deployed.
+ *
+ * Checks the explicitly named resources of the stacks: ECR repositories, ECS clusters, log groups,
+ * CloudWatch alarms and dashboards, Athena workgroups, Glue databases and tables, Firehose streams,
+ * WAF web ACLs and IP sets, the export names of stack outputs and CloudFront policies. Dashboard and
+ * CloudFront policy names are unique within the whole account. Names that are only known at deploy
+ * time are skipped. Add it to the app with `cdk.Aspects.of(app).add(...)`; duplicates are reported as synth errors.
+ */
+export class UniquePhysicalNamesCheck implements cdk.IAspect {
+    private readonly owners = new Map<string, string>();
+
+    public visit(node: IConstruct): void {
+        if (node instanceof ecr.CfnRepository) {
+            this.check(node, 'ECR repository', node.repositoryName);
+        } else if (node instanceof ecs.CfnCluster) {
+            this.check(node, 'ECS cluster', node.clusterName);
+        } else if (node instanceof logs.CfnLogGroup) {
+            this.check(node, 'log group', node.logGroupName);
+        } else if (node instanceof cloudwatch.CfnAlarm) {
+            this.check(node, 'CloudWatch alarm', node.alarmName);
+        } else if (node instanceof cloudwatch.CfnDashboard) {
+            this.check(node, 'CloudWatch dashboard', node.dashboardName, true);
+        } else if (node instanceof athena.CfnWorkGroup) {
+            this.check(node, 'Athena workgroup', node.name);
+        } else if (node instanceof glue.CfnDatabase) {
+            this.check(node, 'Glue database', configName(node, node.databaseInput));
+        } else if (node instanceof glue.CfnTable) {
+            const tableName = configName(node, node.tableInput);
+            const databaseName = cdk.Stack.of(node).resolve(node.databaseName);
+            this.check(node, 'Glue table', tableName !== undefined && typeof databaseName === 'string' ? `${databaseName}.${tableName}` : undefined);
+        } else if (node instanceof kinesisfirehose.CfnDeliveryStream) {
+            this.check(node, 'Firehose delivery stream', node.deliveryStreamName);
+        } else if (node instanceof wafv2.CfnWebACL) {
+            this.check(node, `WAF ${node.scope} web ACL`, node.name);
+        } else if (node instanceof wafv2.CfnIPSet) {
+            this.check(node, `WAF ${node.scope} IP set`, node.name);
+        } else if (node instanceof cdk.CfnOutput) {
+            this.check(node, 'export', node.exportName);
+        } else if (node instanceof cloudfront.CfnCachePolicy) {
+            this.check(node, 'CloudFront cache policy', configName(node, node.cachePolicyConfig), true);
+        } else if (node instanceof cloudfront.CfnOriginRequestPolicy) {
+            this.check(node, 'CloudFront origin request policy', configName(node, node.originRequestPolicyConfig), true);
+        } else if (node instanceof cloudfront.CfnResponseHeadersPolicy) {
+            this.check(node, 'CloudFront response headers policy', configName(node, node.responseHeadersPolicyConfig), true);
+        }
+    }
+
+    private check(node: IConstruct, kind: string, name: string | undefined, global = false): void {
+        const stack = cdk.Stack.of(node);
+        const resolvedName = name === undefined ? undefined : stack.resolve(name);
+        if (typeof resolvedName !== 'string') {
+            return;
+        }
+        // environment agnostic stacks may be deployed anywhere, so they are treated as one account and region
+        const account = cdk.Token.isUnresolved(stack.account) ? '*' : stack.account;
+        const region = global || cdk.Token.isUnresolved(stack.region) ? '*' : stack.region;
+        const key = [account, region, kind, resolvedName].join('/');
+
+        const owner = this.owners.get(key);
+        if (owner === undefined) {
+            this.owners.set(key, node.node.path);
+        } else if (owner !== node.node.path) {
+            cdk.Annotations.of(node).addError(`The ${kind} name '${resolvedName}' is already used by ${owner} in the same account${global ? '' : ' and region'}.`);
+        }
+    }
+}
+
+/**
+ * The name in the configuration of a resource, e.g. of a CloudFront policy or a Glue database.
+ */
+function configName(node: IConstruct, config: unknown): string | undefined {
+    const resolvedConfig = cdk.Stack.of(node).resolve(config);
+    return typeof resolvedConfig?.name === 'string' ? resolvedConfig.name : undefined;
+}